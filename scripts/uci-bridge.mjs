@@ -0,0 +1,137 @@
+// Runs a local UCI engine binary and exposes it to the browser over HTTP:
+// engine output is streamed as server-sent events on GET /events and each
+// POST /command body is written to the engine's standard input.
+//
+//   npm run uci-bridge -- /usr/bin/stockfish [port]
+//
+// Then connect with the address it prints, which carries a token made up at
+// startup. Only that token and the app's origin (UCI_BRIDGE_ORIGIN, by default
+// the dev server) get through, so other sites cannot drive the engine, and only
+// the commands analysis needs are passed on.
+
+import { spawn } from 'node:child_process';
+import { randomBytes } from 'node:crypto';
+import { createServer } from 'node:http';
+
+const [enginePath, portArg] = process.argv.slice(2);
+const port = Number(portArg ?? 8765);
+const allowedOrigin = process.env.UCI_BRIDGE_ORIGIN ?? 'http://localhost:5173';
+const token = randomBytes(16).toString('hex');
+
+const ALLOWED_COMMANDS = ['uci', 'isready', 'ucinewgame', 'position', 'go', 'stop', 'ponderhit', 'quit'];
+// Options that only tune the search; others, like Debug Log File, reach the file system
+const ALLOWED_OPTIONS = ['MultiPV', 'UCI_Chess960', 'UCI_AnalyseMode', 'UCI_ShowWDL', 'Threads', 'Hash', 'Ponder'];
+
+const isAllowedCommand = command => {
+  const name = command.split(/\s+/)[0];
+  if (name !== 'setoption') return ALLOWED_COMMANDS.includes(name);
+
+  const match = /^setoption\s+name\s+(.+?)(?:\s+value\s.*)?$/.exec(command);
+  return !!match && ALLOWED_OPTIONS.includes(match[1]);
+};
+
+if (!enginePath) {
+  console.error('Usage: npm run uci-bridge -- <engine binary> [port]');
+  process.exit(1);
+}
+
+const engine = spawn(enginePath, [], { stdio: ['pipe', 'pipe', 'inherit'] });
+const clients = new Set();
+let pending = '';
+
+const broadcast = line => {
+  for (const client of clients) client.write(`data: ${line}\n\n`);
+};
+
+engine.stdout.setEncoding('utf8');
+engine.stdout.on('data', chunk => {
+  const lines = (pending + chunk).split(/\r?\n/);
+  pending = lines.pop();
+  lines.filter(line => line.trim() !== '').forEach(broadcast);
+});
+
+engine.on('error', error => {
+  console.error(`Could not start ${enginePath}: ${error.message}`);
+  process.exit(1);
+});
+
+engine.on('exit', code => {
+  console.log(`Engine exited with code ${code}`);
+  for (const client of clients) client.end();
+  server.close();
+});
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': allowedOrigin,
+  'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+  'Access-Control-Allow-Headers': 'Content-Type',
+  Vary: 'Origin'
+};
+
+const server = createServer((request, response) => {
+  // Browsers always send the page's origin; tools such as curl send none
+  const { origin } = request.headers;
+  if (origin !== undefined && origin !== allowedOrigin) {
+    response.writeHead(403, corsHeaders).end(`Origin ${origin} is not allowed`);
+    return;
+  }
+
+  if (request.method === 'OPTIONS') {
+    response.writeHead(204, corsHeaders).end();
+    return;
+  }
+
+  const url = new URL(request.url ?? '/', `http://localhost:${port}`);
+  if (url.searchParams.get('token') !== token) {
+    response.writeHead(403, corsHeaders).end('Missing or wrong token');
+    return;
+  }
+
+  if (request.method === 'GET' && url.pathname === '/events') {
+    response.writeHead(200, {
+      ...corsHeaders,
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      Connection: 'keep-alive'
+    });
+    clients.add(response);
+    request.on('close', () => clients.delete(response));
+    return;
+  }
+
+  if (request.method === 'POST' && url.pathname === '/command') {
+    let body = '';
+    request.setEncoding('utf8');
+    request.on('data', chunk => { body += chunk; });
+    request.on('end', () => {
+      const command = body.trim();
+      // Commands are single lines; anything else would desynchronise the engine
+      if (!command || command.includes('\n')) {
+        response.writeHead(400, corsHeaders).end('Expected one UCI command');
+        return;
+      }
+      if (!isAllowedCommand(command)) {
+        response.writeHead(403, corsHeaders).end(`Command not allowed: ${command}`);
+        return;
+      }
+      engine.stdin.write(`${command}\n`);
+      response.writeHead(204, corsHeaders).end();
+    });
+    return;
+  }
+
+  response.writeHead(404, corsHeaders).end();
+});
+
+server.listen(port, 'localhost', () => {
+  console.log(`UCI bridge for ${enginePath} listening for ${allowedOrigin}`);
+  console.log(`Connect with http://localhost:${port}/?token=${token}`);
+});
+
+const shutdown = () => {
+  engine.stdin.write('quit\n');
+  engine.kill();
+  process.exit(0);
+};
+process.on('SIGINT', shutdown);
+process.on('SIGTERM', shutdown);
@@ -1,8 +1,14 @@
-import React from 'react';
+import React, { useState } from 'react';
 import ChessGame from './components/ChessGame';
+import PuzzleTrainer from './components/PuzzleTrainer';
+import { SettingsProvider } from './settings/SettingsContext';
 import './App.css';
 
+type AppMode = 'play' | 'puzzles';
+
 function App() {
+  const [mode, setMode] = useState<AppMode>('play');
+
   return (
     <div className="App">
       <header className="app-header">
@@ -11,7 +17,20 @@ function App() {
       </header>
       
       <main className="app-main">
-        <ChessGame />
+        <nav className="mode-tabs" aria-label="Mode">
+          <button className={`mode-tab ${mode === 'play' ? 'active' : ''}`} onClick={() => setMode('play')}>
+            Play
+          </button>
+          <button className={`mode-tab ${mode === 'puzzles' ? 'active' : ''}`} onClick={() => setMode('puzzles')}>
+            Puzzles
+          </button>
+        </nav>
+
+        <SettingsProvider>
+          {/* The game stays mounted while solving puzzles, so its clock, history and connection carry on */}
+          <ChessGame isActive={mode === 'play'} />
+          {mode === 'puzzles' && <PuzzleTrainer />}
+        </SettingsProvider>
       </main>
       
       <footer className="app-footer">
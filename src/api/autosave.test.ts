@@ -0,0 +1,115 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { GameState } from '../types/chess';
+import { algebraicToPosition, createInitialGameState, makeMove } from '../utils/chessLogic';
+import { createAutosaver } from './autosave';
+import { GameRepositoryError } from './gameRepository';
+import { createLocalStorageGameRepository } from './localStorageGameRepository';
+
+const createMemoryStorage = (): Storage => {
+  const items = new Map<string, string>();
+  return {
+    getItem: key => items.get(key) ?? null,
+    setItem: (key, value) => void items.set(key, value),
+    removeItem: key => void items.delete(key),
+    clear: () => items.clear(),
+    key: index => [...items.keys()][index] ?? null,
+    get length() {
+      return items.size;
+    }
+  };
+};
+
+const play = (gameState: GameState, ...moves: [string, string][]) => {
+  return moves.reduce((state, [from, to]) => makeMove(state, algebraicToPosition(from), algebraicToPosition(to))!, gameState);
+};
+
+const setUp = () => {
+  const storage = createMemoryStorage();
+  const repository = createLocalStorageGameRepository(storage);
+  const errors: GameRepositoryError[] = [];
+  vi.spyOn(repository, 'create');
+  vi.spyOn(repository, 'save');
+  const autosaver = createAutosaver(repository, error => errors.push(error), storage, 1000);
+  return { storage, repository, errors, autosaver };
+};
+
+describe('autosave', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('writes only the last of a quick series of saves, once play pauses', async () => {
+    const { repository, autosaver } = setUp();
+    const first = play(createInitialGameState(), ['e2', 'e4']);
+    const second = play(first, ['e7', 'e5']);
+
+    autosaver.save(first);
+    await vi.advanceTimersByTimeAsync(500);
+    autosaver.save(second);
+    await vi.advanceTimersByTimeAsync(999);
+    expect(repository.create).not.toHaveBeenCalled();
+
+    await vi.advanceTimersByTimeAsync(1);
+    expect(repository.create).toHaveBeenCalledTimes(1);
+    expect(repository.create).toHaveBeenCalledWith(second);
+  });
+
+  it('writes a waiting save at once when flushed', async () => {
+    const { repository, autosaver } = setUp();
+    const gameState = play(createInitialGameState(), ['e2', 'e4']);
+
+    autosaver.save(gameState);
+    await autosaver.flush();
+    expect(repository.create).toHaveBeenCalledWith(gameState);
+
+    // Nothing is left to write when the timer would have fired
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(repository.create).toHaveBeenCalledTimes(1);
+    expect(repository.save).not.toHaveBeenCalled();
+  });
+
+  it('saves later moves to the game it created and restores it after a refresh', async () => {
+    const { storage, repository, autosaver } = setUp();
+    const opened = play(createInitialGameState(), ['e2', 'e4']);
+
+    autosaver.save(opened);
+    await autosaver.flush();
+    autosaver.save(play(opened, ['e7', 'e5']));
+    await autosaver.flush();
+    expect(repository.save).toHaveBeenCalledTimes(1);
+
+    const restored = await createAutosaver(repository, () => {}, storage).restore();
+    expect(restored?.moveHistory.map(move => move.notation)).toEqual(['e4', 'e5']);
+  });
+
+  it('does not store a game before its first move', async () => {
+    const { repository, autosaver } = setUp();
+    autosaver.save(createInitialGameState());
+    await autosaver.flush();
+    expect(repository.create).not.toHaveBeenCalled();
+  });
+
+  it('drops a waiting save when the game is reset', async () => {
+    const { repository, autosaver } = setUp();
+    autosaver.save(play(createInitialGameState(), ['e2', 'e4']));
+    autosaver.reset();
+    await vi.advanceTimersByTimeAsync(1000);
+    await autosaver.flush();
+    expect(repository.create).not.toHaveBeenCalled();
+  });
+
+  it('forgets a game that is no longer stored and reports it', async () => {
+    const { storage, repository, errors, autosaver } = setUp();
+    autosaver.save(play(createInitialGameState(), ['e2', 'e4']));
+    await autosaver.flush();
+    await repository.delete(storage.getItem('chess.currentGameId')!);
+
+    expect(await autosaver.restore()).toBeNull();
+    expect(errors.map(error => error.code)).toEqual(['notFound']);
+    expect(storage.getItem('chess.currentGameId')).toBeNull();
+  });
+});
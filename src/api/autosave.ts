@@ -0,0 +1,98 @@
+import { GameState } from '../types/chess';
+import { GameRepository, GameRepositoryError, restoreGameState, toRepositoryError } from './gameRepository';
+
+const CURRENT_GAME_KEY = 'chess.currentGameId';
+const AUTOSAVE_DELAY_MS = 1000;
+
+export interface Autosaver {
+  restore: () => Promise<GameState | null>;
+  save: (gameState: GameState) => void; // Debounced: only the latest state of a quick series is written
+  flush: () => Promise<void>; // Write a waiting save now; resolves once every write has finished
+  reset: () => void;
+}
+
+// Keeps the game in progress saved so a page refresh does not lose it. The id of
+// the current game is remembered in localStorage; the game itself goes to the
+// repository. Writes run one at a time, in order.
+export const createAutosaver = (
+  repository: GameRepository,
+  onError: (error: GameRepositoryError) => void,
+  storage: Storage = window.localStorage,
+  delayMs = AUTOSAVE_DELAY_MS
+): Autosaver => {
+  let gameId: string | null = storage.getItem(CURRENT_GAME_KEY);
+  let generation = 0; // Bumped by reset so queued writes for an abandoned game are dropped
+  let queue: Promise<void> = Promise.resolve();
+  let pending: GameState | null = null;
+  let timer: ReturnType<typeof setTimeout> | null = null;
+
+  const setGameId = (id: string | null) => {
+    gameId = id;
+    if (id) {
+      storage.setItem(CURRENT_GAME_KEY, id);
+    } else {
+      storage.removeItem(CURRENT_GAME_KEY);
+    }
+  };
+
+  const write = (gameState: GameState) => {
+    const saveGeneration = generation;
+
+    queue = queue.then(async () => {
+      if (saveGeneration !== generation) return;
+      // Nothing worth keeping until the first move
+      if (!gameId && gameState.moveHistory.length === 0) return;
+
+      try {
+        if (gameId) {
+          await repository.save(gameId, gameState);
+        } else {
+          const record = await repository.create(gameState);
+          if (saveGeneration === generation) setGameId(record.id);
+        }
+      } catch (error) {
+        onError(toRepositoryError(error));
+      }
+    });
+  };
+
+  const cancelPending = () => {
+    if (timer !== null) clearTimeout(timer);
+    timer = null;
+    pending = null;
+  };
+
+  const flush = () => {
+    const gameState = pending;
+    cancelPending();
+    if (gameState) write(gameState);
+    return queue;
+  };
+
+  return {
+    restore: async () => {
+      if (!gameId) return null;
+      try {
+        return restoreGameState(await repository.load(gameId));
+      } catch (error) {
+        const repositoryError = toRepositoryError(error);
+        if (repositoryError.code === 'notFound' || repositoryError.code === 'invalidData') {
+          setGameId(null);
+        }
+        onError(repositoryError);
+        return null;
+      }
+    },
+    save: gameState => {
+      pending = gameState;
+      if (timer !== null) clearTimeout(timer);
+      timer = setTimeout(flush, delayMs);
+    },
+    flush,
+    reset: () => {
+      cancelPending();
+      generation++;
+      setGameId(null);
+    }
+  };
+};
@@ -0,0 +1,106 @@
+import { GameApiState, GameState } from '../types/chess';
+import { applyFlagFall, claimDraw, createInitialGameState, isGameOver, makeMove } from '../utils/chessLogic';
+import { fromFEN, toFEN } from '../utils/fen';
+
+// Stored games, wherever they live. Every method rejects with a GameRepositoryError.
+export interface GameRepository {
+  create: (gameState: GameState) => Promise<GameApiState>;
+  load: (id: string) => Promise<GameApiState>;
+  save: (id: string, gameState: GameState) => Promise<GameApiState>;
+  list: () => Promise<GameApiState[]>;
+  delete: (id: string) => Promise<void>;
+}
+
+export type GameRepositoryErrorCode =
+  | 'notFound'
+  | 'forbidden' // Only the game's creator may do this
+  | 'network' // The backend could not be reached
+  | 'server' // The backend refused or failed the request
+  | 'invalidData' // A stored or returned record could not be read
+  | 'storage' // Local storage is unavailable or full
+  | 'configuration';
+
+export class GameRepositoryError extends Error {
+  code: GameRepositoryErrorCode;
+  retryable: boolean;
+
+  constructor(message: string, code: GameRepositoryErrorCode, retryable = false) {
+    super(message);
+    this.name = 'GameRepositoryError';
+    this.code = code;
+    this.retryable = retryable;
+  }
+}
+
+export const toRepositoryError = (error: unknown): GameRepositoryError => {
+  if (error instanceof GameRepositoryError) return error;
+  return new GameRepositoryError(error instanceof Error ? error.message : String(error), 'server');
+};
+
+// The record fields that describe the game, without the backend's timestamps
+export type GameApiPayload = Omit<GameApiState, 'createdAt' | 'updatedAt'>;
+
+export const toGameApiPayload = (id: string, gameState: GameState): GameApiPayload => ({
+  id,
+  board: toFEN(gameState),
+  currentPlayer: gameState.currentPlayer,
+  status: gameState.status,
+  moveHistory: gameState.moveHistory,
+  startFen: gameState.startFen,
+  drawReason: gameState.drawReason
+});
+
+// Ids are made on the client so a retried create cannot store the game twice
+export const createGameId = (): string => crypto.randomUUID();
+
+const WRITE_ATTEMPTS = 3;
+const RETRY_DELAY_MS = 500;
+
+// Retry transient failures with exponential backoff
+export const withRetry = async <T>(operation: () => Promise<T>, attempts = WRITE_ATTEMPTS): Promise<T> => {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await operation();
+    } catch (error) {
+      const repositoryError = toRepositoryError(error);
+      if (attempt >= attempts || !repositoryError.retryable) {
+        throw repositoryError;
+      }
+      await new Promise(resolve => setTimeout(resolve, RETRY_DELAY_MS * 2 ** (attempt - 1)));
+    }
+  }
+};
+
+const corrupt = (record: GameApiState, reason: string) => {
+  return new GameRepositoryError(`Game ${record.id} is corrupt: ${reason}`, 'invalidData');
+};
+
+// Rebuild a game from its record by replaying the stored moves, each checked
+// with makeMove. A record whose history does not replay to its stored position
+// is rejected: the position alone could be anything.
+export const restoreGameState = (record: GameApiState): GameState => {
+  let gameState: GameState;
+  try {
+    gameState = record.startFen ? fromFEN(record.startFen) : createInitialGameState();
+  } catch (error) {
+    throw corrupt(record, toRepositoryError(error).message);
+  }
+
+  record.moveHistory.forEach((move, index) => {
+    const next = makeMove(gameState, move.from, move.to, move.promotionPiece);
+    if (!next) throw corrupt(record, `move ${index + 1} is illegal`);
+    gameState = next;
+  });
+  if (toFEN(gameState) !== record.board) {
+    throw corrupt(record, 'its moves do not lead to its position');
+  }
+
+  // Results that are not visible on the board: a flag fall, or a draw that could be claimed
+  if (isGameOver(gameState) || record.status === gameState.status) return gameState;
+  if (record.status === 'timeout' || record.drawReason === 'timeoutVsInsufficientMaterial') {
+    return applyFlagFall(gameState);
+  }
+  const claimed = record.status === 'draw' ? claimDraw(gameState) : null;
+  if (!claimed) throw corrupt(record, `its result (${record.status}) does not match its position`);
+  return claimed;
+};
@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest';
+import { GameState } from '../types/chess';
+import { algebraicToPosition, createInitialGameState, makeMove } from '../utils/chessLogic';
+import { GameRepositoryError, restoreGameState } from './gameRepository';
+import { createLocalStorageGameRepository } from './localStorageGameRepository';
+
+const createMemoryStorage = (): Storage => {
+  const items = new Map<string, string>();
+  return {
+    getItem: key => items.get(key) ?? null,
+    setItem: (key, value) => void items.set(key, value),
+    removeItem: key => void items.delete(key),
+    clear: () => items.clear(),
+    key: index => [...items.keys()][index] ?? null,
+    get length() {
+      return items.size;
+    }
+  };
+};
+
+const play = (gameState: GameState, from: string, to: string) => {
+  return makeMove(gameState, algebraicToPosition(from), algebraicToPosition(to))!;
+};
+
+const rejection = (promise: Promise<unknown>) => promise.then(
+  () => { throw new Error('expected a rejection'); },
+  (error: GameRepositoryError) => error
+);
+
+describe('localStorage game repository', () => {
+  it('creates, loads, saves, lists and deletes games', async () => {
+    const repository = createLocalStorageGameRepository(createMemoryStorage());
+    const opened = play(createInitialGameState(), 'e2', 'e4');
+
+    const created = await repository.create(opened);
+    expect(created).toMatchObject({ currentPlayer: 'black', status: 'active' });
+    expect(await repository.load(created.id)).toEqual(created);
+
+    const saved = await repository.save(created.id, play(opened, 'e7', 'e5'));
+    expect(saved.createdAt).toBe(created.createdAt);
+    expect(restoreGameState(await repository.load(created.id)).moveHistory.map(move => move.notation)).toEqual(['e4', 'e5']);
+
+    const other = await repository.create(createInitialGameState());
+    expect((await repository.list()).map(game => game.id).sort()).toEqual([created.id, other.id].sort());
+
+    await repository.delete(created.id);
+    expect((await repository.list()).map(game => game.id)).toEqual([other.id]);
+  });
+
+  it('reports missing games as notFound', async () => {
+    const repository = createLocalStorageGameRepository(createMemoryStorage());
+
+    for (const operation of [
+      repository.load('missing'),
+      repository.save('missing', createInitialGameState()),
+      repository.delete('missing')
+    ]) {
+      expect(await rejection(operation)).toMatchObject({ name: 'GameRepositoryError', code: 'notFound' });
+    }
+  });
+
+  it('reports unreadable and unwritable storage', async () => {
+    const corrupt = createMemoryStorage();
+    corrupt.setItem('chess.games', '[1, 2');
+    expect(await rejection(createLocalStorageGameRepository(corrupt).list())).toMatchObject({ code: 'invalidData' });
+
+    const full = { ...createMemoryStorage(), getItem: () => null, setItem: () => { throw new Error('QuotaExceededError'); } };
+    const error = await rejection(createLocalStorageGameRepository(full as Storage).create(createInitialGameState()));
+    expect(error).toMatchObject({ code: 'storage', retryable: false });
+  });
+});
@@ -0,0 +1,82 @@
+import { GameApiState } from '../types/chess';
+import {
+  createGameId,
+  GameRepository,
+  GameRepositoryError,
+  toGameApiPayload
+} from './gameRepository';
+
+const STORAGE_KEY = 'chess.games';
+
+// All games live under one key as a map from id to record
+export const createLocalStorageGameRepository = (storage: Storage = window.localStorage): GameRepository => {
+  const readAll = (): Record<string, GameApiState> => {
+    let raw: string | null;
+    try {
+      raw = storage.getItem(STORAGE_KEY);
+    } catch {
+      throw new GameRepositoryError('Local storage is not available', 'storage');
+    }
+    if (!raw) return {};
+
+    try {
+      const games = JSON.parse(raw);
+      if (typeof games !== 'object' || games === null || Array.isArray(games)) {
+        throw new Error('expected an object');
+      }
+      return games;
+    } catch (error) {
+      throw new GameRepositoryError(
+        `Saved games are unreadable: ${error instanceof Error ? error.message : String(error)}`,
+        'invalidData'
+      );
+    }
+  };
+
+  const writeAll = (games: Record<string, GameApiState>) => {
+    try {
+      storage.setItem(STORAGE_KEY, JSON.stringify(games));
+    } catch {
+      throw new GameRepositoryError('Could not write to local storage; it may be full', 'storage');
+    }
+  };
+
+  const getGame = (games: Record<string, GameApiState>, id: string): GameApiState => {
+    const game = games[id];
+    if (!game) {
+      throw new GameRepositoryError(`Game ${id} not found`, 'notFound');
+    }
+    return game;
+  };
+
+  return {
+    create: async gameState => {
+      const games = readAll();
+      const now = new Date().toISOString();
+      const game: GameApiState = { ...toGameApiPayload(createGameId(), gameState), createdAt: now, updatedAt: now };
+      writeAll({ ...games, [game.id]: game });
+      return game;
+    },
+    load: async id => getGame(readAll(), id),
+    save: async (id, gameState) => {
+      const games = readAll();
+      const { createdAt } = getGame(games, id);
+      const game: GameApiState = {
+        ...toGameApiPayload(id, gameState),
+        createdAt,
+        updatedAt: new Date().toISOString()
+      };
+      writeAll({ ...games, [id]: game });
+      return game;
+    },
+    list: async () => {
+      return Object.values(readAll()).sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+    },
+    delete: async id => {
+      const games = readAll();
+      getGame(games, id);
+      delete games[id];
+      writeAll(games);
+    }
+  };
+};
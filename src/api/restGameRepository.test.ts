@@ -0,0 +1,74 @@
+import axios, { AxiosError, InternalAxiosRequestConfig } from 'axios';
+import { describe, expect, it } from 'vitest';
+import { createInitialGameState } from '../utils/chessLogic';
+import { GameRepositoryError } from './gameRepository';
+import { createRestGameRepository } from './restGameRepository';
+
+interface Reply {
+  status: number;
+  data: unknown;
+}
+
+// An axios client whose requests are answered by `reply` instead of the network
+const createClient = (reply: (config: InternalAxiosRequestConfig) => Reply) => {
+  const requests: InternalAxiosRequestConfig[] = [];
+  const client = axios.create({
+    adapter: async config => {
+      requests.push(config);
+      const { status, data } = reply(config);
+      const response = { status, statusText: String(status), data, headers: {}, config };
+      if (status >= 400) {
+        throw new AxiosError(`Request failed with status code ${status}`, undefined, config, null, response);
+      }
+      return response;
+    }
+  });
+  return { client, requests };
+};
+
+const rejection = (promise: Promise<unknown>) => promise.then(
+  () => { throw new Error('expected a rejection'); },
+  (error: GameRepositoryError) => error
+);
+
+describe('REST game repository', () => {
+  it('sends games to /games and unwraps the ApiResponse envelope', async () => {
+    const { client, requests } = createClient(config => ({
+      status: 200,
+      data: { success: true, data: config.method === 'get' ? [] : JSON.parse(config.data ?? 'null') }
+    }));
+    const repository = createRestGameRepository('', client);
+
+    const created = await repository.create(createInitialGameState());
+    expect(created.currentPlayer).toBe('white');
+    expect(await repository.list()).toEqual([]);
+    await repository.delete(created.id);
+
+    expect(requests.map(request => `${request.method} ${request.url}`)).toEqual([
+      'post /games',
+      'get /games',
+      `delete /games/${created.id}`
+    ]);
+  });
+
+  it('maps error responses to typed errors', async () => {
+    const notFound = createClient(() => ({ status: 404, data: { success: false, error: 'No such game' } }));
+    expect(await rejection(createRestGameRepository('', notFound.client).load('missing')))
+      .toMatchObject({ code: 'notFound', message: 'No such game' });
+
+    const refused = createClient(() => ({ status: 200, data: { success: false, error: 'Game is over' } }));
+    expect(await rejection(createRestGameRepository('', refused.client).load('over')))
+      .toMatchObject({ code: 'server', message: 'Game is over' });
+
+    const garbled = createClient(() => ({ status: 200, data: '<html>' }));
+    expect(await rejection(createRestGameRepository('', garbled.client).load('game'))).toMatchObject({ code: 'invalidData' });
+  });
+
+  it('does not retry a request the server rejected for good', async () => {
+    const { client, requests } = createClient(() => ({ status: 400, data: { success: false, error: 'Bad game' } }));
+    const error = await rejection(createRestGameRepository('', client).save('game', createInitialGameState()));
+
+    expect(error).toMatchObject({ code: 'server', retryable: false });
+    expect(requests).toHaveLength(1);
+  });
+});
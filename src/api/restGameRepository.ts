@@ -0,0 +1,73 @@
+import axios, { AxiosInstance } from 'axios';
+import { ApiResponse, GameApiState } from '../types/chess';
+import {
+  createGameId,
+  GameRepository,
+  GameRepositoryError,
+  toGameApiPayload,
+  withRetry
+} from './gameRepository';
+
+const REQUEST_TIMEOUT_MS = 10000;
+
+const toError = (error: unknown): GameRepositoryError => {
+  if (!axios.isAxiosError(error)) {
+    return new GameRepositoryError(error instanceof Error ? error.message : String(error), 'server');
+  }
+
+  const response = error.response;
+  if (!response) {
+    return new GameRepositoryError(`Could not reach the game server: ${error.message}`, 'network', true);
+  }
+
+  const message = (response.data as ApiResponse<unknown> | undefined)?.error ?? error.message;
+  if (response.status === 404) {
+    return new GameRepositoryError(message, 'notFound');
+  }
+  // Overloaded or failing servers may well succeed on a second try
+  return new GameRepositoryError(message, 'server', response.status >= 500 || response.status === 429);
+};
+
+// Unwrap the server's ApiResponse envelope
+const unwrap = <T>(body: ApiResponse<T>): T => {
+  if (typeof body !== 'object' || body === null || typeof body.success !== 'boolean') {
+    throw new GameRepositoryError('The game server sent an unexpected response', 'invalidData');
+  }
+  if (!body.success) {
+    throw new GameRepositoryError(body.error ?? 'The game server rejected the request', 'server');
+  }
+  return body.data as T;
+};
+
+// Talks to a REST backend exposing /games, answering with ApiResponse<GameApiState>
+export const createRestGameRepository = (baseURL: string, client?: AxiosInstance): GameRepository => {
+  const http = client ?? axios.create({ baseURL, timeout: REQUEST_TIMEOUT_MS });
+
+  const request = async <T>(send: () => Promise<{ data: ApiResponse<T> }>): Promise<T> => {
+    let body: ApiResponse<T>;
+    try {
+      body = (await send()).data;
+    } catch (error) {
+      throw toError(error);
+    }
+    return unwrap(body);
+  };
+
+  const gamePath = (id: string) => `/games/${encodeURIComponent(id)}`;
+
+  return {
+    create: gameState => {
+      const payload = toGameApiPayload(createGameId(), gameState);
+      return withRetry(() => request(() => http.post<ApiResponse<GameApiState>>('/games', payload)));
+    },
+    load: id => request(() => http.get<ApiResponse<GameApiState>>(gamePath(id))),
+    save: (id, gameState) => {
+      const payload = toGameApiPayload(id, gameState);
+      return withRetry(() => request(() => http.put<ApiResponse<GameApiState>>(gamePath(id), payload)));
+    },
+    list: () => request(() => http.get<ApiResponse<GameApiState[]>>('/games')),
+    delete: async id => {
+      await withRetry(() => request(() => http.delete<ApiResponse<null>>(gamePath(id))));
+    }
+  };
+};
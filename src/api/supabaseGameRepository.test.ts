@@ -0,0 +1,99 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createInitialGameState } from '../utils/chessLogic';
+import { GameRepositoryError } from './gameRepository';
+import { supabaseGameRepository } from './supabaseGameRepository';
+
+const rpc = vi.fn();
+vi.mock('../lib/supabaseClient', () => ({ supabase: { rpc: (...args: unknown[]) => rpc(...args) } }));
+
+const createMemoryStorage = (): Storage => {
+  const items = new Map<string, string>();
+  return {
+    getItem: key => items.get(key) ?? null,
+    setItem: (key, value) => void items.set(key, value),
+    removeItem: key => void items.delete(key),
+    clear: () => items.clear(),
+    key: index => [...items.keys()][index] ?? null,
+    get length() {
+      return items.size;
+    }
+  };
+};
+
+// What the database functions return: the row as given, minus the owner secret
+const toStoredRow = (game: Record<string, unknown>) => {
+  const { owner_secret: _ownerSecret, ...row } = game;
+  return { ...row, created_at: '2026-10-19T00:00:00Z' };
+};
+
+const rejection = (promise: Promise<unknown>) => promise.then(
+  () => { throw new Error('expected a rejection'); },
+  (error: GameRepositoryError) => error
+);
+
+describe('Supabase game repository', () => {
+  beforeEach(() => {
+    rpc.mockReset();
+    vi.stubGlobal('window', { localStorage: createMemoryStorage() });
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('creates a game with a fresh owner secret and keeps the secret in this browser', async () => {
+    rpc.mockImplementation(async (_name: string, { game }: { game: Record<string, unknown> }) => ({ data: toStoredRow(game), error: null }));
+
+    const created = await supabaseGameRepository.create(createInitialGameState());
+    const [name, { game }] = rpc.mock.calls[0];
+
+    expect(name).toBe('create_game');
+    expect(game.owner_secret).toMatch(/^[0-9a-f-]{36}$/);
+    expect(created).not.toHaveProperty('owner_secret');
+    expect(JSON.parse(window.localStorage.getItem('chess.gameOwnerSecrets')!)).toEqual({ [created.id]: game.owner_secret });
+  });
+
+  it('lists only the games whose secrets this browser holds', async () => {
+    expect(await supabaseGameRepository.list()).toEqual([]);
+    expect(rpc).not.toHaveBeenCalled();
+
+    window.localStorage.setItem('chess.gameOwnerSecrets', JSON.stringify({ a: 'secret-a', b: 'secret-b' }));
+    rpc.mockResolvedValue({ data: [], error: null });
+    await supabaseGameRepository.list();
+    expect(rpc).toHaveBeenCalledWith('list_games', { secrets: ['secret-a', 'secret-b'] });
+  });
+
+  it('reports a missing game as notFound', async () => {
+    rpc.mockResolvedValue({ data: null, error: null });
+    expect(await rejection(supabaseGameRepository.load('missing'))).toMatchObject({ code: 'notFound' });
+  });
+
+  it('only deletes games created in this browser, with their secret', async () => {
+    expect(await rejection(supabaseGameRepository.delete('elsewhere'))).toMatchObject({ code: 'forbidden' });
+    expect(rpc).not.toHaveBeenCalled();
+
+    window.localStorage.setItem('chess.gameOwnerSecrets', JSON.stringify({ mine: 'secret', gone: 'old' }));
+    rpc.mockResolvedValue({ data: true, error: null });
+    await supabaseGameRepository.delete('mine');
+    expect(rpc).toHaveBeenCalledWith('delete_game', { game_id: 'mine', secret: 'secret' });
+    expect(JSON.parse(window.localStorage.getItem('chess.gameOwnerSecrets')!)).toEqual({ gone: 'old' });
+
+    rpc.mockResolvedValue({ data: false, error: null });
+    expect(await rejection(supabaseGameRepository.delete('gone'))).toMatchObject({ code: 'notFound' });
+  });
+
+  it('retries writes that could not reach Supabase', async () => {
+    vi.useFakeTimers();
+    try {
+      rpc.mockResolvedValueOnce({ data: null, error: { message: 'Failed to fetch', code: '' } })
+        .mockImplementation(async (_name: string, { game }: { game: Record<string, unknown> }) => ({ data: toStoredRow(game), error: null }));
+
+      const saved = supabaseGameRepository.save('game', createInitialGameState());
+      await vi.runAllTimersAsync();
+      expect(await saved).toMatchObject({ id: 'game' });
+      expect(rpc).toHaveBeenCalledTimes(2);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+});
@@ -0,0 +1,143 @@
+import { DrawReason, GameApiState, GameStatus, Move, PieceColor } from '../types/chess';
+import {
+  createGameId,
+  GameApiPayload,
+  GameRepository,
+  GameRepositoryError,
+  toGameApiPayload,
+  withRetry
+} from './gameRepository';
+
+// Row shape of the `games` table (see supabase/migrations)
+interface GameRow {
+  id: string;
+  board: string;
+  current_player: PieceColor;
+  status: GameStatus;
+  move_history: Move[];
+  start_fen: string | null;
+  draw_reason: DrawReason | null;
+  created_at: string;
+  updated_at: string;
+}
+
+interface PostgrestError {
+  message: string;
+  code: string;
+}
+
+// Secrets of the games created in this browser, by game id. Listing and deleting
+// games take their secrets.
+const OWNER_SECRETS_KEY = 'chess.gameOwnerSecrets';
+
+const readOwnerSecrets = (): Record<string, string> => {
+  try {
+    const secrets = JSON.parse(window.localStorage.getItem(OWNER_SECRETS_KEY) ?? '{}');
+    return typeof secrets === 'object' && secrets !== null ? secrets : {};
+  } catch {
+    return {};
+  }
+};
+
+// Without storage the game still works; it just cannot be deleted later
+const writeOwnerSecrets = (secrets: Record<string, string>) => {
+  try {
+    window.localStorage.setItem(OWNER_SECRETS_KEY, JSON.stringify(secrets));
+  } catch {
+    // Nothing to do
+  }
+};
+
+const toRow = (payload: GameApiPayload) => ({
+  id: payload.id,
+  board: payload.board,
+  current_player: payload.currentPlayer,
+  status: payload.status,
+  move_history: payload.moveHistory,
+  start_fen: payload.startFen ?? null,
+  draw_reason: payload.drawReason ?? null,
+  updated_at: new Date().toISOString()
+});
+
+const fromRow = (row: GameRow): GameApiState => ({
+  id: row.id,
+  board: row.board,
+  currentPlayer: row.current_player,
+  status: row.status,
+  moveHistory: row.move_history,
+  startFen: row.start_fen ?? undefined,
+  drawReason: row.draw_reason ?? undefined,
+  createdAt: row.created_at,
+  updatedAt: row.updated_at
+});
+
+const toError = (error: PostgrestError): GameRepositoryError => {
+  // supabase-js reports failed fetches as errors without a Postgres code
+  if (!error.code) {
+    return new GameRepositoryError(`Could not reach Supabase: ${error.message}`, 'network', true);
+  }
+  return new GameRepositoryError(error.message, 'server');
+};
+
+// The client module throws when Supabase is not configured, so load it on first use
+const getSupabase = async () => {
+  try {
+    return (await import('../lib/supabaseClient')).supabase;
+  } catch (error) {
+    throw new GameRepositoryError(error instanceof Error ? error.message : String(error), 'configuration');
+  }
+};
+
+type Supabase = Awaited<ReturnType<typeof getSupabase>>;
+
+const query = async <T>(
+  run: (supabase: Supabase) => PromiseLike<{ data: T | null; error: PostgrestError | null }>
+): Promise<T> => {
+  const { data, error } = await run(await getSupabase());
+  if (error) throw toError(error);
+  return data as T;
+};
+
+// Games are reached through database functions that take the game id (see
+// supabase/migrations), so only players holding the invite link can read or
+// update one. They return null when there is no such game.
+const callGameFunction = async (name: string, args: Record<string, unknown>): Promise<GameRow> => {
+  const row = await query<GameRow | null>(supabase => supabase.rpc(name, args));
+  if (!row) throw new GameRepositoryError('Game not found', 'notFound');
+  return row;
+};
+
+export const supabaseGameRepository: GameRepository = {
+  create: async gameState => {
+    const row = toRow(toGameApiPayload(createGameId(), gameState));
+    const ownerSecret = crypto.randomUUID();
+    const created = fromRow(await withRetry(() =>
+      callGameFunction('create_game', { game: { ...row, owner_secret: ownerSecret } })
+    ));
+    writeOwnerSecrets({ ...readOwnerSecrets(), [created.id]: ownerSecret });
+    return created;
+  },
+  load: async id => fromRow(await callGameFunction('get_game', { game_id: id })),
+  save: async (id, gameState) => {
+    const row = toRow(toGameApiPayload(id, gameState));
+    return fromRow(await withRetry(() => callGameFunction('save_game', { game: row })));
+  },
+  // Only the games created in this browser, newest first
+  list: async () => {
+    const secrets = Object.values(readOwnerSecrets());
+    if (secrets.length === 0) return [];
+    const rows = await query<GameRow[] | null>(supabase => supabase.rpc('list_games', { secrets }));
+    return (rows ?? []).map(fromRow);
+  },
+  // Only the browser that created a game can delete it
+  delete: async id => {
+    const { [id]: secret, ...otherSecrets } = readOwnerSecrets();
+    if (!secret) {
+      throw new GameRepositoryError(`Game ${id} was not created here, so it cannot be deleted`, 'forbidden');
+    }
+
+    const deleted = await withRetry(() => query<boolean>(supabase => supabase.rpc('delete_game', { game_id: id, secret })));
+    if (!deleted) throw new GameRepositoryError('Game not found', 'notFound');
+    writeOwnerSecrets(otherSecrets);
+  }
+};
@@ -0,0 +1,138 @@
+import React, { useState } from 'react';
+import { GameState, Move } from '../types/chess';
+import { AnalysisLine, formatScore, MAX_ANALYSIS_LINES } from '../engine/analysis';
+import EvaluationBar from './EvaluationBar';
+import { Activity, Play, Square } from 'lucide-react';
+
+export type AnalysisEngineSource = 'builtin' | 'bridge';
+
+export interface AnalysisConfig {
+  isEnabled: boolean;
+  multiPv: number;
+  engine: AnalysisEngineSource;
+  bridgeUrl: string; // Where the UCI bridge helper listens
+}
+
+export const DEFAULT_ANALYSIS_CONFIG: AnalysisConfig = {
+  isEnabled: false,
+  multiPv: 3,
+  engine: 'builtin',
+  bridgeUrl: 'http://localhost:8765'
+};
+
+interface AnalysisPanelProps {
+  config: AnalysisConfig;
+  gameState: GameState; // The position being analysed
+  lines: AnalysisLine[];
+  isRunning: boolean;
+  error: string | null;
+  onChange: (config: AnalysisConfig) => void;
+}
+
+// "12... Nf6 13. e4 d5", numbered from the analysed position
+const formatLine = (gameState: GameState, moves: Move[]): string => {
+  const isWhiteFirst = gameState.currentPlayer === 'white';
+  return moves.map((move, index) => {
+    const ply = index + (isWhiteFirst ? 0 : 1);
+    const moveNumber = gameState.fullMoveNumber + Math.floor(ply / 2);
+    if (ply % 2 === 0) return `${moveNumber}. ${move.notation}`;
+    return index === 0 ? `${moveNumber}... ${move.notation}` : move.notation;
+  }).join(' ');
+};
+
+const AnalysisPanel: React.FC<AnalysisPanelProps> = ({
+  config,
+  gameState,
+  lines,
+  isRunning,
+  error,
+  onChange
+}) => {
+  const [bridgeUrlText, setBridgeUrlText] = useState(config.bridgeUrl);
+  const depth = lines.length > 0 ? Math.min(...lines.map(line => line.depth)) : null;
+
+  const handleBridgeSubmit = (event: React.FormEvent) => {
+    event.preventDefault();
+    const bridgeUrl = bridgeUrlText.trim();
+    if (bridgeUrl) onChange({ ...config, bridgeUrl });
+  };
+
+  return (
+    <div className="analysis-panel">
+      <div className="flex items-center gap-2 mb-2">
+        <Activity className="w-4 h-4" />
+        <h3 className="section-title">Analysis</h3>
+      </div>
+
+      <EvaluationBar score={lines[0]?.score ?? null} />
+
+      <div className="analysis-status">
+        <button
+          className="control-button secondary"
+          onClick={() => onChange({ ...config, isEnabled: !config.isEnabled })}
+        >
+          {config.isEnabled
+            ? <><Square className="w-4 h-4" /> Stop</>
+            : <><Play className="w-4 h-4" /> Analyse</>}
+        </button>
+        {depth !== null && (
+          <span className="analysis-depth">Depth {depth}{isRunning ? '…' : ''}</span>
+        )}
+      </div>
+
+      {error && <div className="analysis-error">{error}</div>}
+
+      {lines.length > 0 && (
+        <ol className="analysis-lines">
+          {lines.map(line => (
+            <li key={line.multipv} className="analysis-line">
+              <span className="analysis-score">{formatScore(line.score)}</span>
+              <span className="analysis-moves">{formatLine(gameState, line.moves)}</span>
+            </li>
+          ))}
+        </ol>
+      )}
+
+      <label className="setting-row">
+        Lines
+        <select
+          value={config.multiPv}
+          onChange={event => onChange({ ...config, multiPv: Number(event.target.value) })}
+        >
+          {Array.from({ length: MAX_ANALYSIS_LINES }, (_, index) => (
+            <option key={index} value={index + 1}>{index + 1}</option>
+          ))}
+        </select>
+      </label>
+
+      <label className="setting-row">
+        Engine
+        <select
+          value={config.engine}
+          onChange={event => onChange({ ...config, engine: event.target.value as AnalysisEngineSource })}
+        >
+          <option value="builtin">Built-in</option>
+          <option value="bridge">External (UCI bridge)</option>
+        </select>
+      </label>
+
+      {config.engine === 'bridge' && (
+        <form className="setting-row" onSubmit={handleBridgeSubmit}>
+          <input
+            type="url"
+            value={bridgeUrlText}
+            onChange={event => setBridgeUrlText(event.target.value)}
+            placeholder="http://localhost:8765/?token=…"
+            title="The address npm run uci-bridge prints, token included"
+            aria-label="UCI bridge address"
+          />
+          <button type="submit" className="control-button secondary" disabled={!bridgeUrlText.trim()}>
+            Connect
+          </button>
+        </form>
+      )}
+    </div>
+  );
+};
+
+export default AnalysisPanel;
@@ -0,0 +1,43 @@
+import React from 'react';
+import { BoardOrientation, PieceColor } from '../types/chess';
+import { ArrowUpDown } from 'lucide-react';
+
+interface BoardControlsProps {
+  orientation: BoardOrientation;
+  shownColor: PieceColor; // The side currently at the bottom
+  onOrientationChange: (orientation: BoardOrientation) => void;
+}
+
+const BoardControls: React.FC<BoardControlsProps> = ({
+  orientation,
+  shownColor,
+  onOrientationChange
+}) => {
+  return (
+    <div className="board-controls">
+      <label className="setting-row">
+        Orientation
+        <select
+          value={orientation}
+          onChange={event => onOrientationChange(event.target.value as BoardOrientation)}
+        >
+          <option value="white">White at bottom</option>
+          <option value="black">Black at bottom</option>
+          <option value="auto">Side to move</option>
+        </select>
+      </label>
+
+      {/* Flipping fixes the orientation to the other side */}
+      <button
+        className="control-button secondary"
+        onClick={() => onOrientationChange(shownColor === 'white' ? 'black' : 'white')}
+        title="Flip board"
+      >
+        <ArrowUpDown className="w-4 h-4" />
+        Flip
+      </button>
+    </div>
+  );
+};
+
+export default BoardControls;
@@ -1,22 +1,202 @@
-import React from 'react';
-import { GameState, Position } from '../types/chess';
-import { positionsEqual, isInCheck } from '../utils/chessLogic';
-import ChessSquare from './ChessSquare';
+import React, { useRef, useState } from 'react';
+import { GameState, PieceColor, Position, PromotionPieceType } from '../types/chess';
+import { algebraicToPosition, positionsEqual, positionToAlgebraic, isInCheck } from '../utils/chessLogic';
+import { getAnimationDuration } from '../settings/settings';
+import { useSettings } from '../settings/SettingsContext';
+import ChessSquare, { MoveAnimation } from './ChessSquare';
+import PieceGlyph from './PieceGlyph';
+import PromotionPicker from './PromotionPicker';
+
+// An arrow drawn over the board, such as an engine's suggested move
+export interface BoardArrow {
+  from: Position;
+  to: Position;
+  isPrimary?: boolean; // The best suggestion, drawn more strongly than the rest
+}
 
 interface ChessBoardProps {
   gameState: GameState;
   selectedSquare: Position | null;
   validMoves: Position[];
   onSquareClick: (position: Position) => void;
+  promotionSquare?: Position | null;
+  onPromotionSelect?: (piece: PromotionPieceType) => void;
+  onPromotionCancel?: () => void;
+  premove?: { from: Position; to: Position } | null;
+  canDragFrom?: (position: Position) => boolean;
+  onDragStart?: (from: Position) => void;
+  onDrop?: (from: Position, to: Position | null) => void; // `to` is null when dropped off the board
+  orientation?: PieceColor; // The side shown at the bottom
+  arrows?: BoardArrow[];
+  hintSquare?: Position | null; // A square to draw attention to, like the piece a puzzle wants moved
+}
+
+interface DragState {
+  pointerId: number;
+  from: Position;
+  startX: number;
+  startY: number;
+  x: number; // Pointer position relative to the board
+  y: number;
+  isDragging: boolean; // False until the pointer has moved far enough to count as a drag
 }
 
+// Movement in pixels before a press on a piece becomes a drag rather than a click
+const DRAG_THRESHOLD = 4;
+
+// Arrow sizes in squares
+const ARROW_HEAD_LENGTH = 0.4;
+const ARROW_HEAD_WIDTH = 0.4;
+
 const ChessBoard: React.FC<ChessBoardProps> = ({
   gameState,
   selectedSquare,
   validMoves,
-  onSquareClick
+  onSquareClick,
+  promotionSquare = null,
+  onPromotionSelect,
+  onPromotionCancel,
+  premove = null,
+  canDragFrom,
+  onDragStart,
+  onDrop,
+  orientation = 'white',
+  arrows = [],
+  hintSquare = null
 }) => {
   const { board, moveHistory } = gameState;
+  const boardRef = useRef<HTMLDivElement>(null);
+  const [drag, setDrag] = useState<DragState | null>(null);
+  const suppressClickRef = useRef(false);
+  // The last move made by dropping a piece, which is already where it belongs
+  const droppedMoveRef = useRef<{ from: Position; to: Position } | null>(null);
+  // The square keyboard navigation starts from; only it is reachable with Tab
+  const [focusedSquare, setFocusedSquare] = useState<Position | null>(null);
+  const { settings } = useSettings();
+  const animationDuration = getAnimationDuration(settings.animationSpeed);
+  const isFlipped = orientation === 'black';
+
+  // Board rows and columns run from a8 to h1; flipped, the screen shows them from h1 to a8
+  const toBoardPosition = (displayRow: number, displayCol: number): Position => (
+    isFlipped ? { row: 7 - displayRow, col: 7 - displayCol } : { row: displayRow, col: displayCol }
+  );
+
+  // Pointer coordinates relative to the inside of the board's border
+  const getBoardPoint = (event: React.PointerEvent) => {
+    const element = boardRef.current!;
+    const rect = element.getBoundingClientRect();
+    return {
+      x: event.clientX - rect.left - element.clientLeft,
+      y: event.clientY - rect.top - element.clientTop
+    };
+  };
+
+  const getSquareAt = (x: number, y: number): Position | null => {
+    const element = boardRef.current!;
+    const col = Math.floor((x / element.clientWidth) * 8);
+    const row = Math.floor((y / element.clientHeight) * 8);
+    return row >= 0 && row < 8 && col >= 0 && col < 8 ? toBoardPosition(row, col) : null;
+  };
+
+  const handlePointerDown = (event: React.PointerEvent<HTMLDivElement>) => {
+    if (drag || !onDrop || (event.pointerType === 'mouse' && event.button !== 0)) return;
+
+    const { x, y } = getBoardPoint(event);
+    const from = getSquareAt(x, y);
+    if (!from || !board[from.row][from.col] || !canDragFrom?.(from)) return;
+
+    setDrag({ pointerId: event.pointerId, from, startX: x, startY: y, x, y, isDragging: false });
+  };
+
+  const handlePointerMove = (event: React.PointerEvent<HTMLDivElement>) => {
+    if (!drag || event.pointerId !== drag.pointerId) return;
+
+    const { x, y } = getBoardPoint(event);
+    const isDragging = drag.isDragging ||
+      Math.hypot(x - drag.startX, y - drag.startY) > DRAG_THRESHOLD;
+    if (isDragging && !drag.isDragging) {
+      // Capturing only now leaves plain clicks to land on the square as usual
+      event.currentTarget.setPointerCapture(event.pointerId);
+      onDragStart?.(drag.from);
+    }
+    setDrag({ ...drag, x, y, isDragging });
+  };
+
+  const handlePointerUp = (event: React.PointerEvent<HTMLDivElement>) => {
+    if (!drag || event.pointerId !== drag.pointerId) return;
+
+    setDrag(null);
+    // A press without movement is left to the click handler
+    if (drag.isDragging) {
+      suppressClickRef.current = true;
+      const { x, y } = getBoardPoint(event);
+      const to = getSquareAt(x, y);
+      droppedMoveRef.current = to && { from: drag.from, to };
+      onDrop?.(drag.from, to);
+    }
+  };
+
+  // The piece goes back where it came from
+  const handlePointerCancel = () => {
+    if (drag?.isDragging) onDrop?.(drag.from, null);
+    setDrag(null);
+  };
+
+  // Releasing a drag can still produce a click on the square underneath
+  const handleClickCapture = (event: React.MouseEvent) => {
+    if (suppressClickRef.current) {
+      suppressClickRef.current = false;
+      event.stopPropagation();
+    }
+  };
+
+  // Keep track of focus however it arrives, by click or by keyboard
+  const handleFocus = (event: React.FocusEvent) => {
+    const square = (event.target as HTMLElement).dataset.position;
+    if (square) setFocusedSquare(algebraicToPosition(square));
+  };
+
+  const focusSquare = (position: Position) => {
+    setFocusedSquare(position);
+    boardRef.current
+      ?.querySelector<HTMLElement>(`[data-position="${positionToAlgebraic(position)}"]`)
+      ?.focus();
+  };
+
+  // Arrow keys move around the board as displayed, Home/End jump along the rank,
+  // Enter or Space act like a click
+  const handleKeyDown = (event: React.KeyboardEvent) => {
+    if (!focusedSquare || event.ctrlKey || event.metaKey || event.altKey) return;
+
+    const display = toBoardPosition(focusedSquare.row, focusedSquare.col); // The mapping is its own inverse
+    let next: Position | null = null;
+    switch (event.key) {
+      case 'ArrowUp': next = { row: display.row - 1, col: display.col }; break;
+      case 'ArrowDown': next = { row: display.row + 1, col: display.col }; break;
+      case 'ArrowLeft': next = { row: display.row, col: display.col - 1 }; break;
+      case 'ArrowRight': next = { row: display.row, col: display.col + 1 }; break;
+      case 'Home': next = { row: display.row, col: 0 }; break;
+      case 'End': next = { row: display.row, col: 7 }; break;
+      case 'Enter':
+      case ' ':
+        onSquareClick(focusedSquare);
+        break;
+      default:
+        return;
+    }
+
+    // Handled here, so the game's own arrow-key shortcuts stay out of it
+    event.preventDefault();
+    event.stopPropagation();
+    if (next && next.row >= 0 && next.row < 8 && next.col >= 0 && next.col < 8) {
+      focusSquare(toBoardPosition(next.row, next.col));
+    }
+  };
+
+  const tabStop = focusedSquare ?? selectedSquare ?? toBoardPosition(7, 0);
+
+  const draggedFrom = drag?.isDragging ? drag.from : null;
+  const dragOver = drag?.isDragging ? getSquareAt(drag.x, drag.y) : null;
   
   const getLastMovePositions = (): Position[] => {
     if (moveHistory.length === 0) return [];
@@ -25,8 +205,47 @@ const ChessBoard: React.FC<ChessBoardProps> = ({
   };
 
   const lastMovePositions = getLastMovePositions();
+
+  const getMoveAnimation = (): MoveAnimation | null => {
+    const lastMove = moveHistory[moveHistory.length - 1];
+    const dropped = droppedMoveRef.current;
+    if (!lastMove || animationDuration === 0 ||
+        (dropped && positionsEqual(dropped.from, lastMove.from) && positionsEqual(dropped.to, lastMove.to))) {
+      return null;
+    }
+
+    const direction = isFlipped ? -1 : 1;
+    return {
+      dx: (lastMove.from.col - lastMove.to.col) * direction,
+      dy: (lastMove.from.row - lastMove.to.row) * direction,
+      key: moveHistory.length
+    };
+  };
+
+  const moveAnimation = getMoveAnimation();
+  const animatedSquare = moveAnimation && moveHistory[moveHistory.length - 1].to;
   const isCurrentPlayerInCheck = isInCheck(board, gameState.currentPlayer);
 
+  // Drawn from square centre to square centre, in a viewBox one unit per square
+  const renderArrow = (arrow: BoardArrow, index: number) => {
+    const from = toBoardPosition(arrow.from.row, arrow.from.col);
+    const to = toBoardPosition(arrow.to.row, arrow.to.col);
+    const [x1, y1, x2, y2] = [from.col + 0.5, from.row + 0.5, to.col + 0.5, to.row + 0.5];
+    const length = Math.hypot(x2 - x1, y2 - y1);
+    if (length === 0) return null;
+
+    const [ux, uy] = [(x2 - x1) / length, (y2 - y1) / length];
+    const [baseX, baseY] = [x2 - ux * ARROW_HEAD_LENGTH, y2 - uy * ARROW_HEAD_LENGTH];
+    const [nx, ny] = [-uy * ARROW_HEAD_WIDTH / 2, ux * ARROW_HEAD_WIDTH / 2];
+
+    return (
+      <g key={index} className={`board-arrow${arrow.isPrimary ? ' primary' : ''}`}>
+        <line x1={x1} y1={y1} x2={baseX} y2={baseY} />
+        <polygon points={`${x2},${y2} ${baseX + nx},${baseY + ny} ${baseX - nx},${baseY - ny}`} />
+      </g>
+    );
+  };
+
   const renderSquare = (row: number, col: number) => {
     const position: Position = { row, col };
     const piece = board[row][col];
@@ -34,6 +253,7 @@ const ChessBoard: React.FC<ChessBoardProps> = ({
     const isSelected = selectedSquare && positionsEqual(selectedSquare, position);
     const isValidMove = validMoves.some(move => positionsEqual(move, position));
     const isLastMove = lastMovePositions.some(pos => positionsEqual(pos, position));
+    const isPremove = !!premove && (positionsEqual(premove.from, position) || positionsEqual(premove.to, position));
     const isInCheckSquare = isCurrentPlayerInCheck && 
                            piece?.type === 'king' && 
                            piece.color === gameState.currentPlayer;
@@ -48,15 +268,63 @@ const ChessBoard: React.FC<ChessBoardProps> = ({
         isValidMove={isValidMove}
         isLastMove={isLastMove}
         isInCheck={!!isInCheckSquare}
+        isPremove={isPremove}
+        isHint={!!hintSquare && positionsEqual(hintSquare, position)}
+        isDraggable={!!piece && !!onDrop && !!canDragFrom?.(position)}
+        isDragOrigin={!!draggedFrom && positionsEqual(draggedFrom, position)}
+        isDragOver={!!dragOver && positionsEqual(dragOver, position)}
+        isFlipped={isFlipped}
+        isFocusable={positionsEqual(tabStop, position)}
+        moveAnimation={animatedSquare && positionsEqual(animatedSquare, position) ? moveAnimation : null}
         onClick={onSquareClick}
       />
     );
   };
 
   return (
-    <div className="chess-board">
-      {Array.from({ length: 8 }, (_, row) =>
-        Array.from({ length: 8 }, (_, col) => renderSquare(row, col))
+    <div
+      ref={boardRef}
+      className={`chess-board theme-${settings.boardTheme}`}
+      style={{ '--animation-duration': `${animationDuration}ms` } as React.CSSProperties}
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onPointerCancel={handlePointerCancel}
+      onClickCapture={handleClickCapture}
+      onFocus={handleFocus}
+      onKeyDown={handleKeyDown}
+      role="grid"
+      aria-label={`Chess board, ${orientation} at the bottom`}
+    >
+      {Array.from({ length: 8 }, (_, displayRow) => (
+        <div key={displayRow} className="board-row" role="row">
+          {Array.from({ length: 8 }, (_, displayCol) => {
+            const { row, col } = toBoardPosition(displayRow, displayCol);
+            return renderSquare(row, col);
+          })}
+        </div>
+      ))}
+      
+      {arrows.length > 0 && (
+        <svg className="board-arrows" viewBox="0 0 8 8" aria-hidden="true">
+          {arrows.map(renderArrow)}
+        </svg>
+      )}
+
+      {draggedFrom && drag && (
+        <div className="drag-piece" aria-hidden="true" style={{ left: drag.x, top: drag.y }}>
+          <PieceGlyph piece={board[draggedFrom.row][draggedFrom.col]!} />
+        </div>
+      )}
+
+      {promotionSquare && onPromotionSelect && onPromotionCancel && (
+        <PromotionPicker
+          color={gameState.currentPlayer}
+          square={promotionSquare}
+          onSelect={onPromotionSelect}
+          onCancel={onPromotionCancel}
+          isFlipped={isFlipped}
+        />
       )}
     </div>
   );
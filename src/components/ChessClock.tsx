@@ -0,0 +1,67 @@
+import React from 'react';
+import { PieceColor } from '../types/chess';
+import { ClockState, formatClockTime, getRemainingMs, TIME_CONTROL_PRESETS } from '../utils/clock';
+import { Timer } from 'lucide-react';
+
+interface ChessClockProps {
+  clock: ClockState | null;
+  presetId: string | null;
+  now: number;
+  onPresetChange: (presetId: string | null) => void;
+}
+
+const ChessClock: React.FC<ChessClockProps> = ({
+  clock,
+  presetId,
+  now,
+  onPresetChange
+}) => {
+  const renderFace = (color: PieceColor) => {
+    if (!clock) return null;
+
+    const remaining = getRemainingMs(clock, color, now);
+    const classes = ['clock-face', color];
+    if (clock.activeColor === color) classes.push('active');
+    if (remaining < 10 * 1000) classes.push('low-time');
+
+    return (
+      <div className={classes.join(' ')}>
+        <span className="clock-label">{color === 'white' ? 'White' : 'Black'}</span>
+        <span className="clock-time">{formatClockTime(remaining)}</span>
+      </div>
+    );
+  };
+
+  return (
+    <div className="chess-clock">
+      <div className="flex items-center gap-2 mb-2">
+        <Timer className="w-4 h-4" />
+        <h3 className="section-title">Clock</h3>
+      </div>
+
+      <label className="setting-row">
+        Time control
+        <select
+          value={presetId ?? ''}
+          onChange={event => onPresetChange(event.target.value || null)}
+        >
+          <option value="">No clock</option>
+          {TIME_CONTROL_PRESETS.map(preset => (
+            <option key={preset.id} value={preset.id}>
+              {preset.category.charAt(0).toUpperCase() + preset.category.slice(1)} {preset.label}
+            </option>
+          ))}
+        </select>
+      </label>
+
+      {clock && (
+        <div className="clock-faces">
+          {renderFace('black')}
+          {renderFace('white')}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ChessClock;
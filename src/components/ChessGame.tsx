@@ -1,25 +1,296 @@
-import React, { useState, useCallback } from 'react';
-import { GameState, Position } from '../types/chess';
+import React, { useState, useCallback, useEffect, useMemo, useRef } from 'react';
+import { BoardOrientation, GameState, Move, PieceColor, Position, PromotionPieceType } from '../types/chess';
 import {
+  applyFlagFall,
+  claimDraw,
   createInitialGameState,
   getPossibleMoves,
+  isGameOver,
+  isPromotionMove,
   makeMove,
+  parseSAN,
+  parseUCI,
   positionsEqual
 } from '../utils/chessLogic';
-import ChessBoard from './ChessBoard';
+import {
+  canRedo,
+  canUndo,
+  createTimeline,
+  getCurrentState,
+  pushState,
+  redo,
+  replayPositions,
+  undo
+} from '../utils/gameHistory';
+import {
+  ClockState,
+  createClock,
+  getFlaggedColor,
+  pressClock,
+  startClock,
+  stopClock,
+  TIME_CONTROL_PRESETS
+} from '../utils/clock';
+import { getMoveSound, playSound } from '../utils/sound';
+import { exportMoveTreePGN, importPGN, PgnImportError } from '../utils/pgn';
+import { getMoveAnnouncement } from '../utils/announcements';
+import { createChess960GameState, findChess960Index } from '../utils/chess960';
+import { useSettings } from '../settings/SettingsContext';
+import { createEngineClient, EngineClient, ENGINE_LEVELS } from '../engine/engineClient';
+import { AnalysisLine, createBuiltInEvaluator, createUciEvaluator, Evaluator } from '../engine/analysis';
+import { createUciEngine } from '../engine/uciEngine';
+import { openHttpUciTransport } from '../engine/uciTransports';
+import { annotateMoveTree, GameReview, reviewGame } from '../engine/gameReview';
+import { getDefaultOpeningBook, pickBookMove } from '../openings/openingBook';
+import { openSupabaseChannel } from '../online/gameChannel';
+import { createAutosaver } from '../api/autosave';
+import { toRepositoryError } from '../api/gameRepository';
+import { createLocalStorageGameRepository } from '../api/localStorageGameRepository';
+import { supabaseGameRepository } from '../api/supabaseGameRepository';
+import {
+  createOnlineSession,
+  getInviteLink,
+  OnlineGameInfo,
+  OnlineSession,
+  parseInviteLink
+} from '../online/onlineSession';
+import {
+  addGameMoves,
+  addMove,
+  createMoveTree,
+  deleteVariation,
+  demoteVariation,
+  isOnPath,
+  MoveTree,
+  promoteVariation,
+  setComment
+} from '../utils/moveTree';
+import ChessBoard, { BoardArrow } from './ChessBoard';
+import BoardControls from './BoardControls';
+import MoveInput from './MoveInput';
+import ChessClock from './ChessClock';
 import GameInfo from './GameInfo';
+import OpponentSettings, { OpponentConfig } from './OpponentSettings';
+import OnlinePlay from './OnlinePlay';
+import SettingsPanel from './SettingsPanel';
+import VariantSettings from './VariantSettings';
+import AnalysisPanel, { AnalysisConfig, DEFAULT_ANALYSIS_CONFIG } from './AnalysisPanel';
+import GameReviewPanel from './GameReviewPanel';
+
+// Pause before a book reply, which would otherwise land the instant the player moves
+const BOOK_MOVE_DELAY_MS = 400;
 
-const ChessGame: React.FC = () => {
-  const [gameState, setGameState] = useState<GameState>(createInitialGameState());
+interface AnalysisState {
+  gameState: GameState; // The position the lines belong to
+  lines: AnalysisLine[];
+  isRunning: boolean;
+  error: string | null;
+}
+
+interface ChessGameProps {
+  // False while another mode is on screen: the game stays as it is, clock and
+  // all, but keyboard shortcuts and live analysis are left to the mode in view
+  isActive?: boolean;
+}
+
+const ChessGame: React.FC<ChessGameProps> = ({ isActive = true }) => {
+  const [timeline, setTimeline] = useState(() => createTimeline(createInitialGameState()));
   const [selectedSquare, setSelectedSquare] = useState<Position | null>(null);
   const [validMoves, setValidMoves] = useState<Position[]>([]);
+  const [pendingPromotion, setPendingPromotion] = useState<{ from: Position; to: Position } | null>(null);
+  // A move queued during the opponent's turn, checked when the turn comes round
+  const [premove, setPremove] = useState<{ from: Position; to: Position } | null>(null);
+  // The game and every line explored while reviewing it
+  const [moveTree, setMoveTree] = useState(() => createMoveTree(createInitialGameState()));
+  // The tree node on the board while reviewing; null while following the live game
+  const [reviewNodeId, setReviewNodeId] = useState<number | null>(null);
+  const [orientation, setOrientation] = useState<BoardOrientation>('white');
+  const { settings } = useSettings();
+  const [isSettingsOpen, setIsSettingsOpen] = useState(false);
 
-  const handleSquareClick = useCallback((position: Position) => {
-    // If game is over, don't allow moves
-    if (gameState.status === 'checkmate' || gameState.status === 'stalemate' || gameState.status === 'draw') {
-      return;
+  const [opponent, setOpponent] = useState<OpponentConfig>({
+    vsComputer: false,
+    computerColor: 'black',
+    levelIndex: 1,
+    useOpeningBook: true
+  });
+  const [isThinking, setIsThinking] = useState(false);
+  const engineRef = useRef<EngineClient | null>(null);
+
+  const [analysisConfig, setAnalysisConfig] = useState<AnalysisConfig>(DEFAULT_ANALYSIS_CONFIG);
+  const [evaluator, setEvaluator] = useState<Evaluator | null>(null);
+  const [analysis, setAnalysis] = useState<AnalysisState | null>(null);
+  // Reviews share the analysis engine, which pauses while one runs
+  const [isReviewRequested, setIsReviewRequested] = useState(false);
+  const [reviewProgress, setReviewProgress] = useState<{ evaluated: number; total: number } | null>(null);
+  const [gameReview, setGameReview] = useState<{ gameState: GameState; review: GameReview } | null>(null);
+  const [reviewError, setReviewError] = useState<string | null>(null);
+
+  const [timeControlId, setTimeControlId] = useState<string | null>(null);
+  const [clock, setClock] = useState<ClockState | null>(null);
+  const [now, setNow] = useState(() => Date.now());
+
+  // Opening an invite link joins that game straight away
+  const [onlineGame, setOnlineGame] = useState<OnlineGameInfo | null>(() => parseInviteLink(window.location.search));
+  const [isConnected, setIsConnected] = useState(false);
+  const [isCreatingGame, setIsCreatingGame] = useState(false);
+  const [onlineError, setOnlineError] = useState<string | null>(null);
+  const sessionRef = useRef<OnlineSession | null>(null);
+
+  const [saveError, setSaveError] = useState<string | null>(null);
+  const [isRestored, setIsRestored] = useState(false);
+  const [autosaver] = useState(() => createAutosaver(
+    createLocalStorageGameRepository(),
+    error => setSaveError(`Autosave failed: ${error.message}`)
+  ));
+
+  const gameState = getCurrentState(timeline);
+  const isComputerTurn = !onlineGame && opponent.vsComputer && gameState.currentPlayer === opponent.computerColor;
+  const isOpponentTurnOnline = onlineGame !== null && gameState.currentPlayer !== onlineGame.color;
+  // The side the user plays when there is an opponent to wait for
+  const playerColor: PieceColor | null = onlineGame
+    ? onlineGame.color
+    : opponent.vsComputer
+      ? (opponent.computerColor === 'white' ? 'black' : 'white')
+      : null;
+  // Taking moves back would leave the clocks out of step with the position
+  const isClockRunning = clock !== null && clock.activeColor !== null;
+
+  const { tree: syncedTree, nodeId: liveNodeId } = useMemo(() => addGameMoves(moveTree, gameState), [moveTree, gameState]);
+  // The variant follows the game being played, including one restored after a reload
+  const startState = syncedTree.nodes[syncedTree.rootId].gameState;
+  const isChess960 = !!startState.castlingRookFiles;
+  const chess960Index = useMemo(() => isChess960 ? findChess960Index(startState) : null, [isChess960, startState]);
+  const shownNodeId = reviewNodeId !== null && reviewNodeId !== liveNodeId && syncedTree.nodes[reviewNodeId]
+    ? reviewNodeId
+    : null;
+  const selectedNodeId = shownNodeId ?? liveNodeId;
+  const displayedState = shownNodeId === null ? gameState : syncedTree.nodes[shownNodeId].gameState;
+  const boardOrientation = orientation === 'auto' ? displayedState.currentPlayer : orientation;
+  const opening = useMemo(() => getDefaultOpeningBook().findOpening(displayedState), [displayedState]);
+  // Analysis of an earlier position is not shown once the board has moved on
+  const shownAnalysis = analysis?.gameState === displayedState ? analysis : null;
+  // The best line's arrow goes last, so it is drawn on top
+  const analysisArrows: BoardArrow[] = (shownAnalysis?.lines ?? [])
+    .map(line => ({ from: line.moves[0].from, to: line.moves[0].to, isPrimary: line.multipv === 1 }))
+    .reverse();
+  const shownReview = gameReview?.gameState === gameState ? gameReview.review : null;
+  const reviewPgn = useMemo(() => shownReview ? exportMoveTreePGN(syncedTree) : null, [shownReview, syncedTree]);
+
+  const clearSelection = useCallback(() => {
+    setSelectedSquare(null);
+    setValidMoves([]);
+    setPendingPromotion(null);
+  }, []);
+
+  const commitMove = useCallback((newGameState: GameState) => {
+    setTimeline(current => pushState(current, newGameState));
+    setClock(current => {
+      if (!current) return current;
+      if (isGameOver(newGameState)) return stopClock(current, Date.now());
+
+      const lastMove = newGameState.moveHistory[newGameState.moveHistory.length - 1];
+      return pressClock(current, lastMove.piece.color, lastMove.timestamp);
+    });
+    clearSelection();
+  }, [clearSelection]);
+
+  // Start over from `state`, with a move tree holding just its moves unless one is given
+  const resetGame = useCallback((state: GameState, tree: MoveTree = createMoveTree(replayPositions(state)[0])) => {
+    setTimeline(createTimeline(state));
+    setMoveTree(tree);
+    setReviewNodeId(null);
+    setPremove(null);
+  }, []);
+
+  // While reviewing, moves explore a new line in the tree and leave the game alone.
+  // Online moves go through the session, which validates, sends and reports back the new state.
+  const playMove = useCallback((from: Position, to: Position, promotionPiece?: PromotionPieceType) => {
+    if (shownNodeId !== null) {
+      const added = addMove(syncedTree, shownNodeId, from, to, promotionPiece);
+      if (!added) return null;
+
+      setMoveTree(added.tree);
+      setReviewNodeId(added.nodeId);
+      clearSelection();
+      return added.tree.nodes[added.nodeId].gameState;
+    }
+
+    if (sessionRef.current) {
+      return sessionRef.current.playMove(from, to, promotionPiece);
+    }
+
+    const newGameState = makeMove(gameState, from, to, promotionPiece);
+    if (newGameState) {
+      commitMove(newGameState);
+    }
+    return newGameState;
+  }, [gameState, commitMove, shownNodeId, syncedTree, clearSelection]);
+
+  // Whose pieces the user may pick up right now, or null when the board is locked.
+  // During the opponent's turn this is the player's own colour, for premoves.
+  const getMovableColor = useCallback((): PieceColor | null => {
+    // Lines explored while reviewing are open to both sides
+    if (shownNodeId !== null) {
+      return isGameOver(displayedState) ? null : displayedState.currentPlayer;
+    }
+    if (isGameOver(gameState) || (clock && getFlaggedColor(clock, Date.now()))) {
+      return null;
+    }
+    if (isComputerTurn || isOpponentTurnOnline) {
+      return playerColor;
+    }
+    return gameState.currentPlayer;
+  }, [shownNodeId, displayedState, gameState, clock, isComputerTurn, isOpponentTurnOnline, playerColor]);
+
+  const isPremoveTurn = shownNodeId === null && (isComputerTurn || isOpponentTurnOnline);
+
+  const canDragFrom = useCallback((position: Position) => {
+    const piece = displayedState.board[position.row][position.col];
+    return !!piece && piece.color === getMovableColor();
+  }, [displayedState, getMovableColor]);
+
+  // Select a piece and show where it can go; anything else clears the selection
+  const selectSquare = useCallback((position: Position): boolean => {
+    if (!canDragFrom(position)) {
+      setSelectedSquare(null);
+      setValidMoves([]);
+      return false;
     }
 
+    // For a premove, show the targets the piece would have if it were its turn now
+    const state = isPremoveTurn
+      ? { ...displayedState, currentPlayer: displayedState.board[position.row][position.col]!.color, enPassantTarget: null }
+      : displayedState;
+    setSelectedSquare(position);
+    setValidMoves(getPossibleMoves(state.board, position, state));
+    return true;
+  }, [canDragFrom, isPremoveTurn, displayedState]);
+
+  // Play, queue or start promoting a move; false if it could not be made
+  const tryMove = useCallback((from: Position, to: Position): boolean => {
+    if (isPremoveTurn) {
+      // Premoves are checked when the turn arrives; onto an own piece means reselect
+      if (positionsEqual(from, to) || canDragFrom(to)) return false;
+      setPremove({ from, to });
+      clearSelection();
+      return true;
+    }
+
+    // Promotions wait for the player to pick a piece, unless they always want a queen
+    if (!settings.autoQueen && isPromotionMove(displayedState.board, from, to) &&
+        getPossibleMoves(displayedState.board, from, displayedState).some(move => positionsEqual(move, to))) {
+      setSelectedSquare(from);
+      setPendingPromotion({ from, to });
+      return true;
+    }
+
+    return !!playMove(from, to);
+  }, [isPremoveTurn, canDragFrom, clearSelection, displayedState, playMove, settings.autoQueen]);
+
+  const handleSquareClick = useCallback((position: Position) => {
+    if (!getMovableColor()) return;
+
     if (selectedSquare) {
       // If clicking the same square, deselect
       if (positionsEqual(selectedSquare, position)) {
@@ -28,74 +299,527 @@ const ChessGame: React.FC = () => {
         return;
       }
 
-      // Try to make a move
-      const newGameState = makeMove(gameState, selectedSquare, position);
-      if (newGameState) {
-        setGameState(newGameState);
-        setSelectedSquare(null);
-        setValidMoves([]);
-      } else {
-        // Invalid move, try to select the clicked square instead
-        const piece = gameState.board[position.row][position.col];
-        if (piece && piece.color === gameState.currentPlayer) {
-          setSelectedSquare(position);
-          setValidMoves(getPossibleMoves(gameState.board, position, gameState));
-        } else {
-          setSelectedSquare(null);
-          setValidMoves([]);
-        }
-      }
-    } else {
-      // Select a piece
-      const piece = gameState.board[position.row][position.col];
-      if (piece && piece.color === gameState.currentPlayer) {
-        setSelectedSquare(position);
-        setValidMoves(getPossibleMoves(gameState.board, position, gameState));
+      // Invalid move, try to select the clicked square instead
+      if (!tryMove(selectedSquare, position)) {
+        selectSquare(position);
       }
+    } else if (!selectSquare(position)) {
+      // Clicking an empty or enemy square drops a queued premove
+      setPremove(null);
     }
-  }, [gameState, selectedSquare]);
+  }, [getMovableColor, selectedSquare, tryMove, selectSquare]);
 
-  const handleNewGame = useCallback(() => {
-    const newGameState = createInitialGameState();
-    setGameState(newGameState);
-    setSelectedSquare(null);
-    setValidMoves([]);
+  const handleDragStart = useCallback((from: Position) => {
+    setPendingPromotion(null);
+    selectSquare(from);
+  }, [selectSquare]);
+
+  // An illegal drop, or one off the board, snaps the piece back
+  const handleDrop = useCallback((from: Position, to: Position | null) => {
+    if (to && positionsEqual(from, to)) return;
+    if (!to || !getMovableColor() || !tryMove(from, to)) {
+      clearSelection();
+    }
+  }, [getMovableColor, tryMove, clearSelection]);
+
+  // Typed moves are played right away; there are no typed premoves
+  const handleTypedMove = useCallback((text: string): string | null => {
+    if (!getMovableColor()) return 'No moves can be played now';
+    if (isPremoveTurn) return 'Wait for your turn';
+
+    const move = parseUCI(displayedState, text) ?? parseSAN(displayedState, text);
+    if (!move || !playMove(move.from, move.to, move.promotionPiece)) {
+      return `${text} is not a legal move here`;
+    }
+    return null;
+  }, [getMovableColor, isPremoveTurn, displayedState, playMove]);
+
+  const handlePromotionSelect = useCallback((piece: PromotionPieceType) => {
+    if (!pendingPromotion) return;
+
+    if (!playMove(pendingPromotion.from, pendingPromotion.to, piece)) {
+      clearSelection();
+    }
+  }, [pendingPromotion, playMove, clearSelection]);
+
+  const handlePromotionCancel = useCallback(() => {
+    setPendingPromotion(null);
   }, []);
 
+  const startNewGame = useCallback((presetId: string | null, startState = createInitialGameState(), tree?: MoveTree) => {
+    const preset = TIME_CONTROL_PRESETS.find(candidate => candidate.id === presetId);
+    resetGame(startState, tree);
+    setClock(preset ? createClock(preset.control) : null);
+    autosaver.reset();
+    clearSelection();
+  }, [clearSelection, autosaver, resetGame]);
+
+  const handleNewGame = useCallback(() => {
+    // An online game is left explicitly, not restarted
+    if (onlineGame) return;
+    // A new Chess960 game gets a new random starting position
+    startNewGame(timeControlId, isChess960 ? createChess960GameState() : undefined);
+  }, [startNewGame, timeControlId, onlineGame, isChess960]);
+
+  // An imported game carries on from its last move, with its variations and comments kept
+  const handleImportPGN = useCallback((text: string): string | null => {
+    if (onlineGame) return 'Leave the online game first';
+
+    try {
+      const imported = importPGN(text);
+      startNewGame(timeControlId, imported.gameState, imported.tree);
+      return null;
+    } catch (error) {
+      return error instanceof PgnImportError ? error.message : String(error);
+    }
+  }, [startNewGame, timeControlId, onlineGame]);
+
+  const handleExportPGN = useCallback(() => {
+    const url = URL.createObjectURL(new Blob([exportMoveTreePGN(syncedTree)], { type: 'application/x-chess-pgn' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'game.pgn';
+    link.click();
+    // Some browsers start the download only after click() returns
+    setTimeout(() => URL.revokeObjectURL(url));
+  }, [syncedTree]);
+
+  // Changing the time control starts a fresh game with full clocks
+  const handleTimeControlChange = useCallback((presetId: string | null) => {
+    setTimeControlId(presetId);
+    startNewGame(presetId, isChess960 ? createChess960GameState() : undefined);
+  }, [startNewGame, isChess960]);
+
+  const handleVariantChange = useCallback((chess960: boolean) => {
+    startNewGame(timeControlId, chess960 ? createChess960GameState() : undefined);
+  }, [startNewGame, timeControlId]);
+
+  const handleChess960PositionSelect = useCallback((index: number) => {
+    startNewGame(timeControlId, createChess960GameState(index));
+  }, [startNewGame, timeControlId]);
+
+  // Against the computer, undo/redo step over its reply so the player is back on move
   const handleUndoMove = useCallback(() => {
-    if (gameState.moveHistory.length === 0) return;
-
-    // Simple undo - recreate game state without the last move
-    // In a more sophisticated implementation, you'd store previous states
-    const newMoveHistory = gameState.moveHistory.slice(0, -1);
-    
-    // For now, just start a new game (simplified undo)
-    // In production, you'd want to replay all moves except the last one
-    if (newMoveHistory.length === 0) {
-      handleNewGame();
+    if (isClockRunning || onlineGame) return;
+    setTimeline(current => {
+      const previous = undo(current);
+      return opponent.vsComputer &&
+        getCurrentState(previous).currentPlayer === opponent.computerColor &&
+        canUndo(previous)
+        ? undo(previous)
+        : previous;
+    });
+    setReviewNodeId(null);
+    setPremove(null);
+    clearSelection();
+  }, [clearSelection, opponent, isClockRunning, onlineGame]);
+
+  const handleRedoMove = useCallback(() => {
+    if (isClockRunning || onlineGame) return;
+    setTimeline(current => {
+      const next = redo(current);
+      return opponent.vsComputer &&
+        getCurrentState(next).currentPlayer === opponent.computerColor &&
+        canRedo(next)
+        ? redo(next)
+        : next;
+    });
+    setReviewNodeId(null);
+    setPremove(null);
+    clearSelection();
+  }, [clearSelection, opponent, isClockRunning, onlineGame]);
+
+  // Selecting the live position means following the game again
+  const handleSelectNode = useCallback((nodeId: number) => {
+    setReviewNodeId(nodeId === liveNodeId ? null : nodeId);
+    clearSelection();
+  }, [liveNodeId, clearSelection]);
+
+  // Continue the game from the reviewed position. The moves after it stay in
+  // the tree, and undo still leads back to the game as it was.
+  const handleResumeFromReview = useCallback(() => {
+    if (shownNodeId === null || onlineGame) return;
+
+    const resumed = syncedTree.nodes[shownNodeId].gameState;
+    setTimeline(current => pushState(current, resumed));
+    setClock(current => {
+      if (!current) return current;
+      // Before the first move the clock waits for it, as in a new game
+      return isGameOver(resumed) || resumed.moveHistory.length === 0
+        ? stopClock(current, Date.now())
+        : startClock(current, resumed.currentPlayer, Date.now());
+    });
+    setReviewNodeId(null);
+    clearSelection();
+  }, [shownNodeId, onlineGame, syncedTree, clearSelection]);
+
+  const handlePromoteVariation = useCallback((nodeId: number) => {
+    setMoveTree(promoteVariation(syncedTree, nodeId));
+  }, [syncedTree]);
+
+  const handleDemoteVariation = useCallback((nodeId: number) => {
+    setMoveTree(demoteVariation(syncedTree, nodeId));
+  }, [syncedTree]);
+
+  // The moves of the game itself cannot be deleted, only lines off it
+  const handleDeleteVariation = useCallback((nodeId: number) => {
+    if (isOnPath(syncedTree, nodeId, liveNodeId)) return;
+
+    if (isOnPath(syncedTree, nodeId, selectedNodeId)) {
+      const parentId = syncedTree.nodes[nodeId].parentId!;
+      setReviewNodeId(parentId === liveNodeId ? null : parentId);
+    }
+    setMoveTree(deleteVariation(syncedTree, nodeId));
+    clearSelection();
+  }, [syncedTree, liveNodeId, selectedNodeId, clearSelection]);
+
+  const handleCommentChange = useCallback((nodeId: number, comment: string) => {
+    setMoveTree(setComment(syncedTree, nodeId, comment));
+  }, [syncedTree]);
+
+  // Connect to the online game and mirror its state into the timeline
+  useEffect(() => {
+    if (!onlineGame) return;
+
+    resetGame(createInitialGameState());
+    setClock(null);
+    setIsConnected(false);
+    setOnlineError(null);
+
+    const session = createOnlineSession({
+      ...onlineGame,
+      openChannel: openSupabaseChannel,
+      repository: supabaseGameRepository,
+      onStateChange: commitMove,
+      onConnectionChange: setIsConnected,
+      onError: setOnlineError
+    });
+    sessionRef.current = session;
+
+    return () => {
+      session.close();
+      sessionRef.current = null;
+    };
+  }, [onlineGame, commitMove, resetGame]);
+
+  const handleCreateOnlineGame = useCallback((color: PieceColor) => {
+    setIsCreatingGame(true);
+    setOnlineError(null);
+    supabaseGameRepository.create(createInitialGameState())
+      .then(record => {
+        const game = { gameId: record.id, color };
+        // Keep our own side in the address bar so a reload rejoins the game
+        window.history.replaceState(null, '', getInviteLink(window.location.href, game.gameId, color));
+        setOnlineGame(game);
+      })
+      .catch(error => setOnlineError(toRepositoryError(error).message))
+      .finally(() => setIsCreatingGame(false));
+  }, []);
+
+  const handleLeaveOnlineGame = useCallback(() => {
+    window.history.replaceState(null, '', window.location.pathname);
+    setOnlineGame(null);
+    setOnlineError(null);
+    startNewGame(timeControlId);
+  }, [startNewGame, timeControlId]);
+
+  // Pick up the game that was in progress before the page was reloaded. Only on
+  // mount: later games start fresh.
+  useEffect(() => {
+    if (onlineGame) {
+      setIsRestored(true);
+      return;
+    }
+
+    let cancelled = false;
+    autosaver.restore().then(restored => {
+      if (cancelled) return;
+      if (restored) resetGame(restored);
+      setIsRestored(true);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [autosaver, resetGame]);
+
+  // Keep moves of the game in the tree, so lines that were undone or abandoned
+  // stay around as variations
+  useEffect(() => {
+    if (syncedTree !== moveTree) setMoveTree(syncedTree);
+  }, [syncedTree, moveTree]);
+
+  // Online games are kept by the server, local ones are autosaved after every change
+  useEffect(() => {
+    if (!isRestored || onlineGame) return;
+    setSaveError(null);
+    autosaver.save(gameState);
+  }, [gameState, isRestored, onlineGame, autosaver]);
+
+  // Saves wait for a pause in play, so write the last one before the page goes away
+  useEffect(() => {
+    const flush = () => {
+      autosaver.flush();
+    };
+    window.addEventListener('pagehide', flush);
+    return () => {
+      window.removeEventListener('pagehide', flush);
+      flush();
+    };
+  }, [autosaver]);
+
+  // Tick the running clock and end the game when a flag falls
+  useEffect(() => {
+    if (!isClockRunning) return;
+
+    const interval = window.setInterval(() => {
+      const tick = Date.now();
+      setNow(tick);
+      if (clock && getFlaggedColor(clock, tick)) {
+        commitMove(applyFlagFall(gameState));
+      }
+    }, 100);
+
+    return () => window.clearInterval(interval);
+  }, [isClockRunning, clock, gameState, commitMove]);
+
+  // Play the premove once it is our turn, if it is still legal then
+  useEffect(() => {
+    if (!premove || isPremoveTurn) return;
+
+    setPremove(null);
+    if (shownNodeId === null && gameState.currentPlayer === playerColor && !isGameOver(gameState)) {
+      playMove(premove.from, premove.to);
+    }
+  }, [premove, isPremoveTurn, shownNodeId, gameState, playerColor, playMove]);
+
+  // Let the computer reply whenever it is on move, from the opening book while it can
+  useEffect(() => {
+    if (!isComputerTurn || isGameOver(gameState)) return;
+
+    let cancelled = false;
+    let settled = false;
+    let reply: Promise<Move | null>;
+    let stopReply: () => void;
+
+    const bookMove = opponent.useOpeningBook ? pickBookMove(getDefaultOpeningBook(), gameState) : null;
+    if (bookMove) {
+      let timeout = 0;
+      reply = new Promise(resolve => {
+        timeout = window.setTimeout(() => resolve(bookMove), BOOK_MOVE_DELAY_MS);
+      });
+      stopReply = () => window.clearTimeout(timeout);
     } else {
-      // This is a simplified implementation
-      // A proper implementation would replay all moves from the beginning
-      console.log('Undo not fully implemented - starting new game');
-      handleNewGame();
+      if (!engineRef.current) {
+        engineRef.current = createEngineClient();
+      }
+      const engine = engineRef.current;
+      reply = engine.search(gameState, ENGINE_LEVELS[opponent.levelIndex].options).then(result => result.move);
+      stopReply = () => engine.cancel();
     }
-  }, [gameState.moveHistory, handleNewGame]);
+
+    setIsThinking(true);
+    reply
+      .then(move => {
+        if (cancelled || !move) return;
+        if (clock && getFlaggedColor(clock, Date.now())) return;
+        const { from, to, promotionPiece } = move;
+        const newGameState = makeMove(gameState, from, to, promotionPiece);
+        if (newGameState) {
+          commitMove(newGameState);
+        }
+      })
+      .catch(() => {
+        // Cancelled searches are expected when the position changes mid-search
+      })
+      .finally(() => {
+        settled = true;
+        if (!cancelled) setIsThinking(false);
+      });
+
+    return () => {
+      cancelled = true;
+      if (!settled) stopReply();
+      setIsThinking(false);
+    };
+  }, [gameState, isComputerTurn, opponent.levelIndex, opponent.useOpeningBook, commitMove, clock]);
+
+  useEffect(() => {
+    return () => engineRef.current?.cancel();
+  }, []);
+
+  // Connect to the chosen engine; the built-in one only starts its worker when first used
+  useEffect(() => {
+    const created = analysisConfig.engine === 'bridge'
+      ? createUciEvaluator(createUciEngine(openHttpUciTransport(analysisConfig.bridgeUrl)))
+      : createBuiltInEvaluator();
+    setEvaluator(created);
+    return () => created.dispose();
+  }, [analysisConfig.engine, analysisConfig.bridgeUrl]);
+
+  // Analyse the position on the board, starting over whenever it changes
+  useEffect(() => {
+    if (!isActive || !evaluator || !analysisConfig.isEnabled || isReviewRequested || isGameOver(displayedState)) return;
+
+    let cancelled = false;
+    const report = (lines: AnalysisLine[], isRunning: boolean, error: string | null = null) => {
+      if (!cancelled) setAnalysis({ gameState: displayedState, lines, isRunning, error });
+    };
+
+    report([], true);
+    evaluator.analyse(displayedState, { multiPv: analysisConfig.multiPv }, lines => report(lines, true))
+      .then(lines => report(lines, false))
+      .catch(error => report([], false, error instanceof Error ? error.message : String(error)));
+
+    return () => {
+      cancelled = true;
+      evaluator.stop();
+      // Stopping keeps the lines found so far on show
+      setAnalysis(current => current && { ...current, isRunning: false });
+    };
+  }, [isActive, evaluator, analysisConfig.isEnabled, analysisConfig.multiPv, isReviewRequested, displayedState]);
+
+  // Review the finished game, then write the verdicts into the move list
+  useEffect(() => {
+    if (!evaluator || !isReviewRequested) return;
+
+    let cancelled = false;
+    setReviewError(null);
+    reviewGame(gameState, evaluator, {
+      onProgress: (evaluated, total) => {
+        if (!cancelled) setReviewProgress({ evaluated, total });
+      },
+      isCancelled: () => cancelled
+    })
+      .then(review => {
+        if (cancelled || !review) return;
+        setGameReview({ gameState, review });
+        setMoveTree(current => {
+          const { tree, nodeId } = addGameMoves(current, gameState);
+          return annotateMoveTree(tree, nodeId, review);
+        });
+      })
+      .catch(error => {
+        if (!cancelled) setReviewError(error instanceof Error ? error.message : String(error));
+      })
+      .finally(() => {
+        if (!cancelled) setIsReviewRequested(false);
+      });
+
+    return () => {
+      cancelled = true;
+      evaluator.stop();
+      setReviewProgress(null);
+    };
+  }, [evaluator, isReviewRequested, gameState]);
+
+  // Sound for each move played in the game, by either side. Jumps of more than
+  // one move (undo, loading a game) stay silent.
+  const playedCountRef = useRef(gameState.moveHistory.length);
+  useEffect(() => {
+    const count = gameState.moveHistory.length;
+    if (settings.soundEnabled && count === playedCountRef.current + 1) {
+      playSound(getMoveSound(gameState.moveHistory[count - 1], isGameOver(gameState)));
+    }
+    playedCountRef.current = count;
+  }, [gameState, settings.soundEnabled]);
+
+  // Keyboard shortcuts: Ctrl/Cmd+Z to undo, Ctrl/Cmd+Y or Ctrl/Cmd+Shift+Z to redo,
+  // arrow keys and Home/End to step through the game
+  useEffect(() => {
+    if (!isActive) return;
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      const target = event.target as HTMLElement | null;
+      if (target && ['INPUT', 'SELECT', 'TEXTAREA'].includes(target.tagName)) return;
+
+      if (event.ctrlKey || event.metaKey) {
+        const key = event.key.toLowerCase();
+        if (key === 'z' && !event.shiftKey) {
+          event.preventDefault();
+          handleUndoMove();
+        } else if (key === 'y' || (key === 'z' && event.shiftKey)) {
+          event.preventDefault();
+          handleRedoMove();
+        }
+        return;
+      }
+      if (event.altKey) return;
+
+      const selectedNode = syncedTree.nodes[selectedNodeId];
+      const reviewKeys: Record<string, number | null> = {
+        ArrowLeft: selectedNode.parentId,
+        ArrowRight: selectedNode.children.length > 0 ? selectedNode.children[0] : null,
+        Home: syncedTree.rootId,
+        End: liveNodeId
+      };
+      if (event.key in reviewKeys) {
+        event.preventDefault();
+        const nodeId = reviewKeys[event.key];
+        if (nodeId !== null) handleSelectNode(nodeId);
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [isActive, handleUndoMove, handleRedoMove, handleSelectNode, syncedTree, selectedNodeId, liveNodeId]);
+
+  const handleClaimDraw = useCallback(() => {
+    if (sessionRef.current) {
+      sessionRef.current.claimDraw();
+      return;
+    }
+
+    const newGameState = claimDraw(gameState);
+    if (newGameState) {
+      commitMove(newGameState);
+    }
+  }, [gameState, commitMove]);
+
+  const handleStartReview = useCallback(() => {
+    setIsReviewRequested(true);
+  }, []);
+
+  const handleCancelReview = useCallback(() => {
+    setIsReviewRequested(false);
+  }, []);
 
   const handleSettings = useCallback(() => {
-    // Placeholder for settings functionality
-    alert('Settings functionality coming soon!');
+    setIsSettingsOpen(true);
+  }, []);
+
+  const handleCloseSettings = useCallback(() => {
+    setIsSettingsOpen(false);
   }, []);
 
   return (
-    <div className="chess-game">
+    <div className="chess-game" hidden={!isActive}>
       <div className="game-container">
         <div className="board-container">
           <ChessBoard
-            gameState={gameState}
+            gameState={displayedState}
             selectedSquare={selectedSquare}
             validMoves={validMoves}
             onSquareClick={handleSquareClick}
+            promotionSquare={pendingPromotion?.to ?? null}
+            onPromotionSelect={handlePromotionSelect}
+            onPromotionCancel={handlePromotionCancel}
+            premove={premove}
+            canDragFrom={canDragFrom}
+            onDragStart={handleDragStart}
+            onDrop={handleDrop}
+            orientation={boardOrientation}
+            arrows={analysisArrows}
           />
+          <BoardControls
+            orientation={orientation}
+            shownColor={boardOrientation}
+            onOrientationChange={setOrientation}
+          />
+          <MoveInput onSubmitMove={handleTypedMove} />
+          {/* Read out by screen readers whenever the position on the board changes */}
+          <div className="sr-only" role="status" aria-live="polite">
+            {getMoveAnnouncement(displayedState)}
+          </div>
         </div>
         
         <div className="info-container">
@@ -103,10 +827,83 @@ const ChessGame: React.FC = () => {
             gameState={gameState}
             onNewGame={handleNewGame}
             onUndoMove={handleUndoMove}
+            onRedoMove={handleRedoMove}
+            canUndo={canUndo(timeline) && !isClockRunning && !onlineGame}
+            canRedo={canRedo(timeline) && !isClockRunning && !onlineGame}
+            onClaimDraw={handleClaimDraw}
             onSettings={handleSettings}
+            onImportPGN={handleImportPGN}
+            onExportPGN={handleExportPGN}
+            canImportPGN={!onlineGame}
+            moveTree={syncedTree}
+            opening={opening}
+            selectedNodeId={selectedNodeId}
+            liveNodeId={liveNodeId}
+            onSelectNode={handleSelectNode}
+            onPromoteVariation={handlePromoteVariation}
+            onDemoteVariation={handleDemoteVariation}
+            onDeleteVariation={handleDeleteVariation}
+            onCommentChange={handleCommentChange}
+            onResumeFromReview={handleResumeFromReview}
+            canResumeFromReview={!onlineGame}
+          />
+          {isGameOver(gameState) && gameState.moveHistory.length > 0 && (
+            <GameReviewPanel
+              review={shownReview}
+              progress={reviewProgress}
+              error={reviewError}
+              pgn={reviewPgn}
+              onStartReview={handleStartReview}
+              onCancelReview={handleCancelReview}
+            />
+          )}
+          <AnalysisPanel
+            config={analysisConfig}
+            gameState={displayedState}
+            lines={shownAnalysis?.lines ?? []}
+            isRunning={shownAnalysis?.isRunning ?? false}
+            error={shownAnalysis?.error ?? null}
+            onChange={setAnalysisConfig}
           />
+          <OnlinePlay
+            game={onlineGame}
+            inviteLink={onlineGame && getInviteLink(
+              window.location.href,
+              onlineGame.gameId,
+              onlineGame.color === 'white' ? 'black' : 'white'
+            )}
+            isConnected={isConnected}
+            isCreating={isCreatingGame}
+            error={onlineError}
+            onCreateGame={handleCreateOnlineGame}
+            onLeaveGame={handleLeaveOnlineGame}
+          />
+          {!onlineGame && (
+            <>
+              <ChessClock
+                clock={clock}
+                presetId={timeControlId}
+                now={now}
+                onPresetChange={handleTimeControlChange}
+              />
+              <OpponentSettings
+                config={opponent}
+                isThinking={isThinking}
+                onChange={setOpponent}
+              />
+              <VariantSettings
+                isChess960={isChess960}
+                chess960Index={chess960Index}
+                onVariantChange={handleVariantChange}
+                onChess960PositionSelect={handleChess960PositionSelect}
+              />
+            </>
+          )}
+          {saveError && <div className="autosave-error">{saveError}</div>}
         </div>
       </div>
+
+      {isSettingsOpen && <SettingsPanel onClose={handleCloseSettings} />}
     </div>
   );
 };
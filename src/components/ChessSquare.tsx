@@ -1,6 +1,15 @@
 import React from 'react';
 import { ChessPiece, Position } from '../types/chess';
-import { PIECE_SYMBOLS } from '../utils/chessLogic';
+import { describeSquare } from '../utils/announcements';
+import { useSettings } from '../settings/SettingsContext';
+import PieceGlyph from './PieceGlyph';
+
+// Slide the piece in from where it came from, measured in squares as displayed
+export interface MoveAnimation {
+  dx: number;
+  dy: number;
+  key: number; // Changes with every move, so the animation plays again
+}
 
 interface ChessSquareProps {
   piece: ChessPiece | null;
@@ -10,6 +19,14 @@ interface ChessSquareProps {
   isValidMove: boolean;
   isLastMove: boolean;
   isInCheck: boolean;
+  isPremove?: boolean;
+  isHint?: boolean;
+  isDraggable?: boolean;
+  isDragOrigin?: boolean;
+  isDragOver?: boolean;
+  isFlipped?: boolean; // Black at the bottom
+  moveAnimation?: MoveAnimation | null;
+  isFocusable?: boolean; // The one square reached by tabbing into the board
   onClick: (position: Position) => void;
 }
 
@@ -21,8 +38,18 @@ const ChessSquare: React.FC<ChessSquareProps> = ({
   isValidMove,
   isLastMove,
   isInCheck,
+  isPremove = false,
+  isHint = false,
+  isDraggable = false,
+  isDragOrigin = false,
+  isDragOver = false,
+  isFlipped = false,
+  moveAnimation = null,
+  isFocusable = false,
   onClick
 }) => {
+  const { settings } = useSettings();
+
   const handleClick = () => {
     onClick(position);
   };
@@ -52,6 +79,22 @@ const ChessSquare: React.FC<ChessSquareProps> = ({
       classes += ' in-check';
     }
     
+    if (isPremove) {
+      classes += ' premove';
+    }
+    
+    if (isHint) {
+      classes += ' hint';
+    }
+    
+    if (isDraggable) {
+      classes += ' draggable';
+    }
+    
+    if (isDragOver) {
+      classes += ' drag-over';
+    }
+    
     return classes;
   };
 
@@ -63,29 +106,40 @@ const ChessSquare: React.FC<ChessSquareProps> = ({
       className={getSquareClasses()}
       onClick={handleClick}
       data-position={`${files[position.col]}${ranks[position.row]}`}
+      role="gridcell"
+      tabIndex={isFocusable ? 0 : -1}
+      aria-selected={isSelected}
+      aria-label={describeSquare(position, piece) + (isValidMove ? ', legal move' : '')}
     >
       {piece && (
-        <div className="chess-piece">
-          {PIECE_SYMBOLS[piece.color][piece.type]}
+        <div
+          key={moveAnimation?.key}
+          className={['chess-piece', isDragOrigin && 'drag-origin', moveAnimation && 'animated'].filter(Boolean).join(' ')}
+          style={moveAnimation ? {
+            '--move-dx': moveAnimation.dx,
+            '--move-dy': moveAnimation.dy
+          } as React.CSSProperties : undefined}
+        >
+          <PieceGlyph piece={piece} />
         </div>
       )}
       
-      {isValidMove && !piece && (
+      {settings.showLegalMoves && isValidMove && !piece && (
         <div className="move-indicator" />
       )}
       
-      {isValidMove && piece && (
+      {settings.showLegalMoves && isValidMove && piece && (
         <div className="capture-indicator" />
       )}
       
-      {/* Coordinate labels */}
-      {position.row === 7 && (
+      {/* Coordinate labels, along the bottom and left edges as displayed */}
+      {settings.showCoordinates && position.row === (isFlipped ? 0 : 7) && (
         <div className="file-label">
           {files[position.col]}
         </div>
       )}
       
-      {position.col === 0 && (
+      {settings.showCoordinates && position.col === (isFlipped ? 7 : 0) && (
         <div className="rank-label">
           {ranks[position.row]}
         </div>
@@ -0,0 +1,28 @@
+import React from 'react';
+import { EvaluationScore, formatScore, getWhiteWinPercent } from '../engine/analysis';
+
+interface EvaluationBarProps {
+  score: EvaluationScore | null; // null before the first result comes in
+}
+
+// White's share of the bar grows with White's winning chances
+const EvaluationBar: React.FC<EvaluationBarProps> = ({ score }) => {
+  const whitePercent = score ? getWhiteWinPercent(score) : 50;
+
+  return (
+    <div
+      className="evaluation-bar"
+      role="meter"
+      aria-label="Evaluation"
+      aria-valuemin={0}
+      aria-valuemax={100}
+      aria-valuenow={Math.round(whitePercent)}
+      aria-valuetext={score ? formatScore(score) : 'No evaluation yet'}
+    >
+      <div className="evaluation-bar-white" style={{ width: `${whitePercent}%` }} />
+      <span className="evaluation-bar-score">{score ? formatScore(score) : '–'}</span>
+    </div>
+  );
+};
+
+export default EvaluationBar;
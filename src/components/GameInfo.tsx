@@ -1,22 +1,94 @@
-import React from 'react';
+import React, { useState } from 'react';
 import { GameState, PieceColor } from '../types/chess';
-import { PIECE_SYMBOLS } from '../utils/chessLogic';
-import { Crown, Clock, RotateCcw, Settings } from 'lucide-react';
+import { PIECE_SYMBOLS, getClaimableDrawReason } from '../utils/chessLogic';
+import { isOnPath, MoveTree } from '../utils/moveTree';
+import { DRAW_REASON_LABELS } from '../utils/announcements';
+import { Opening } from '../openings/openingBook';
+import MoveTreeView from './MoveTreeView';
+import {
+  ChevronLeft,
+  ChevronRight,
+  ChevronsLeft,
+  ChevronsRight,
+  Clock,
+  Crown,
+  Download,
+  ArrowDown,
+  ArrowUp,
+  GitBranch,
+  RotateCcw,
+  RotateCw,
+  Settings,
+  Trash2,
+  Upload
+} from 'lucide-react';
 
 interface GameInfoProps {
   gameState: GameState;
   onNewGame: () => void;
   onUndoMove: () => void;
+  onRedoMove: () => void;
+  canUndo: boolean;
+  canRedo: boolean;
+  onClaimDraw: () => void;
   onSettings: () => void;
+  onImportPGN: (text: string) => string | null; // Returns why the game could not be loaded
+  onExportPGN: () => void;
+  canImportPGN: boolean;
+  moveTree: MoveTree;
+  opening: Opening | null; // Of the position on the board
+  selectedNodeId: number; // The position on the board
+  liveNodeId: number; // The position of the game being played
+  onSelectNode: (nodeId: number) => void;
+  onPromoteVariation: (nodeId: number) => void;
+  onDemoteVariation: (nodeId: number) => void;
+  onDeleteVariation: (nodeId: number) => void;
+  onCommentChange: (nodeId: number, comment: string) => void;
+  onResumeFromReview: () => void;
+  canResumeFromReview: boolean;
 }
 
 const GameInfo: React.FC<GameInfoProps> = ({
   gameState,
   onNewGame,
   onUndoMove,
-  onSettings
+  onRedoMove,
+  canUndo,
+  canRedo,
+  onClaimDraw,
+  onSettings,
+  onImportPGN,
+  onExportPGN,
+  canImportPGN,
+  moveTree,
+  opening,
+  selectedNodeId,
+  liveNodeId,
+  onSelectNode,
+  onPromoteVariation,
+  onDemoteVariation,
+  onDeleteVariation,
+  onCommentChange,
+  onResumeFromReview,
+  canResumeFromReview
 }) => {
-  const { currentPlayer, status, moveHistory, capturedPieces } = gameState;
+  const { currentPlayer, status, capturedPieces, drawReason } = gameState;
+  const claimableDrawReason = getClaimableDrawReason(gameState);
+  const selectedNode = moveTree.nodes[selectedNodeId];
+  const siblings = selectedNode.parentId === null ? [] : moveTree.nodes[selectedNode.parentId].children;
+  const siblingIndex = siblings.indexOf(selectedNodeId);
+  const [pgnError, setPgnError] = useState<string | null>(null);
+
+  const handlePgnFile = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    file.text().then(text => {
+      const error = onImportPGN(text);
+      setPgnError(error && `Could not import ${file.name}: ${error}`);
+    }, () => setPgnError(`Could not read ${file.name}`));
+  };
 
   const getStatusMessage = () => {
     switch (status) {
@@ -24,10 +96,14 @@ const GameInfo: React.FC<GameInfoProps> = ({
         return `${currentPlayer === 'white' ? 'White' : 'Black'} is in check!`;
       case 'checkmate':
         return `Checkmate! ${currentPlayer === 'white' ? 'Black' : 'White'} wins!`;
+      case 'timeout':
+        return `${currentPlayer === 'white' ? 'White' : 'Black'} ran out of time. ${currentPlayer === 'white' ? 'Black' : 'White'} wins!`;
       case 'stalemate':
         return 'Stalemate! The game is a draw.';
       case 'draw':
-        return 'The game is a draw.';
+        return drawReason
+          ? `Draw by ${DRAW_REASON_LABELS[drawReason]}.`
+          : 'The game is a draw.';
       default:
         return `${currentPlayer === 'white' ? 'White' : 'Black'} to move`;
     }
@@ -38,6 +114,7 @@ const GameInfo: React.FC<GameInfoProps> = ({
       case 'check':
         return 'text-yellow-600';
       case 'checkmate':
+      case 'timeout':
         return 'text-red-600';
       case 'stalemate':
       case 'draw':
@@ -47,6 +124,13 @@ const GameInfo: React.FC<GameInfoProps> = ({
     }
   };
 
+  const getReviewLabel = () => {
+    if (!selectedNode.move) return 'Reviewing the start position';
+    const before = moveTree.nodes[selectedNode.parentId!].gameState;
+    const moveNumber = `${before.fullMoveNumber}${before.currentPlayer === 'white' ? '.' : '...'}`;
+    return `Reviewing after ${moveNumber} ${selectedNode.move.notation}`;
+  };
+
   const renderCapturedPieces = (color: PieceColor) => {
     const pieces = capturedPieces[color];
     if (pieces.length === 0) return <div className="text-gray-400 text-sm">None</div>;
@@ -62,23 +146,6 @@ const GameInfo: React.FC<GameInfoProps> = ({
     );
   };
 
-  const renderMoveHistory = () => {
-    if (moveHistory.length === 0) {
-      return <div className="text-gray-400 text-sm">No moves yet</div>;
-    }
-
-    return (
-      <div className="move-history">
-        {moveHistory.map((move, index) => (
-          <div key={index} className="move-entry">
-            <span className="move-number">{Math.floor(index / 2) + 1}.</span>
-            <span className="move-notation">{move.notation}</span>
-          </div>
-        ))}
-      </div>
-    );
-  };
-
   return (
     <div className="game-info">
       {/* Current Player & Status */}
@@ -110,12 +177,45 @@ const GameInfo: React.FC<GameInfoProps> = ({
         <button
           onClick={onUndoMove}
           className="control-button secondary"
-          disabled={moveHistory.length === 0}
-          title="Undo Last Move"
+          disabled={!canUndo}
+          title="Undo Last Move (Ctrl+Z)"
         >
           <RotateCcw className="w-4 h-4" />
           Undo
         </button>
+        <button
+          onClick={onRedoMove}
+          className="control-button secondary"
+          disabled={!canRedo}
+          title="Redo Move (Ctrl+Y)"
+        >
+          <RotateCw className="w-4 h-4" />
+          Redo
+        </button>
+        {claimableDrawReason && (
+          <button
+            onClick={onClaimDraw}
+            className="control-button secondary"
+            title={`Claim a draw by ${DRAW_REASON_LABELS[claimableDrawReason]}`}
+          >
+            Claim Draw
+          </button>
+        )}
+        {canImportPGN && (
+          <label className="control-button secondary" title="Load a game from a PGN file">
+            <Upload className="w-4 h-4" />
+            Import PGN
+            <input className="sr-only" type="file" accept=".pgn,application/x-chess-pgn,text/plain" onChange={handlePgnFile} />
+          </label>
+        )}
+        <button
+          onClick={onExportPGN}
+          className="control-button secondary"
+          title="Download the game, with its variations and comments, as PGN"
+        >
+          <Download className="w-4 h-4" />
+          Export PGN
+        </button>
         <button
           onClick={onSettings}
           className="control-button secondary"
@@ -123,6 +223,7 @@ const GameInfo: React.FC<GameInfoProps> = ({
         >
           <Settings className="w-4 h-4" />
         </button>
+        {pgnError && <div className="pgn-error">{pgnError}</div>}
       </div>
 
       {/* Captured Pieces */}
@@ -146,9 +247,99 @@ const GameInfo: React.FC<GameInfoProps> = ({
           <Clock className="w-4 h-4" />
           <h3 className="section-title">Move History</h3>
         </div>
+        {opening && (
+          <div className="opening-name">
+            <span className="opening-eco">{opening.eco}</span>
+            {opening.name}
+          </div>
+        )}
         <div className="move-history-container">
-          {renderMoveHistory()}
+          <MoveTreeView tree={moveTree} selectedNodeId={selectedNodeId} onSelectNode={onSelectNode} />
         </div>
+        <div className="review-controls">
+          <button
+            onClick={() => onSelectNode(moveTree.rootId)}
+            className="review-button"
+            disabled={selectedNode.parentId === null}
+            title="Jump to Start (Home)"
+          >
+            <ChevronsLeft className="w-4 h-4" />
+          </button>
+          <button
+            onClick={() => onSelectNode(selectedNode.parentId!)}
+            className="review-button"
+            disabled={selectedNode.parentId === null}
+            title="Previous Move (Left Arrow)"
+          >
+            <ChevronLeft className="w-4 h-4" />
+          </button>
+          <button
+            onClick={() => onSelectNode(selectedNode.children[0])}
+            className="review-button"
+            disabled={selectedNode.children.length === 0}
+            title="Next Move (Right Arrow)"
+          >
+            <ChevronRight className="w-4 h-4" />
+          </button>
+          <button
+            onClick={() => onSelectNode(liveNodeId)}
+            className="review-button"
+            disabled={selectedNodeId === liveNodeId}
+            title="Back to the Game (End)"
+          >
+            <ChevronsRight className="w-4 h-4" />
+          </button>
+        </div>
+        {selectedNode.move && (
+          <div className="variation-controls">
+            <button
+              onClick={() => onPromoteVariation(selectedNodeId)}
+              className="review-button"
+              disabled={siblingIndex <= 0}
+              title="Promote Variation"
+            >
+              <ArrowUp className="w-4 h-4" />
+            </button>
+            <button
+              onClick={() => onDemoteVariation(selectedNodeId)}
+              className="review-button"
+              disabled={siblingIndex === siblings.length - 1}
+              title="Demote Variation"
+            >
+              <ArrowDown className="w-4 h-4" />
+            </button>
+            <button
+              onClick={() => onDeleteVariation(selectedNodeId)}
+              className="review-button"
+              disabled={isOnPath(moveTree, selectedNodeId, liveNodeId)}
+              title="Delete Variation"
+            >
+              <Trash2 className="w-4 h-4" />
+            </button>
+            <textarea
+              className="move-comment-input"
+              placeholder="Comment on this move"
+              value={selectedNode.comment}
+              onChange={event => onCommentChange(selectedNodeId, event.target.value)}
+              rows={2}
+            />
+          </div>
+        )}
+        {selectedNodeId !== liveNodeId && (
+          <div className="review-banner">
+            <span>{getReviewLabel()}</span>
+            {canResumeFromReview && (
+              <button
+                onClick={onResumeFromReview}
+                className="control-button secondary"
+                title="Continue the game from this position"
+              >
+                <GitBranch className="w-4 h-4" />
+                Resume Here
+              </button>
+            )}
+          </div>
+        )}
       </div>
     </div>
   );
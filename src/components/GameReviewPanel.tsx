@@ -0,0 +1,98 @@
+import React, { useState } from 'react';
+import { PieceColor } from '../types/chess';
+import { CLASSIFICATION_LABELS, GameReview, MoveClassification } from '../engine/gameReview';
+import { Copy, Target, X } from 'lucide-react';
+
+interface GameReviewPanelProps {
+  review: GameReview | null;
+  progress: { evaluated: number; total: number } | null; // Set while the review runs
+  error: string | null;
+  pgn: string | null; // The game with the review's annotations
+  onStartReview: () => void;
+  onCancelReview: () => void;
+}
+
+// The labels worth counting, worst last
+const COUNTED_CLASSIFICATIONS: MoveClassification[] = ['inaccuracy', 'mistake', 'blunder'];
+
+const GameReviewPanel: React.FC<GameReviewPanelProps> = ({
+  review,
+  progress,
+  error,
+  pgn,
+  onStartReview,
+  onCancelReview
+}) => {
+  const [copied, setCopied] = useState(false);
+
+  const handleCopy = () => {
+    if (!pgn) return;
+    navigator.clipboard.writeText(pgn).then(() => setCopied(true), () => setCopied(false));
+  };
+
+  const countMoves = (reviewed: GameReview, color: PieceColor, classification: MoveClassification) => {
+    return reviewed.moves.filter(move => move.move.piece.color === color && move.classification === classification).length;
+  };
+
+  const formatAccuracy = (accuracy: number | null) => accuracy === null ? '–' : `${accuracy.toFixed(1)}%`;
+
+  return (
+    <div className="game-review">
+      <div className="flex items-center gap-2 mb-2">
+        <Target className="w-4 h-4" />
+        <h3 className="section-title">Game Review</h3>
+      </div>
+
+      {progress ? (
+        <div className="review-progress">
+          <progress value={progress.evaluated} max={progress.total} />
+          <span>Evaluating position {Math.min(progress.evaluated + 1, progress.total)} of {progress.total}</span>
+          <button className="control-button secondary" onClick={onCancelReview} title="Cancel review">
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+      ) : !review && (
+        <button className="control-button primary" onClick={onStartReview}>
+          Review Game
+        </button>
+      )}
+
+      {error && <div className="analysis-error">{error}</div>}
+
+      {review && !progress && (
+        <>
+          <table className="review-summary">
+            <thead>
+              <tr>
+                <th />
+                <th>White</th>
+                <th>Black</th>
+              </tr>
+            </thead>
+            <tbody>
+              <tr>
+                <th>Accuracy</th>
+                <td>{formatAccuracy(review.accuracy.white)}</td>
+                <td>{formatAccuracy(review.accuracy.black)}</td>
+              </tr>
+              {COUNTED_CLASSIFICATIONS.map(classification => (
+                <tr key={classification} className={`review-${classification}`}>
+                  <th>{CLASSIFICATION_LABELS[classification]}s</th>
+                  <td>{countMoves(review, 'white', classification)}</td>
+                  <td>{countMoves(review, 'black', classification)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+
+          <button className="control-button secondary" onClick={handleCopy} disabled={!pgn} title="Copy the annotated game as PGN">
+            <Copy className="w-4 h-4" />
+            {copied ? 'Copied' : 'Copy PGN'}
+          </button>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default GameReviewPanel;
@@ -0,0 +1,44 @@
+import React, { useState } from 'react';
+import { Keyboard } from 'lucide-react';
+
+interface MoveInputProps {
+  onSubmitMove: (text: string) => string | null; // Returns an error message, or null if the move was played
+}
+
+// Play by typing moves, in SAN ("Nf3") or UCI ("g1f3") notation
+const MoveInput: React.FC<MoveInputProps> = ({ onSubmitMove }) => {
+  const [text, setText] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!text.trim()) return;
+
+    const moveError = onSubmitMove(text.trim());
+    setError(moveError);
+    if (!moveError) setText('');
+  };
+
+  return (
+    <form className="move-input" onSubmit={handleSubmit}>
+      <Keyboard className="w-4 h-4" aria-hidden="true" />
+      <input
+        type="text"
+        value={text}
+        onChange={event => setText(event.target.value)}
+        placeholder="Type a move, e.g. Nf3 or g1f3"
+        aria-label="Type a move"
+        aria-invalid={!!error}
+        aria-describedby={error ? 'move-input-error' : undefined}
+        autoComplete="off"
+        spellCheck={false}
+      />
+      <button type="submit" className="control-button secondary">Play</button>
+      {error && (
+        <div id="move-input-error" className="move-input-error" role="alert">{error}</div>
+      )}
+    </form>
+  );
+};
+
+export default MoveInput;
@@ -0,0 +1,84 @@
+import React from 'react';
+import { MoveNode, MoveTree } from '../utils/moveTree';
+
+// Symbols for the common move-quality NAGs; others are not shown
+const NAG_SYMBOLS: Record<number, string> = {
+  1: '!',
+  2: '?',
+  3: '!!',
+  4: '??',
+  5: '!?',
+  6: '?!'
+};
+
+interface MoveTreeViewProps {
+  tree: MoveTree;
+  selectedNodeId: number;
+  onSelectNode: (nodeId: number) => void;
+}
+
+const MoveTreeView: React.FC<MoveTreeViewProps> = ({
+  tree,
+  selectedNodeId,
+  onSelectNode
+}) => {
+  const renderMove = (node: MoveNode, showBlackNumber: boolean) => {
+    const before = tree.nodes[node.parentId!].gameState;
+    const isWhite = before.currentPlayer === 'white';
+    const moveNumber = isWhite || showBlackNumber || node.commentBefore ? `${before.fullMoveNumber}${isWhite ? '.' : '...'}` : null;
+    const nagSymbols = node.nags.map(nag => NAG_SYMBOLS[nag] ?? '').join('');
+
+    return (
+      <React.Fragment key={node.id}>
+        {node.commentBefore && <span className="move-comment">{node.commentBefore}</span>}
+        <button
+          className={`move-entry ${node.id === selectedNodeId ? 'current' : ''}`}
+          onClick={() => onSelectNode(node.id)}
+        >
+          {moveNumber && <span className="move-number">{moveNumber}</span>}
+          <span className="move-notation">{node.move!.notation}{nagSymbols}</span>
+        </button>
+        {node.comment && <span className="move-comment">{node.comment}</span>}
+      </React.Fragment>
+    );
+  };
+
+  // The line continuing from `parentId`, with each sideline in parentheses
+  // right after the move it replaces
+  const renderLine = (parentId: number, showBlackNumber: boolean): React.ReactNode[] => {
+    const items: React.ReactNode[] = [];
+
+    for (let node = tree.nodes[parentId]; node.children.length > 0; node = tree.nodes[node.children[0]]) {
+      const [mainId, ...sidelineIds] = node.children;
+      const main = tree.nodes[mainId];
+      items.push(renderMove(main, showBlackNumber));
+      showBlackNumber = !!main.comment;
+
+      for (const sidelineId of sidelineIds) {
+        items.push(
+          <span key={`variation-${sidelineId}`} className="variation">
+            {renderMove(tree.nodes[sidelineId], true)}
+            {renderLine(sidelineId, !!tree.nodes[sidelineId].comment)}
+          </span>
+        );
+        showBlackNumber = true;
+      }
+    }
+
+    return items;
+  };
+
+  const root = tree.nodes[tree.rootId];
+  if (root.children.length === 0) {
+    return <div className="text-gray-400 text-sm">No moves yet</div>;
+  }
+
+  return (
+    <div className="move-history">
+      {root.comment && <span className="move-comment">{root.comment}</span>}
+      {renderLine(tree.rootId, true)}
+    </div>
+  );
+};
+
+export default MoveTreeView;
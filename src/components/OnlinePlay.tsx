@@ -0,0 +1,84 @@
+import React, { useState } from 'react';
+import { PieceColor } from '../types/chess';
+import { OnlineGameInfo } from '../online/onlineSession';
+import { Copy, Globe, LogOut } from 'lucide-react';
+
+interface OnlinePlayProps {
+  game: OnlineGameInfo | null;
+  inviteLink: string | null;
+  isConnected: boolean;
+  isCreating: boolean;
+  error: string | null;
+  onCreateGame: (color: PieceColor) => void;
+  onLeaveGame: () => void;
+}
+
+const OnlinePlay: React.FC<OnlinePlayProps> = ({
+  game,
+  inviteLink,
+  isConnected,
+  isCreating,
+  error,
+  onCreateGame,
+  onLeaveGame
+}) => {
+  const [color, setColor] = useState<PieceColor>('white');
+  const [copied, setCopied] = useState(false);
+
+  const handleCopy = () => {
+    if (!inviteLink) return;
+    navigator.clipboard.writeText(inviteLink).then(() => setCopied(true), () => setCopied(false));
+  };
+
+  return (
+    <div className="connection-status">
+      <div className="flex items-center gap-2 mb-2">
+        <Globe className="w-4 h-4" />
+        <h3 className="section-title">Play Online</h3>
+      </div>
+
+      {game ? (
+        <>
+          <div className={`status-indicator ${isConnected ? 'online' : 'offline'}`}>
+            <span className="status-dot" />
+            {isConnected ? 'Connected' : 'Reconnecting…'} · You play {game.color}
+          </div>
+
+          {inviteLink && (
+            <div className="invite-link">
+              <input type="text" readOnly value={inviteLink} onFocus={event => event.target.select()} />
+              <button className="control-button secondary" onClick={handleCopy} title="Copy invite link">
+                <Copy className="w-4 h-4" />
+                {copied ? 'Copied' : 'Copy'}
+              </button>
+            </div>
+          )}
+
+          <button className="control-button secondary" onClick={onLeaveGame}>
+            <LogOut className="w-4 h-4" />
+            Leave Game
+          </button>
+        </>
+      ) : (
+        <>
+          <label className="setting-row">
+            You play
+            <select value={color} onChange={event => setColor(event.target.value as PieceColor)}>
+              <option value="white">White</option>
+              <option value="black">Black</option>
+            </select>
+          </label>
+
+          <button className="control-button primary" disabled={isCreating} onClick={() => onCreateGame(color)}>
+            <Globe className="w-4 h-4" />
+            {isCreating ? 'Creating…' : 'Create Online Game'}
+          </button>
+        </>
+      )}
+
+      {error && <div className="connection-error">{error}</div>}
+    </div>
+  );
+};
+
+export default OnlinePlay;
@@ -0,0 +1,86 @@
+import React from 'react';
+import { PieceColor } from '../types/chess';
+import { ENGINE_LEVELS } from '../engine/engineClient';
+import { Cpu } from 'lucide-react';
+
+export interface OpponentConfig {
+  vsComputer: boolean;
+  computerColor: PieceColor;
+  levelIndex: number;
+  useOpeningBook: boolean; // Play known opening moves instead of searching
+}
+
+interface OpponentSettingsProps {
+  config: OpponentConfig;
+  isThinking: boolean;
+  onChange: (config: OpponentConfig) => void;
+}
+
+const OpponentSettings: React.FC<OpponentSettingsProps> = ({
+  config,
+  isThinking,
+  onChange
+}) => {
+  return (
+    <div className="opponent-settings">
+      <div className="flex items-center gap-2 mb-2">
+        <Cpu className="w-4 h-4" />
+        <h3 className="section-title">Opponent</h3>
+      </div>
+
+      <label className="setting-row">
+        <input
+          type="checkbox"
+          checked={config.vsComputer}
+          onChange={event => onChange({ ...config, vsComputer: event.target.checked })}
+        />
+        Play vs computer
+      </label>
+
+      {config.vsComputer && (
+        <>
+          <label className="setting-row">
+            You play
+            <select
+              value={config.computerColor === 'white' ? 'black' : 'white'}
+              onChange={event => onChange({
+                ...config,
+                computerColor: event.target.value === 'white' ? 'black' : 'white'
+              })}
+            >
+              <option value="white">White</option>
+              <option value="black">Black</option>
+            </select>
+          </label>
+
+          <label className="setting-row">
+            Strength
+            <select
+              value={config.levelIndex}
+              onChange={event => onChange({ ...config, levelIndex: Number(event.target.value) })}
+            >
+              {ENGINE_LEVELS.map((level, index) => (
+                <option key={level.name} value={index}>{level.name}</option>
+              ))}
+            </select>
+          </label>
+
+          <label className="setting-row">
+            <input
+              type="checkbox"
+              checked={config.useOpeningBook}
+              onChange={event => onChange({ ...config, useOpeningBook: event.target.checked })}
+            />
+            Play book openings
+          </label>
+
+          {isThinking && (
+            <div className="engine-thinking">Computer is thinking…</div>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default OpponentSettings;
@@ -0,0 +1,40 @@
+import React from 'react';
+import { ChessPiece, PieceType } from '../types/chess';
+import { PIECE_SYMBOLS } from '../utils/chessLogic';
+import { PieceSetId } from '../settings/settings';
+import { useSettings } from '../settings/SettingsContext';
+
+// Silhouettes for the minimal set, drawn on a 45×45 grid
+const MINIMAL_PATHS: Record<PieceType, string> = {
+  pawn: 'M17 15.5a5.5 5.5 0 1 0 11 0a5.5 5.5 0 1 0 -11 0Z M18 21.5h9v2.5h-9Z ' +
+    'M18 24C16 28 15 32 14 35H31C30 32 29 28 27 24Z M11 35h23v4H11Z',
+  rook: 'M12 9h4v3h3V9h3v3h3V9h3v3h3V9h4v7H12Z M15 16h15v16H15Z M13 32h19v3H13Z M11 35h23v4H11Z',
+  knight: 'M14 35H32C32 26 30 17 24 11L22 7L20 11C15 13 11 19 10 24L13 27L17 23C18 27 16 31 14 35Z ' +
+    'M11 35h23v4H11Z',
+  bishop: 'M20 9a2.5 2.5 0 1 0 5 0a2.5 2.5 0 1 0 -5 0Z M22.5 12C15 18 15 26 17 30H28C30 26 30 18 22.5 12Z ' +
+    'M16 30h13v4H16Z M11 35h23v4H11Z',
+  queen: 'M10 14L14 30H31L35 14L28 24L22.5 10L17 24Z M13 30h19v5H13Z M11 35h23v4H11Z',
+  king: 'M21 5h3v4h4v3h-4v4h-3v-4h-4V9h4Z M13 30C9 22 14 16 22.5 20C31 16 36 22 32 30Z ' +
+    'M13 30h19v5H13Z M11 35h23v4H11Z'
+};
+
+interface PieceGlyphProps {
+  piece: ChessPiece;
+  pieceSet?: PieceSetId; // Defaults to the one chosen in the settings
+}
+
+const PieceGlyph: React.FC<PieceGlyphProps> = ({ piece, pieceSet }) => {
+  const { settings } = useSettings();
+
+  if ((pieceSet ?? settings.pieceSet) === 'unicode') {
+    return <>{PIECE_SYMBOLS[piece.color][piece.type]}</>;
+  }
+
+  return (
+    <svg className={`piece-svg ${piece.color}`} viewBox="0 0 45 45" aria-label={`${piece.color} ${piece.type}`}>
+      <path d={MINIMAL_PATHS[piece.type]} />
+    </svg>
+  );
+};
+
+export default PieceGlyph;
@@ -0,0 +1,59 @@
+import React from 'react';
+import { PieceColor, Position, PromotionPieceType } from '../types/chess';
+import { PROMOTION_PIECES } from '../utils/chessLogic';
+import PieceGlyph from './PieceGlyph';
+
+interface PromotionPickerProps {
+  color: PieceColor;
+  square: Position;
+  onSelect: (piece: PromotionPieceType) => void;
+  onCancel: () => void;
+  isFlipped?: boolean;
+}
+
+const PromotionPicker: React.FC<PromotionPickerProps> = ({
+  color,
+  square,
+  onSelect,
+  onCancel,
+  isFlipped = false
+}) => {
+  // The choices stack from the promotion square towards the centre of the board
+  const displayRow = isFlipped ? 7 - square.row : square.row;
+  const displayCol = isFlipped ? 7 - square.col : square.col;
+  const opensDownward = displayRow === 0;
+
+  return (
+    <div
+      className="promotion-overlay"
+      onClick={onCancel}
+      onKeyDown={event => {
+        if (event.key === 'Escape') onCancel();
+        // Keep the keys away from the board underneath
+        event.stopPropagation();
+      }}
+    >
+      <div
+        className={`promotion-picker ${opensDownward ? 'downward' : 'upward'}`}
+        style={{ left: `${displayCol * 12.5}%` }}
+        onClick={event => event.stopPropagation()}
+        role="group"
+        aria-label="Choose a promotion piece"
+      >
+        {PROMOTION_PIECES.map((piece, index) => (
+          <button
+            key={piece}
+            autoFocus={index === 0}
+            className="promotion-option"
+            onClick={() => onSelect(piece)}
+            title={`Promote to ${piece}`}
+          >
+            <PieceGlyph piece={{ type: piece, color }} />
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default PromotionPicker;
@@ -0,0 +1,293 @@
+import React, { useState, useCallback, useEffect } from 'react';
+import { Position, PromotionPieceType } from '../types/chess';
+import { getPossibleMoves, isPromotionMove, positionsEqual } from '../utils/chessLogic';
+import { useSettings } from '../settings/SettingsContext';
+import {
+  getMateInMoves,
+  isOpponentTurn,
+  parsePuzzles,
+  pickNextPuzzle,
+  playOpponentMove,
+  playSolverMove,
+  Puzzle,
+  PuzzleAttempt,
+  PuzzleImportError,
+  recordPuzzleResult,
+  revealSolution,
+  startPuzzle,
+  takeHint
+} from '../puzzles/puzzles';
+import { loadPuzzleProgress, PuzzleProgress, savePuzzleProgress } from '../puzzles/puzzleStorage';
+import { SAMPLE_PUZZLES_CSV } from '../puzzles/samplePuzzles';
+import ChessBoard from './ChessBoard';
+import { Eye, Lightbulb, SkipForward, Trophy, Upload } from 'lucide-react';
+
+// Pause before the opponent's reply, so the solver sees their own move land first
+const OPPONENT_MOVE_DELAY_MS = 600;
+
+type Feedback = { kind: 'correct' | 'incorrect' | 'solved' | 'revealed'; message: string };
+
+const PuzzleTrainer: React.FC = () => {
+  const { settings } = useSettings();
+  const [puzzles, setPuzzles] = useState<Puzzle[]>(() => parsePuzzles(SAMPLE_PUZZLES_CSV));
+  const [progress, setProgress] = useState<PuzzleProgress>(() => loadPuzzleProgress());
+  const [attempt, setAttempt] = useState<PuzzleAttempt | null>(null);
+  const [selectedSquare, setSelectedSquare] = useState<Position | null>(null);
+  const [validMoves, setValidMoves] = useState<Position[]>([]);
+  const [pendingPromotion, setPendingPromotion] = useState<{ from: Position; to: Position } | null>(null);
+  const [hintSquare, setHintSquare] = useState<Position | null>(null);
+  const [feedback, setFeedback] = useState<Feedback | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const clearSelection = useCallback(() => {
+    setSelectedSquare(null);
+    setValidMoves([]);
+    setPendingPromotion(null);
+  }, []);
+
+  const loadPuzzle = useCallback((puzzle: Puzzle | null) => {
+    clearSelection();
+    setHintSquare(null);
+    setFeedback(null);
+    if (!puzzle) {
+      setAttempt(null);
+      return;
+    }
+
+    try {
+      setAttempt(startPuzzle(puzzle));
+      setError(null);
+    } catch (loadError) {
+      setAttempt(null);
+      setError(loadError instanceof PuzzleImportError ? loadError.message : String(loadError));
+    }
+  }, [clearSelection]);
+
+  // Start with the puzzle that suits the player best
+  useEffect(() => {
+    if (!attempt && !error) loadPuzzle(pickNextPuzzle(puzzles, progress));
+  }, [attempt, error, puzzles, progress, loadPuzzle]);
+
+  useEffect(() => {
+    savePuzzleProgress(progress);
+  }, [progress]);
+
+  // The opponent's moves come from the puzzle and are played automatically
+  useEffect(() => {
+    if (!attempt || !isOpponentTurn(attempt)) return;
+
+    const timeout = window.setTimeout(() => setAttempt(playOpponentMove(attempt)), OPPONENT_MOVE_DELAY_MS);
+    return () => window.clearTimeout(timeout);
+  }, [attempt]);
+
+  const isSolverTurn = !!attempt && attempt.status === 'playing' && !isOpponentTurn(attempt);
+
+  const playMove = useCallback((from: Position, to: Position, promotionPiece?: PromotionPieceType) => {
+    if (!attempt) return;
+
+    const { attempt: next, result } = playSolverMove(attempt, from, to, promotionPiece);
+    clearSelection();
+    if (next === attempt && result === 'incorrect') return; // Not a legal move at all
+
+    setAttempt(next);
+    setHintSquare(null);
+    if (result === 'incorrect') {
+      setFeedback({ kind: 'incorrect', message: "That's not the move. Try again." });
+      setProgress(current => recordPuzzleResult(current, attempt.puzzle, false));
+    } else if (result === 'solved') {
+      setFeedback({ kind: 'solved', message: next.hasFailed ? 'Solved, with a slip or a hint along the way.' : 'Solved!' });
+      setProgress(current => recordPuzzleResult(current, attempt.puzzle, !next.hasFailed));
+    } else {
+      setFeedback({ kind: 'correct', message: 'Best move! Keep going.' });
+    }
+  }, [attempt, clearSelection]);
+
+  const canDragFrom = useCallback((position: Position) => {
+    const piece = attempt?.gameState.board[position.row][position.col];
+    return isSolverTurn && !!piece && piece.color === attempt!.solverColor;
+  }, [attempt, isSolverTurn]);
+
+  const selectSquare = useCallback((position: Position): boolean => {
+    if (!attempt || !canDragFrom(position)) {
+      setSelectedSquare(null);
+      setValidMoves([]);
+      return false;
+    }
+    setSelectedSquare(position);
+    setValidMoves(getPossibleMoves(attempt.gameState.board, position, attempt.gameState));
+    return true;
+  }, [attempt, canDragFrom]);
+
+  // Promotions wait for a piece to be picked, unless the player always wants a queen
+  const tryMove = useCallback((from: Position, to: Position): boolean => {
+    if (!attempt) return false;
+    const { gameState } = attempt;
+    if (!getPossibleMoves(gameState.board, from, gameState).some(move => positionsEqual(move, to))) return false;
+
+    if (!settings.autoQueen && isPromotionMove(gameState.board, from, to)) {
+      setSelectedSquare(from);
+      setPendingPromotion({ from, to });
+    } else {
+      playMove(from, to);
+    }
+    return true;
+  }, [attempt, playMove, settings.autoQueen]);
+
+  const handleSquareClick = useCallback((position: Position) => {
+    if (!isSolverTurn) return;
+
+    if (selectedSquare && !positionsEqual(selectedSquare, position)) {
+      if (!tryMove(selectedSquare, position)) selectSquare(position);
+    } else if (selectedSquare) {
+      clearSelection();
+    } else {
+      selectSquare(position);
+    }
+  }, [isSolverTurn, selectedSquare, tryMove, selectSquare, clearSelection]);
+
+  const handleDrop = useCallback((from: Position, to: Position | null) => {
+    if (to && positionsEqual(from, to)) return;
+    if (!to || !tryMove(from, to)) clearSelection();
+  }, [tryMove, clearSelection]);
+
+  const handlePromotionSelect = useCallback((piece: PromotionPieceType) => {
+    if (pendingPromotion) playMove(pendingPromotion.from, pendingPromotion.to, piece);
+  }, [pendingPromotion, playMove]);
+
+  // A hint costs the puzzle, as a wrong move does
+  const handleHint = useCallback(() => {
+    if (!attempt) return;
+    const { attempt: next, hintSquare: square } = takeHint(attempt);
+    if (!square) return;
+
+    setAttempt(next);
+    setHintSquare(square);
+    setProgress(current => recordPuzzleResult(current, attempt.puzzle, false));
+  }, [attempt]);
+
+  const handleShowSolution = useCallback(() => {
+    if (!attempt || attempt.status !== 'playing') return;
+    clearSelection();
+    setHintSquare(null);
+    setAttempt(revealSolution(attempt));
+    setFeedback({ kind: 'revealed', message: 'Here is the solution.' });
+    setProgress(current => recordPuzzleResult(current, attempt.puzzle, false));
+  }, [attempt, clearSelection]);
+
+  const handleNextPuzzle = useCallback(() => {
+    loadPuzzle(pickNextPuzzle(puzzles, progress, attempt?.puzzle.id));
+  }, [loadPuzzle, puzzles, progress, attempt]);
+
+  const handleImport = useCallback((event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    file.text().then(text => {
+      const imported = parsePuzzles(text);
+      if (imported.length === 0) throw new PuzzleImportError(`${file.name} has no puzzles`);
+      setPuzzles(imported);
+      loadPuzzle(pickNextPuzzle(imported, progress));
+    }).catch(importError => {
+      setError(importError instanceof PuzzleImportError
+        ? `Could not import ${file.name}: ${importError.message}${importError.line ? ` (line ${importError.line})` : ''}`
+        : String(importError));
+    });
+  }, [loadPuzzle, progress]);
+
+  const getTask = () => {
+    if (!attempt) return null;
+    const side = attempt.solverColor === 'white' ? 'White' : 'Black';
+    const mateIn = getMateInMoves(attempt.puzzle);
+    return mateIn ? `${side} to play and mate in ${mateIn}` : `${side} to play and win`;
+  };
+
+  return (
+    <div className="chess-game">
+      <div className="game-container">
+        <div className="board-container">
+          {attempt && (
+            <ChessBoard
+              gameState={attempt.gameState}
+              selectedSquare={selectedSquare}
+              validMoves={validMoves}
+              onSquareClick={handleSquareClick}
+              promotionSquare={pendingPromotion?.to ?? null}
+              onPromotionSelect={handlePromotionSelect}
+              onPromotionCancel={clearSelection}
+              canDragFrom={canDragFrom}
+              onDragStart={selectSquare}
+              onDrop={handleDrop}
+              orientation={attempt.solverColor}
+              hintSquare={hintSquare}
+            />
+          )}
+          {/* Read out by screen readers as the puzzle goes on */}
+          <div className="sr-only" role="status" aria-live="polite">
+            {feedback?.message}
+          </div>
+        </div>
+
+        <div className="info-container">
+          <div className="puzzle-panel">
+            <div className="flex items-center gap-2 mb-2">
+              <Trophy className="w-4 h-4" />
+              <h3 className="section-title">Puzzles</h3>
+            </div>
+
+            <div className="puzzle-rating">
+              Rating <strong>{Math.round(progress.rating.rating)}</strong>
+              <span className="puzzle-rating-deviation">±{Math.round(progress.rating.deviation)}</span>
+              <span className="puzzle-record">{progress.solved} solved · {progress.failed} failed</span>
+            </div>
+
+            {attempt && (
+              <>
+                <div className="puzzle-task">{getTask()}</div>
+                <div className="puzzle-details">
+                  Puzzle {attempt.puzzle.id} · rated {attempt.puzzle.rating}
+                </div>
+              </>
+            )}
+
+            {feedback && <div className={`puzzle-feedback ${feedback.kind}`}>{feedback.message}</div>}
+            {error && <div className="puzzle-error">{error}</div>}
+
+            <div className="puzzle-controls">
+              <button
+                className="control-button secondary"
+                onClick={handleHint}
+                disabled={!isSolverTurn}
+                title="Show which piece to move (counts as a miss)"
+              >
+                <Lightbulb className="w-4 h-4" />
+                Hint
+              </button>
+              <button
+                className="control-button secondary"
+                onClick={handleShowSolution}
+                disabled={!attempt || attempt.status !== 'playing'}
+                title="Play out the solution; counts as a miss"
+              >
+                <Eye className="w-4 h-4" />
+                Solution
+              </button>
+              <button className="control-button primary" onClick={handleNextPuzzle} disabled={puzzles.length === 0}>
+                <SkipForward className="w-4 h-4" />
+                Next
+              </button>
+            </div>
+
+            <label className="control-button secondary puzzle-import">
+              <Upload className="w-4 h-4" />
+              Import puzzles (CSV or JSON)
+              <input className="sr-only" type="file" accept=".csv,.json,text/csv,application/json" onChange={handleImport} />
+            </label>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PuzzleTrainer;
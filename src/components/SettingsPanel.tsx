@@ -0,0 +1,134 @@
+import React, { useEffect } from 'react';
+import {
+  ANIMATION_SPEEDS,
+  AnimationSpeed,
+  BOARD_THEMES,
+  BoardThemeId,
+  PIECE_SETS,
+  PieceSetId
+} from '../settings/settings';
+import { useSettings } from '../settings/SettingsContext';
+import PieceGlyph from './PieceGlyph';
+import { Settings, X } from 'lucide-react';
+
+interface SettingsPanelProps {
+  onClose: () => void;
+}
+
+const SettingsPanel: React.FC<SettingsPanelProps> = ({ onClose }) => {
+  const { settings, updateSettings, resetSettings } = useSettings();
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') onClose();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onClose]);
+
+  return (
+    <div className="settings-overlay" onClick={onClose}>
+      <div
+        className="settings-panel"
+        role="dialog"
+        aria-label="Settings"
+        onClick={event => event.stopPropagation()}
+      >
+        <div className="settings-header">
+          <div className="flex items-center gap-2">
+            <Settings className="w-4 h-4" />
+            <h3 className="section-title">Settings</h3>
+          </div>
+          <button className="review-button" onClick={onClose} title="Close settings">
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+
+        <label className="setting-row">
+          Board theme
+          <select
+            value={settings.boardTheme}
+            onChange={event => updateSettings({ boardTheme: event.target.value as BoardThemeId })}
+          >
+            {BOARD_THEMES.map(theme => (
+              <option key={theme.id} value={theme.id}>{theme.name}</option>
+            ))}
+          </select>
+        </label>
+
+        <label className="setting-row">
+          Pieces
+          <select
+            value={settings.pieceSet}
+            onChange={event => updateSettings({ pieceSet: event.target.value as PieceSetId })}
+          >
+            {PIECE_SETS.map(pieceSet => (
+              <option key={pieceSet.id} value={pieceSet.id}>{pieceSet.name}</option>
+            ))}
+          </select>
+        </label>
+
+        <div className="piece-set-preview">
+          <PieceGlyph piece={{ type: 'king', color: 'white' }} />
+          <PieceGlyph piece={{ type: 'queen', color: 'white' }} />
+          <PieceGlyph piece={{ type: 'knight', color: 'black' }} />
+          <PieceGlyph piece={{ type: 'pawn', color: 'black' }} />
+        </div>
+
+        <label className="setting-row">
+          Animation speed
+          <select
+            value={settings.animationSpeed}
+            onChange={event => updateSettings({ animationSpeed: event.target.value as AnimationSpeed })}
+          >
+            {ANIMATION_SPEEDS.map(speed => (
+              <option key={speed.id} value={speed.id}>{speed.name}</option>
+            ))}
+          </select>
+        </label>
+
+        <label className="setting-row">
+          <input
+            type="checkbox"
+            checked={settings.showLegalMoves}
+            onChange={event => updateSettings({ showLegalMoves: event.target.checked })}
+          />
+          Show legal moves
+        </label>
+
+        <label className="setting-row">
+          <input
+            type="checkbox"
+            checked={settings.showCoordinates}
+            onChange={event => updateSettings({ showCoordinates: event.target.checked })}
+          />
+          Show coordinates
+        </label>
+
+        <label className="setting-row">
+          <input
+            type="checkbox"
+            checked={settings.autoQueen}
+            onChange={event => updateSettings({ autoQueen: event.target.checked })}
+          />
+          Always promote to a queen
+        </label>
+
+        <label className="setting-row">
+          <input
+            type="checkbox"
+            checked={settings.soundEnabled}
+            onChange={event => updateSettings({ soundEnabled: event.target.checked })}
+          />
+          Move sounds
+        </label>
+
+        <button className="control-button secondary" onClick={resetSettings}>
+          Restore defaults
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default SettingsPanel;
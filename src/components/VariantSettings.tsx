@@ -0,0 +1,72 @@
+import React, { useState } from 'react';
+import { CHESS960_POSITION_COUNT } from '../utils/chess960';
+import { Shuffle } from 'lucide-react';
+
+interface VariantSettingsProps {
+  isChess960: boolean;
+  chess960Index: number | null; // Number of the current game's starting position
+  onVariantChange: (chess960: boolean) => void;
+  onChess960PositionSelect: (index: number) => void;
+}
+
+const VariantSettings: React.FC<VariantSettingsProps> = ({
+  isChess960,
+  chess960Index,
+  onVariantChange,
+  onChess960PositionSelect
+}) => {
+  const [positionText, setPositionText] = useState('');
+  const position = Number(positionText);
+  const isValidPosition = positionText !== '' && Number.isInteger(position) &&
+    position >= 0 && position < CHESS960_POSITION_COUNT;
+
+  const handleSubmit = (event: React.FormEvent) => {
+    event.preventDefault();
+    if (isValidPosition) onChess960PositionSelect(position);
+  };
+
+  return (
+    <div className="variant-settings">
+      <div className="flex items-center gap-2 mb-2">
+        <Shuffle className="w-4 h-4" />
+        <h3 className="section-title">Variant</h3>
+      </div>
+
+      <label className="setting-row">
+        Rules
+        <select
+          value={isChess960 ? 'chess960' : 'standard'}
+          onChange={event => onVariantChange(event.target.value === 'chess960')}
+        >
+          <option value="standard">Standard</option>
+          <option value="chess960">Chess960</option>
+        </select>
+      </label>
+
+      {isChess960 && (
+        <>
+          {chess960Index !== null && (
+            <div className="variant-position">Starting position #{chess960Index}</div>
+          )}
+
+          <form className="setting-row" onSubmit={handleSubmit}>
+            <input
+              type="number"
+              min={0}
+              max={CHESS960_POSITION_COUNT - 1}
+              value={positionText}
+              onChange={event => setPositionText(event.target.value)}
+              placeholder="0–959"
+              aria-label="Chess960 position number"
+            />
+            <button type="submit" className="control-button secondary" disabled={!isValidPosition}>
+              Play position
+            </button>
+          </form>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default VariantSettings;
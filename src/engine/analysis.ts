@@ -0,0 +1,162 @@
+import { GameState, Move, PieceColor } from '../types/chess';
+import { getAllPossibleMoves, positionsEqual } from '../utils/chessLogic';
+import { createEngineClient, EngineClient } from './engineClient';
+import { MATE_SCORE, SearchResult } from './search';
+import { UciScore } from './uci';
+import { UciAnalysisLine, UciEngine } from './uciEngine';
+
+// Same shape as a UCI score, but always from White's point of view, so that
+// positive is good for White whoever is on move
+export type EvaluationScore = UciScore;
+
+export interface AnalysisLine {
+  multipv: number; // 1 for the best line, 2 for the next best, …
+  depth: number;
+  score: EvaluationScore;
+  moves: Move[]; // Starting with the move suggested in the analysed position
+}
+
+export interface AnalysisOptions {
+  multiPv: number; // How many of the best lines to find
+  movetimeMs?: number; // Time per position; otherwise each evaluator searches to its own depth
+}
+
+// Anything that can analyse a position: the built-in search or an external engine.
+// `analyse` reports each deeper result through `onUpdate` and resolves with the
+// last one; `stop` ends it early with what has been found so far.
+export interface Evaluator {
+  analyse: (
+    gameState: GameState,
+    options: AnalysisOptions,
+    onUpdate?: (lines: AnalysisLine[]) => void
+  ) => Promise<AnalysisLine[]>;
+  stop: () => void;
+  dispose: () => void;
+}
+
+export const MAX_ANALYSIS_LINES = 5;
+
+const fromSideToMove = (score: EvaluationScore, sideToMove: PieceColor): EvaluationScore => {
+  return sideToMove === 'white' ? score : { type: score.type, value: -score.value };
+};
+
+// The built-in search counts mates in plies from the root, close to ±MATE_SCORE
+const toEvaluationScore = (searchScore: number, sideToMove: PieceColor): EvaluationScore => {
+  const pliesToMate = MATE_SCORE - Math.abs(searchScore);
+  const score: EvaluationScore = pliesToMate < 1000
+    ? { type: 'mate', value: Math.sign(searchScore) * Math.ceil(pliesToMate / 2) }
+    : { type: 'cp', value: searchScore };
+  return fromSideToMove(score, sideToMove);
+};
+
+// "+0.35", "-1.20", "#3" or "#-3"
+export const formatScore = (score: EvaluationScore): string => {
+  if (score.type === 'mate') return `#${score.value}`;
+  const pawns = score.value / 100;
+  return `${pawns > 0 ? '+' : ''}${pawns.toFixed(2)}`;
+};
+
+// White's expected share of the points (0-100), mapping centipawns onto a
+// logistic curve the way the usual online analysis boards do
+export const getWhiteWinPercent = (score: EvaluationScore): number => {
+  if (score.type === 'mate') return score.value > 0 ? 100 : 0;
+  return 50 + 50 * (2 / (1 + Math.exp(-0.00368208 * score.value)) - 1);
+};
+
+const isSameMove = (a: Move, b: Move): boolean => {
+  return positionsEqual(a.from, b.from) && positionsEqual(a.to, b.to) && a.promotionPiece === b.promotionPiece;
+};
+
+// The built-in search in its Web Worker. It finds one line per search, so for
+// several lines each search leaves out the moves already found, and each depth
+// is searched in turn to show progress.
+export const createBuiltInEvaluator = (maxDepth = 4): Evaluator => {
+  let client: EngineClient | null = null;
+  let current = { stopped: false }; // The analysis under way
+
+  const toLine = (gameState: GameState, result: SearchResult, multipv: number): AnalysisLine => ({
+    multipv,
+    depth: result.depth,
+    score: toEvaluationScore(result.score, gameState.currentPlayer),
+    moves: result.principalVariation.length > 0 ? result.principalVariation : [result.move!]
+  });
+
+  return {
+    analyse: async (gameState, { multiPv, movetimeMs }, onUpdate) => {
+      client = client ?? createEngineClient();
+      const engine = client;
+      const run = { stopped: false };
+      current = run;
+      const legalMoves = getAllPossibleMoves(gameState.board, gameState.currentPlayer, gameState);
+      const deadline = movetimeMs ? Date.now() + movetimeMs : Infinity;
+      let lines: AnalysisLine[] = [];
+
+      try {
+        for (let depth = 1; depth <= maxDepth && Date.now() < deadline; depth++) {
+          const found: AnalysisLine[] = [];
+          while (found.length < multiPv) {
+            const searchMoves = legalMoves.filter(move => !found.some(line => isSameMove(line.moves[0], move)));
+            if (searchMoves.length === 0) break;
+
+            const timeLimitMs = deadline === Infinity ? undefined : Math.max(1, deadline - Date.now());
+            const result = await engine.search(gameState, { maxDepth: depth, timeLimitMs, searchMoves });
+            if (!result.move) break;
+            found.push(toLine(gameState, result, found.length + 1));
+          }
+
+          // Out of time partway through this depth; the previous one stands
+          if (Date.now() >= deadline && lines.length > 0 && found.some(line => line.depth < depth)) break;
+          lines = found;
+          onUpdate?.(lines);
+          // Nothing deeper to find once the best line is a forced mate
+          if (lines.length === 0 || lines[0].score.type === 'mate') break;
+        }
+      } catch (error) {
+        // Stopping cancels the search under way; keep the last complete depth
+        if (!run.stopped) throw error;
+      }
+      return lines;
+    },
+    stop: () => {
+      current.stopped = true;
+      client?.cancel();
+    },
+    dispose: () => {
+      current.stopped = true;
+      client?.cancel();
+      client = null;
+    }
+  };
+};
+
+// An external engine speaking UCI, through any of the UCI transports
+export const createUciEvaluator = (engine: UciEngine, depth = 20): Evaluator => {
+  let multiPvSet = 1;
+
+  return {
+    analyse: async (gameState, { multiPv, movetimeMs }, onUpdate) => {
+      const info = await engine.init();
+      if (multiPv !== multiPvSet && info.options.includes('MultiPV')) {
+        await engine.setOption('MultiPV', multiPv);
+        multiPvSet = multiPv;
+      }
+
+      const toLines = (lines: UciAnalysisLine[]): AnalysisLine[] => lines.flatMap(line => (
+        line.score && line.moves.length > 0 && line.multipv <= multiPv
+          ? [{
+              multipv: line.multipv,
+              depth: line.depth,
+              score: fromSideToMove(line.score, gameState.currentPlayer),
+              moves: line.moves
+            }]
+          : []
+      ));
+
+      const limits = movetimeMs ? { movetime: movetimeMs } : { depth };
+      const result = await engine.analyse(gameState, limits, lines => onUpdate?.(toLines(lines)));
+      return toLines(result.lines);
+    },
+    stop: engine.stop,
+    dispose: engine.quit
+  };
+};
@@ -0,0 +1,8 @@
+import { searchBestMove } from './search';
+import { EngineRequest, EngineResponse } from './engineClient';
+
+self.onmessage = (event: MessageEvent<EngineRequest>) => {
+  const { id, gameState, options } = event.data;
+  const response: EngineResponse = { id, result: searchBestMove(gameState, options) };
+  self.postMessage(response);
+};
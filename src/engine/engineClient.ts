@@ -0,0 +1,77 @@
+import { GameState } from '../types/chess';
+import { SearchOptions, SearchResult } from './search';
+
+export interface EngineRequest {
+  id: number;
+  gameState: GameState;
+  options: SearchOptions;
+}
+
+export interface EngineResponse {
+  id: number;
+  result: SearchResult;
+}
+
+export interface EngineLevel {
+  name: string;
+  options: SearchOptions;
+}
+
+export const ENGINE_LEVELS: EngineLevel[] = [
+  { name: 'Beginner', options: { maxDepth: 1 } },
+  { name: 'Casual', options: { maxDepth: 2 } },
+  { name: 'Intermediate', options: { maxDepth: 3, timeLimitMs: 2000 } },
+  { name: 'Advanced', options: { maxDepth: 4, timeLimitMs: 4000 } },
+  { name: 'Expert', options: { maxDepth: 6, timeLimitMs: 8000 } }
+];
+
+export interface EngineClient {
+  search: (gameState: GameState, options: SearchOptions) => Promise<SearchResult>;
+  cancel: () => void;
+}
+
+// Runs the search in a Web Worker so the board stays responsive while it thinks
+export const createEngineClient = (): EngineClient => {
+  let worker: Worker | null = null;
+  let nextId = 0;
+  const pending = new Map<number, { resolve: (result: SearchResult) => void; reject: (error: Error) => void }>();
+
+  const getWorker = (): Worker => {
+    if (!worker) {
+      worker = new Worker(new URL('./engine.worker.ts', import.meta.url), { type: 'module' });
+      worker.onmessage = (event: MessageEvent<EngineResponse>) => {
+        const request = pending.get(event.data.id);
+        if (request) {
+          pending.delete(event.data.id);
+          request.resolve(event.data.result);
+        }
+      };
+      worker.onerror = (event: ErrorEvent) => {
+        const error = new Error(event.message || 'Engine worker failed');
+        pending.forEach(request => request.reject(error));
+        pending.clear();
+      };
+    }
+    return worker;
+  };
+
+  // A search cannot be interrupted inside the worker, so stopping means replacing it
+  const cancel = () => {
+    if (worker) {
+      worker.terminate();
+      worker = null;
+    }
+    pending.forEach(request => request.reject(new Error('Search cancelled')));
+    pending.clear();
+  };
+
+  return {
+    search: (gameState, options) => new Promise((resolve, reject) => {
+      const id = nextId++;
+      pending.set(id, { resolve, reject });
+      const request: EngineRequest = { id, gameState, options };
+      getWorker().postMessage(request);
+    }),
+    cancel
+  };
+};
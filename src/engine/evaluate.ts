@@ -0,0 +1,131 @@
+import { PieceType } from '../types/chess';
+import { BLACK, Board0x88 } from '../utils/board0x88';
+
+export const PIECE_VALUES: Record<PieceType, number> = {
+  pawn: 100,
+  knight: 320,
+  bishop: 330,
+  rook: 500,
+  queen: 900,
+  king: 0
+};
+
+// Piece-square tables from white's point of view, row 0 = rank 8
+const PIECE_SQUARE_TABLES: Record<PieceType, number[][]> = {
+  pawn: [
+    [0, 0, 0, 0, 0, 0, 0, 0],
+    [50, 50, 50, 50, 50, 50, 50, 50],
+    [10, 10, 20, 30, 30, 20, 10, 10],
+    [5, 5, 10, 25, 25, 10, 5, 5],
+    [0, 0, 0, 20, 20, 0, 0, 0],
+    [5, -5, -10, 0, 0, -10, -5, 5],
+    [5, 10, 10, -20, -20, 10, 10, 5],
+    [0, 0, 0, 0, 0, 0, 0, 0]
+  ],
+  knight: [
+    [-50, -40, -30, -30, -30, -30, -40, -50],
+    [-40, -20, 0, 0, 0, 0, -20, -40],
+    [-30, 0, 10, 15, 15, 10, 0, -30],
+    [-30, 5, 15, 20, 20, 15, 5, -30],
+    [-30, 0, 15, 20, 20, 15, 0, -30],
+    [-30, 5, 10, 15, 15, 10, 5, -30],
+    [-40, -20, 0, 5, 5, 0, -20, -40],
+    [-50, -40, -30, -30, -30, -30, -40, -50]
+  ],
+  bishop: [
+    [-20, -10, -10, -10, -10, -10, -10, -20],
+    [-10, 0, 0, 0, 0, 0, 0, -10],
+    [-10, 0, 5, 10, 10, 5, 0, -10],
+    [-10, 5, 5, 10, 10, 5, 5, -10],
+    [-10, 0, 10, 10, 10, 10, 0, -10],
+    [-10, 10, 10, 10, 10, 10, 10, -10],
+    [-10, 5, 0, 0, 0, 0, 5, -10],
+    [-20, -10, -10, -10, -10, -10, -10, -20]
+  ],
+  rook: [
+    [0, 0, 0, 0, 0, 0, 0, 0],
+    [5, 10, 10, 10, 10, 10, 10, 5],
+    [-5, 0, 0, 0, 0, 0, 0, -5],
+    [-5, 0, 0, 0, 0, 0, 0, -5],
+    [-5, 0, 0, 0, 0, 0, 0, -5],
+    [-5, 0, 0, 0, 0, 0, 0, -5],
+    [-5, 0, 0, 0, 0, 0, 0, -5],
+    [0, 0, 0, 5, 5, 0, 0, 0]
+  ],
+  queen: [
+    [-20, -10, -10, -5, -5, -10, -10, -20],
+    [-10, 0, 0, 0, 0, 0, 0, -10],
+    [-10, 0, 5, 5, 5, 5, 0, -10],
+    [-5, 0, 5, 5, 5, 5, 0, -5],
+    [0, 0, 5, 5, 5, 5, 0, -5],
+    [-10, 5, 5, 5, 5, 5, 0, -10],
+    [-10, 0, 5, 0, 0, 0, 0, -10],
+    [-20, -10, -10, -5, -5, -10, -10, -20]
+  ],
+  king: [
+    [-30, -40, -40, -50, -50, -40, -40, -30],
+    [-30, -40, -40, -50, -50, -40, -40, -30],
+    [-30, -40, -40, -50, -50, -40, -40, -30],
+    [-30, -40, -40, -50, -50, -40, -40, -30],
+    [-20, -30, -30, -40, -40, -30, -30, -20],
+    [-10, -20, -20, -20, -20, -20, -20, -10],
+    [20, 20, 0, 0, 0, 0, 20, 20],
+    [20, 30, 10, 0, 0, 10, 30, 20]
+  ]
+};
+
+// In the endgame the king should head for the centre instead of hiding
+const KING_ENDGAME_TABLE: number[][] = [
+  [-50, -40, -30, -20, -20, -30, -40, -50],
+  [-30, -20, -10, 0, 0, -10, -20, -30],
+  [-30, -10, 20, 30, 30, 20, -10, -30],
+  [-30, -10, 30, 40, 40, 30, -10, -30],
+  [-30, -10, 30, 40, 40, 30, -10, -30],
+  [-30, -10, 20, 30, 30, 20, -10, -30],
+  [-30, -30, 0, 0, 0, 0, -30, -30],
+  [-50, -30, -30, -30, -30, -30, -30, -50]
+];
+
+// Piece types by internal piece code (see board0x88.ts), for looking up values and tables
+const TYPES_BY_CODE: (PieceType | null)[] = [null, 'pawn', 'knight', 'bishop', 'rook', 'queen', 'king', null];
+
+export const getPieceCodeValue = (code: number): number => {
+  const type = TYPES_BY_CODE[code & 7];
+  return type ? PIECE_VALUES[type] : 0;
+};
+
+const isEndgame = (squares: Int8Array): boolean => {
+  let nonPawnMaterial = 0;
+  for (let square = 0; square < 128; square++) {
+    const type = TYPES_BY_CODE[squares[square] & 7];
+    if (type && type !== 'pawn' && type !== 'king') {
+      nonPawnMaterial += PIECE_VALUES[type];
+    }
+  }
+  return nonPawnMaterial <= 2 * PIECE_VALUES.rook + 2 * PIECE_VALUES.bishop;
+};
+
+// Static evaluation in centipawns from the point of view of the side to move.
+// Works on the internal board so the search can call it without converting.
+export const evaluate = (b: Board0x88): number => {
+  const { squares } = b;
+  const endgame = isEndgame(squares);
+  let score = 0;
+
+  for (let row = 0; row < 8; row++) {
+    for (let col = 0; col < 8; col++) {
+      const code = squares[row * 16 + col];
+      const type = TYPES_BY_CODE[code & 7];
+      if (!type) continue;
+
+      const isWhite = !(code & BLACK);
+      const tableRow = isWhite ? row : 7 - row;
+      const table = type === 'king' && endgame ? KING_ENDGAME_TABLE : PIECE_SQUARE_TABLES[type];
+      const value = PIECE_VALUES[type] + table[tableRow][col];
+
+      score += isWhite ? value : -value;
+    }
+  }
+
+  return b.side === 0 ? score : -score;
+};
@@ -0,0 +1,164 @@
+import { GameState, Move, PieceColor } from '../types/chess';
+import { positionsEqual } from '../utils/chessLogic';
+import { replayPositions } from '../utils/gameHistory';
+import { getPath, MoveTree, setComment, setNags } from '../utils/moveTree';
+import { EvaluationScore, Evaluator, getWhiteWinPercent } from './analysis';
+
+export type MoveClassification = 'best' | 'good' | 'inaccuracy' | 'mistake' | 'blunder';
+
+export interface MoveReview {
+  move: Move;
+  evaluationBefore: EvaluationScore | null; // null when the engine found nothing to say
+  evaluationAfter: EvaluationScore | null; // Also null once the game is over
+  bestMove: Move | null;
+  winPercentLoss: number; // How much the move lowered the mover's expected score, 0-100
+  accuracy: number; // 0-100
+  classification: MoveClassification;
+}
+
+export interface GameReview {
+  moves: MoveReview[]; // One per move of the game, in order
+  accuracy: Record<PieceColor, number | null>; // null for a side that made no moves
+}
+
+export interface GameReviewOptions {
+  movetimeMs?: number; // Time spent on each position
+  onProgress?: (evaluated: number, total: number) => void;
+  isCancelled?: () => boolean;
+}
+
+export const CLASSIFICATION_LABELS: Record<MoveClassification, string> = {
+  best: 'Best move',
+  good: 'Good move',
+  inaccuracy: 'Inaccuracy',
+  mistake: 'Mistake',
+  blunder: 'Blunder'
+};
+
+// Standard NAGs: $6 ?!, $2 ?, $4 ??
+const CLASSIFICATION_NAGS: Partial<Record<MoveClassification, number>> = {
+  inaccuracy: 6,
+  mistake: 2,
+  blunder: 4
+};
+
+// NAGs $1 to $6 judge the move itself; a review replaces any already there
+const MOVE_QUALITY_NAGS = [1, 2, 3, 4, 5, 6];
+
+// Loss in winning chances, in percentage points, from which a move earns each label
+const CLASSIFICATION_THRESHOLDS: [MoveClassification, number][] = [
+  ['blunder', 15],
+  ['mistake', 10],
+  ['inaccuracy', 5]
+];
+
+export const DEFAULT_REVIEW_MOVETIME_MS = 500;
+
+const isSameMove = (a: Move, b: Move): boolean => {
+  return positionsEqual(a.from, b.from) && positionsEqual(a.to, b.to) && a.promotionPiece === b.promotionPiece;
+};
+
+// White's winning chances in a position, settled by the rules once the game is over
+const getPositionWinPercent = (gameState: GameState, score: EvaluationScore | null): number => {
+  if (gameState.status === 'checkmate') return gameState.currentPlayer === 'white' ? 0 : 100;
+  if (gameState.status === 'stalemate' || gameState.status === 'draw') return 50;
+  return score ? getWhiteWinPercent(score) : 50;
+};
+
+// Accuracy of a single move from its loss in winning chances, on the curve
+// used by common online analysis so the numbers look familiar
+const getMoveAccuracy = (winPercentLoss: number): number => {
+  const accuracy = 103.1668 * Math.exp(-0.04354 * winPercentLoss) - 3.1669;
+  return Math.min(100, Math.max(0, accuracy));
+};
+
+const classifyMove = (move: Move, bestMove: Move | null, winPercentLoss: number): MoveClassification => {
+  if (bestMove && isSameMove(move, bestMove)) return 'best';
+  const threshold = CLASSIFICATION_THRESHOLDS.find(([, minimumLoss]) => winPercentLoss >= minimumLoss);
+  return threshold ? threshold[0] : 'good';
+};
+
+const average = (values: number[]): number | null => {
+  return values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : null;
+};
+
+// Evaluate every position of the game and judge each move by how much it lost
+// against the engine's best. Resolves with null if cancelled along the way.
+export const reviewGame = async (
+  gameState: GameState,
+  evaluator: Evaluator,
+  options: GameReviewOptions = {}
+): Promise<GameReview | null> => {
+  const { movetimeMs = DEFAULT_REVIEW_MOVETIME_MS, onProgress, isCancelled } = options;
+  const positions = replayPositions(gameState);
+  const evaluations: { score: EvaluationScore | null; bestMove: Move | null }[] = [];
+
+  for (const position of positions) {
+    if (isCancelled?.()) return null;
+    onProgress?.(evaluations.length, positions.length);
+
+    if (position.status === 'checkmate' || position.status === 'stalemate' || position.status === 'draw') {
+      evaluations.push({ score: null, bestMove: null });
+      continue;
+    }
+    const [best] = await evaluator.analyse(position, { multiPv: 1, movetimeMs });
+    evaluations.push({ score: best?.score ?? null, bestMove: best?.moves[0] ?? null });
+  }
+  if (isCancelled?.()) return null;
+  onProgress?.(positions.length, positions.length);
+
+  const moves = positions.slice(1).map((after, index): MoveReview => {
+    const before = positions[index];
+    const move = after.moveHistory[after.moveHistory.length - 1];
+    const whiteLoss = getPositionWinPercent(before, evaluations[index].score) -
+      getPositionWinPercent(after, evaluations[index + 1].score);
+    const winPercentLoss = Math.max(0, before.currentPlayer === 'white' ? whiteLoss : -whiteLoss);
+
+    return {
+      move,
+      evaluationBefore: evaluations[index].score,
+      evaluationAfter: evaluations[index + 1].score,
+      bestMove: evaluations[index].bestMove,
+      winPercentLoss,
+      accuracy: getMoveAccuracy(winPercentLoss),
+      classification: classifyMove(move, evaluations[index].bestMove, winPercentLoss)
+    };
+  });
+
+  const sideAccuracy = (color: PieceColor) => average(
+    moves.filter(review => review.move.piece.color === color).map(review => review.accuracy)
+  );
+
+  return { moves, accuracy: { white: sideAccuracy('white'), black: sideAccuracy('black') } };
+};
+
+// "Mistake. Nf3 was best." for moves worth pointing out; null for the rest
+export const getReviewComment = (review: MoveReview): string | null => {
+  if (!CLASSIFICATION_NAGS[review.classification]) return null;
+  const label = CLASSIFICATION_LABELS[review.classification];
+  return review.bestMove ? `${label}. ${review.bestMove.notation} was best.` : `${label}.`;
+};
+
+// Write the review into the tree as NAGs and comments on the moves leading to
+// `nodeId`, where they show in the move list and go out with the PGN. Comments
+// already on a move are kept, and annotating twice adds nothing new.
+export const annotateMoveTree = (tree: MoveTree, nodeId: number, review: GameReview): MoveTree => {
+  const nodes = getPath(tree, nodeId).slice(1);
+  let annotated = tree;
+
+  review.moves.forEach((moveReview, index) => {
+    const node = nodes[index];
+    if (!node?.move || !isSameMove(node.move, moveReview.move)) return;
+
+    const nag = CLASSIFICATION_NAGS[moveReview.classification];
+    const nags = node.nags.filter(existing => !MOVE_QUALITY_NAGS.includes(existing));
+    annotated = setNags(annotated, node.id, nag ? [nag, ...nags] : nags);
+
+    const comment = getReviewComment(moveReview);
+    if (comment && !node.comment.includes(comment)) {
+      annotated = setComment(annotated, node.id, node.comment ? `${node.comment} ${comment}` : comment);
+    }
+  });
+
+  return annotated;
+};
@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest';
+import { MATE_SCORE, searchBestMove } from './search';
+import { algebraicToPosition, makeMove, parseSAN } from '../utils/chessLogic';
+import { fromFEN } from '../utils/fen';
+import { GameState } from '../types/chess';
+
+const play = (gameState: GameState, ...sans: string[]): GameState => {
+  return sans.reduce((state, san) => {
+    const move = parseSAN(state, san)!;
+    return makeMove(state, move.from, move.to, move.promotionPiece)!;
+  }, gameState);
+};
+
+// White is a queen down and can only shuffle the knight
+const LOST_FEN = '7k/4q3/8/8/8/8/8/K5N1 w - - 0 1';
+
+describe('searchBestMove', () => {
+  it('finds a mate in one', () => {
+    const result = searchBestMove(fromFEN('6k1/5ppp/8/8/8/8/8/R5K1 w - - 0 1'), { maxDepth: 3 });
+    expect(result.move?.notation).toBe('Ra8#');
+    expect(result.score).toBe(MATE_SCORE - 1);
+  });
+
+  it('scores a losing position below zero', () => {
+    const result = searchBestMove(fromFEN(LOST_FEN), { maxDepth: 2 });
+    expect(result.score).toBeLessThan(-500);
+  });
+
+  it('steers into a repetition of a position from the game as a draw', () => {
+    const gameState = play(fromFEN(LOST_FEN), 'Nf3', 'Kg8', 'Ng1', 'Kh8');
+    const result = searchBestMove(gameState, { maxDepth: 2 });
+    expect(result.move?.notation).toBe('Nf3');
+    expect(result.score).toBeCloseTo(0);
+  });
+
+  it('only searches the given root moves', () => {
+    const gameState = fromFEN('6k1/5ppp/8/8/8/8/8/R5K1 w - - 0 1');
+    const searchMoves = [parseSAN(gameState, 'Kf1')!];
+    const result = searchBestMove(gameState, { maxDepth: 2, searchMoves });
+    expect(result.move?.to).toEqual(algebraicToPosition('f1'));
+  });
+});
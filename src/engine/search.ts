@@ -0,0 +1,240 @@
+import { GameState, Move } from '../types/chess';
+import { getBoardPositionKey, makeMove, positionsEqual } from '../utils/chessLogic';
+import {
+  BLACK,
+  Board0x88,
+  createBoard0x88,
+  generateLegalMoves,
+  InternalMove,
+  isKingAttacked,
+  KING,
+  makeInternalMove,
+  PAWN,
+  QUEEN,
+  ROOK,
+  toPosition,
+  toPromotionPiece,
+  unmakeInternalMove
+} from '../utils/board0x88';
+import { evaluate, getPieceCodeValue } from './evaluate';
+
+export interface SearchOptions {
+  maxDepth: number;
+  timeLimitMs?: number;
+  searchMoves?: Move[]; // Only consider these moves at the root, like UCI's "go searchmoves"
+}
+
+export interface SearchResult {
+  move: Move | null;
+  score: number; // Centipawns from the side to move; mate scores are near ±MATE_SCORE
+  depth: number;
+  nodes: number;
+  principalVariation: Move[];
+}
+
+export const MATE_SCORE = 100000;
+const INFINITY = MATE_SCORE + 1;
+const MAX_QUIESCENCE_PLY = 8;
+const TIME_CHECK_INTERVAL = 256;
+// Plies without a capture or pawn move after which the side to move may claim a draw
+const FIFTY_MOVE_PLIES = 100;
+
+const isSameMove = (a: InternalMove, b: InternalMove): boolean => {
+  return a.from === b.from && a.to === b.to && a.promotion === b.promotion;
+};
+
+const isTactical = (move: InternalMove): boolean => !!move.captured || !!move.promotion;
+
+// Captures first (most valuable victim, least valuable attacker), then promotions
+const scoreMove = (move: InternalMove): number => {
+  let score = 0;
+  if (move.captured) {
+    score += 10 * getPieceCodeValue(move.captured) - getPieceCodeValue(move.piece);
+  }
+  if (move.promotion) {
+    score += getPieceCodeValue(move.promotion);
+  }
+  return score;
+};
+
+const orderMoves = (moves: InternalMove[], bestMove?: InternalMove | null): InternalMove[] => {
+  return [...moves].sort((a, b) => {
+    if (bestMove) {
+      if (isSameMove(a, bestMove)) return -1;
+      if (isSameMove(b, bestMove)) return 1;
+    }
+    return scoreMove(b) - scoreMove(a);
+  });
+};
+
+// Neither side can mate with at most one knight or bishop between them
+const isInsufficientMaterial = (b: Board0x88): boolean => {
+  let minorPieces = 0;
+  for (let square = 0; square < 128; square++) {
+    const type = b.squares[square] & ~BLACK;
+    if (!type || type === KING) continue;
+    if (type === PAWN || type === ROOK || type === QUEEN) return false;
+    minorPieces++;
+  }
+  return minorPieces <= 1;
+};
+
+// Score when the side to move has no legal moves
+const noMovesScore = (b: Board0x88, ply: number): number => {
+  return isKingAttacked(b, b.side) ? -MATE_SCORE + ply : 0;
+};
+
+// Searches on the internal 0x88 board with make/unmake, so no GameState is
+// built per node. Positions are tracked by the same keys as the game's
+// positionHistory, so a repetition of a position from the game counts too.
+export const searchBestMove = (gameState: GameState, options: SearchOptions): SearchResult => {
+  const deadline = options.timeLimitMs ? Date.now() + options.timeLimitMs : Infinity;
+  const board = createBoard0x88(gameState.board, gameState);
+  const keys = [...gameState.positionHistory];
+  const halfMoveClocks = [gameState.halfMoveClock];
+  const principalVariations: InternalMove[][] = [];
+  let nodes = 0;
+  let aborted = false;
+
+  const checkTime = () => {
+    if (nodes % TIME_CHECK_INTERVAL === 0 && Date.now() > deadline) {
+      aborted = true;
+    }
+  };
+
+  const play = (move: InternalMove) => {
+    const halfMoveClock = halfMoveClocks[halfMoveClocks.length - 1];
+    const undo = makeInternalMove(board, move);
+    halfMoveClocks.push(move.captured || (move.piece & ~BLACK) === PAWN ? 0 : halfMoveClock + 1);
+    keys.push(getBoardPositionKey(board));
+    return undo;
+  };
+
+  const takeBack = (move: InternalMove, undo: ReturnType<typeof makeInternalMove>) => {
+    keys.pop();
+    halfMoveClocks.pop();
+    unmakeInternalMove(board, move, undo);
+  };
+
+  // Any earlier occurrence of the current position since the last capture or
+  // pawn move: repeating it is a draw the opponent can always reach
+  const isRepetition = (): boolean => {
+    const current = keys[keys.length - 1];
+    const earliest = Math.max(0, keys.length - 1 - halfMoveClocks[halfMoveClocks.length - 1]);
+    for (let index = keys.length - 3; index >= earliest; index -= 2) {
+      if (keys[index] === current) return true;
+    }
+    return false;
+  };
+
+  const getRootMoves = (): InternalMove[] => {
+    const moves = generateLegalMoves(board);
+    const { searchMoves } = options;
+    return searchMoves ? moves.filter(move => searchMoves.some(allowed =>
+      positionsEqual(toPosition(move.from), allowed.from) &&
+      positionsEqual(toPosition(move.to), allowed.to) &&
+      toPromotionPiece(move.promotion) === allowed.promotionPiece
+    )) : moves;
+  };
+
+  const quiesce = (alpha: number, beta: number, ply: number): number => {
+    nodes++;
+    checkTime();
+    if (aborted) return 0;
+
+    const moves = generateLegalMoves(board);
+    if (moves.length === 0) return noMovesScore(board, ply);
+    if (isInsufficientMaterial(board)) return 0;
+
+    const standPat = evaluate(board);
+    if (standPat >= beta || ply >= MAX_QUIESCENCE_PLY) return standPat;
+    if (standPat > alpha) alpha = standPat;
+
+    for (const move of orderMoves(moves.filter(isTactical))) {
+      const undo = makeInternalMove(board, move);
+      const score = -quiesce(-beta, -alpha, ply + 1);
+      unmakeInternalMove(board, move, undo);
+      if (aborted) return 0;
+      if (score >= beta) return score;
+      if (score > alpha) alpha = score;
+    }
+
+    return alpha;
+  };
+
+  const negamax = (depth: number, alpha: number, beta: number, ply: number, hashMove: InternalMove | null): number => {
+    nodes++;
+    checkTime();
+    principalVariations[ply] = [];
+    if (aborted) return 0;
+
+    // The root is never scored as a draw: there is a move to find
+    if (ply > 0 && (isRepetition() || isInsufficientMaterial(board))) return 0;
+
+    const legalMoves = ply === 0 ? getRootMoves() : generateLegalMoves(board);
+    if (legalMoves.length === 0) return noMovesScore(board, ply);
+    if (ply > 0 && halfMoveClocks[halfMoveClocks.length - 1] >= FIFTY_MOVE_PLIES) return 0;
+
+    if (depth === 0) return quiesce(alpha, beta, ply);
+
+    let bestScore = -INFINITY;
+    for (const move of orderMoves(legalMoves, hashMove)) {
+      const undo = play(move);
+      const score = -negamax(depth - 1, -beta, -alpha, ply + 1, null);
+      takeBack(move, undo);
+      if (aborted) return 0;
+
+      if (score > bestScore) {
+        bestScore = score;
+        principalVariations[ply] = [move, ...(principalVariations[ply + 1] ?? [])];
+      }
+      if (score > alpha) alpha = score;
+      if (alpha >= beta) break;
+    }
+
+    return bestScore;
+  };
+
+  // Replay a line on the game so its moves carry their SAN
+  const toPlayedMoves = (line: InternalMove[]): Move[] => {
+    const played: Move[] = [];
+    let state: GameState | null = gameState;
+    for (const move of line) {
+      state = makeMove(state, toPosition(move.from), toPosition(move.to), toPromotionPiece(move.promotion));
+      if (!state) break;
+      played.push(state.moveHistory[state.moveHistory.length - 1]);
+    }
+    return played;
+  };
+
+  let result: SearchResult = { move: null, score: 0, depth: 0, nodes: 0, principalVariation: [] };
+  let bestMove: InternalMove | null = null;
+
+  // Iterative deepening: each completed depth seeds move ordering for the next
+  for (let depth = 1; depth <= options.maxDepth; depth++) {
+    const score = negamax(depth, -INFINITY, INFINITY, 0, bestMove);
+    if (aborted) break;
+
+    const line = principalVariations[0] ?? [];
+    const principalVariation = toPlayedMoves(line);
+    bestMove = line[0] ?? null;
+    result = {
+      move: principalVariation[0] ?? null,
+      score,
+      depth,
+      nodes,
+      principalVariation
+    };
+
+    // No need to look deeper once a forced mate has been found
+    if (Math.abs(score) >= MATE_SCORE - depth) break;
+  }
+
+  // Always return something playable, even if the first iteration timed out
+  if (!result.move) {
+    const [fallback] = orderMoves(getRootMoves());
+    result = { ...result, move: fallback ? toPlayedMoves([fallback])[0] ?? null : null, nodes };
+  }
+
+  return result;
+};
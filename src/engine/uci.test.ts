@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+import { formatGoCommand, formatPositionCommand, formatSetOptionCommand, parseBestMoveLine, parseInfoLine } from './uci';
+import { algebraicToPosition, createInitialGameState, makeMove } from '../utils/chessLogic';
+import { fromFEN } from '../utils/fen';
+
+describe('UCI commands', () => {
+  it('sends the start position with the moves played', () => {
+    const gameState = makeMove(createInitialGameState(), algebraicToPosition('e2'), algebraicToPosition('e4'))!;
+    expect(formatPositionCommand(createInitialGameState())).toBe('position startpos');
+    expect(formatPositionCommand(gameState)).toBe('position startpos moves e2e4');
+  });
+
+  it('sends positions set up from a FEN as that FEN', () => {
+    const fen = '4k3/8/8/8/8/8/8/4K2R w K - 0 1';
+    expect(formatPositionCommand(fromFEN(fen))).toBe(`position fen ${fen}`);
+  });
+
+  it('writes search limits and options', () => {
+    expect(formatGoCommand({ depth: 12, movetime: 500 })).toBe('go depth 12 movetime 500');
+    expect(formatGoCommand({ infinite: true, depth: 3 })).toBe('go infinite');
+    expect(formatSetOptionCommand('MultiPV', 3)).toBe('setoption name MultiPV value 3');
+  });
+});
+
+describe('UCI replies', () => {
+  it('reads info lines', () => {
+    expect(parseInfoLine('info depth 18 seldepth 24 multipv 2 score cp -31 nodes 120000 nps 900000 time 133 pv e7e5 g1f3')).toEqual({
+      depth: 18,
+      seldepth: 24,
+      multipv: 2,
+      score: { type: 'cp', value: -31 },
+      nodes: 120000,
+      nps: 900000,
+      time: 133,
+      pv: ['e7e5', 'g1f3']
+    });
+  });
+
+  it('reads mate scores, bounds and strings', () => {
+    expect(parseInfoLine('info depth 5 score mate -2 upperbound')).toEqual({
+      depth: 5,
+      score: { type: 'mate', value: -2 },
+      bound: 'upper'
+    });
+    expect(parseInfoLine('info string NNUE evaluation enabled')).toEqual({ string: 'NNUE evaluation enabled' });
+    expect(parseInfoLine('bestmove e2e4')).toBeNull();
+  });
+
+  it('reads bestmove lines', () => {
+    expect(parseBestMoveLine('bestmove e2e4 ponder e7e5')).toEqual({ bestMove: 'e2e4', ponder: 'e7e5' });
+    expect(parseBestMoveLine('bestmove (none)')).toEqual({ bestMove: null, ponder: null });
+    expect(parseBestMoveLine('readyok')).toBeNull();
+  });
+});
@@ -0,0 +1,134 @@
+import { GameState, Move } from '../types/chess';
+import { makeMove, parseUCI, positionToAlgebraic } from '../utils/chessLogic';
+
+// Text side of the Universal Chess Interface: building commands from game
+// states and reading the engine's replies back into moves
+
+export type UciScore =
+  | { type: 'cp'; value: number } // Centipawns, from the point of view of the side to move
+  | { type: 'mate'; value: number }; // Moves to mate; negative when the side to move is getting mated
+
+export interface UciInfo {
+  depth?: number;
+  seldepth?: number;
+  multipv?: number;
+  score?: UciScore;
+  bound?: 'lower' | 'upper'; // Set when the score is only a bound
+  nodes?: number;
+  nps?: number;
+  time?: number; // Milliseconds
+  pv?: string[]; // Moves in UCI notation
+  string?: string; // Free text sent with "info string"
+}
+
+export interface UciBestMove {
+  bestMove: string | null; // null for "(none)", when the side to move has no moves
+  ponder: string | null;
+}
+
+export interface UciSearchLimits {
+  depth?: number;
+  movetime?: number; // Milliseconds
+  nodes?: number;
+  infinite?: boolean; // Search until stopped
+}
+
+const NUMERIC_INFO_FIELDS = ['depth', 'seldepth', 'multipv', 'nodes', 'nps', 'time'] as const;
+
+export const moveToUci = (move: Pick<Move, 'from' | 'to' | 'promotionPiece'>): string => {
+  const promotion = move.promotionPiece ? (move.promotionPiece === 'knight' ? 'n' : move.promotionPiece[0]) : '';
+  return positionToAlgebraic(move.from) + positionToAlgebraic(move.to) + promotion;
+};
+
+// "position" command for the game's current position: the starting position
+// plus the moves played, so the engine sees the history for repetitions
+export const formatPositionCommand = (gameState: GameState): string => {
+  const start = gameState.startFen ? `fen ${gameState.startFen}` : 'startpos';
+  const moves = gameState.moveHistory.map(moveToUci);
+  return moves.length > 0 ? `position ${start} moves ${moves.join(' ')}` : `position ${start}`;
+};
+
+export const formatGoCommand = (limits: UciSearchLimits): string => {
+  const parts = ['go'];
+  if (limits.infinite) {
+    parts.push('infinite');
+  } else {
+    if (limits.depth !== undefined) parts.push('depth', String(limits.depth));
+    if (limits.movetime !== undefined) parts.push('movetime', String(limits.movetime));
+    if (limits.nodes !== undefined) parts.push('nodes', String(limits.nodes));
+  }
+  return parts.join(' ');
+};
+
+export const formatSetOptionCommand = (name: string, value: string | number | boolean): string => {
+  return `setoption name ${name} value ${value}`;
+};
+
+// Reads an "info" line; returns null for anything else
+export const parseInfoLine = (line: string): UciInfo | null => {
+  const tokens = line.trim().split(/\s+/);
+  if (tokens[0] !== 'info') return null;
+
+  const info: UciInfo = {};
+  for (let i = 1; i < tokens.length; i++) {
+    const token = tokens[i];
+
+    if ((NUMERIC_INFO_FIELDS as readonly string[]).includes(token)) {
+      const value = Number(tokens[i + 1]);
+      if (Number.isFinite(value)) {
+        info[token as typeof NUMERIC_INFO_FIELDS[number]] = value;
+        i++;
+      }
+    } else if (token === 'score') {
+      const type = tokens[i + 1];
+      const value = Number(tokens[i + 2]);
+      if ((type === 'cp' || type === 'mate') && Number.isFinite(value)) {
+        info.score = { type, value };
+        i += 2;
+      }
+      if (tokens[i + 1] === 'lowerbound' || tokens[i + 1] === 'upperbound') {
+        info.bound = tokens[i + 1] === 'lowerbound' ? 'lower' : 'upper';
+        i++;
+      }
+    } else if (token === 'pv') {
+      // The principal variation runs to the end of the line
+      info.pv = tokens.slice(i + 1);
+      break;
+    } else if (token === 'string') {
+      info.string = tokens.slice(i + 1).join(' ');
+      break;
+    }
+    // Other fields (currmove, hashfull, tbhits, …) are not used
+  }
+  return info;
+};
+
+// Reads a "bestmove" line; returns null for anything else
+export const parseBestMoveLine = (line: string): UciBestMove | null => {
+  const tokens = line.trim().split(/\s+/);
+  if (tokens[0] !== 'bestmove' || !tokens[1]) return null;
+
+  const bestMove = tokens[1] === '(none)' || tokens[1] === '0000' ? null : tokens[1];
+  const ponderIndex = tokens.indexOf('ponder');
+  return { bestMove, ponder: ponderIndex > 0 ? tokens[ponderIndex + 1] ?? null : null };
+};
+
+// A UCI move string as a legal Move in this position, or null if it is not one
+export const uciToMove = (gameState: GameState, uci: string): Move | null => parseUCI(gameState, uci);
+
+// Replay a principal variation from the position it was searched in. Stops at
+// the first move that does not apply, since engines may send stale lines.
+export const uciLineToMoves = (gameState: GameState, line: string[]): Move[] => {
+  const moves: Move[] = [];
+  let state: GameState | null = gameState;
+
+  for (const uci of line) {
+    const move = uciToMove(state, uci);
+    if (!move) break;
+
+    moves.push(move);
+    state = makeMove(state, move.from, move.to, move.promotionPiece);
+    if (!state) break;
+  }
+  return moves;
+};
@@ -0,0 +1,130 @@
+import { describe, expect, it } from 'vitest';
+import { createUciEngine, OpenUciTransport, UciAnalysisLine, UciEngineError, UciTransportHandlers } from './uciEngine';
+import { createInitialGameState } from '../utils/chessLogic';
+import { createChess960GameState } from '../utils/chess960';
+
+interface ScriptedUciEngine {
+  openTransport: OpenUciTransport;
+  commands: string[]; // Everything sent to the engine, in order
+}
+
+// A fake engine. `respond` returns the lines to answer a command with; "uci"
+// and "isready" get the usual handshake unless it answers them itself. Replies
+// arrive asynchronously, like a real engine's.
+const createScriptedUciEngine = (
+  respond: (command: string) => string[] | undefined = () => undefined,
+  options: string[] = []
+): ScriptedUciEngine => {
+  const commands: string[] = [];
+
+  const defaultReply = (command: string): string[] => {
+    if (command === 'uci') {
+      return ['id name Scripted Engine', 'id author Tests', ...options.map(name => `option name ${name} type check default false`), 'uciok'];
+    }
+    if (command === 'isready') return ['readyok'];
+    return [];
+  };
+
+  const openTransport: OpenUciTransport = (handlers: UciTransportHandlers) => {
+    let closed = false;
+    return {
+      send: line => {
+        commands.push(line);
+        const reply = respond(line) ?? defaultReply(line);
+        queueMicrotask(() => {
+          if (!closed) reply.forEach(handlers.onLine);
+        });
+      },
+      close: () => {
+        closed = true;
+      }
+    };
+  };
+
+  return { openTransport, commands };
+};
+
+describe('UCI engine', () => {
+  it('shakes hands once and reads the engine name and options', async () => {
+    const fake = createScriptedUciEngine(undefined, ['UCI_Chess960']);
+    const engine = createUciEngine(fake.openTransport);
+
+    const [info] = await Promise.all([engine.init(), engine.init()]);
+    expect(info).toEqual({ name: 'Scripted Engine', author: 'Tests', options: ['UCI_Chess960'] });
+    expect(fake.commands).toEqual(['uci', 'isready']);
+  });
+
+  it('reports info lines as they come and resolves with the best move', async () => {
+    const fake = createScriptedUciEngine(command => command.startsWith('go') ? [
+      'info depth 1 multipv 1 score cp 20 pv e2e4',
+      'info depth 1 multipv 2 score cp 10 pv d2d4 d7d5',
+      'info depth 2 multipv 1 score cp 25 nodes 400 pv e2e4 e7e5',
+      'bestmove e2e4 ponder e7e5'
+    ] : undefined);
+    const engine = createUciEngine(fake.openTransport);
+    const updates: UciAnalysisLine[][] = [];
+
+    const analysis = await engine.analyse(createInitialGameState(), { depth: 2 }, lines => updates.push(lines));
+
+    expect(fake.commands.slice(-2)).toEqual(['position startpos', 'go depth 2']);
+    expect(updates).toHaveLength(3);
+    expect(analysis.bestMove?.notation).toBe('e4');
+    expect(analysis.ponder?.notation).toBe('e5');
+    expect(analysis.lines.map(line => [line.multipv, line.depth, line.score, line.moves.map(move => move.notation)])).toEqual([
+      [1, 2, { type: 'cp', value: 25 }, ['e4', 'e5']],
+      [2, 1, { type: 'cp', value: 10 }, ['d4', 'd5']]
+    ]);
+  });
+
+  it('stops an infinite search and keeps what it found', async () => {
+    const fake = createScriptedUciEngine(command => {
+      if (command === 'go infinite') return ['info depth 9 score mate 3 pv g1f3'];
+      if (command === 'stop') return ['bestmove g1f3'];
+      return undefined;
+    });
+    const engine = createUciEngine(fake.openTransport);
+
+    const analysis = engine.analyse(createInitialGameState(), { infinite: true }, () => engine.stop());
+
+    const result = await analysis;
+    expect(fake.commands).toContain('stop');
+    expect(result.bestMove?.notation).toBe('Nf3');
+    expect(result.lines[0].score).toEqual({ type: 'mate', value: 3 });
+  });
+
+  it('skips a search that a newer one replaced before it started', async () => {
+    const fake = createScriptedUciEngine(command => command.startsWith('go') ? ['bestmove e2e4'] : undefined);
+    const engine = createUciEngine(fake.openTransport);
+
+    const [first, second] = await Promise.all([
+      engine.analyse(createInitialGameState(), { depth: 1 }),
+      engine.analyse(createInitialGameState(), { depth: 2 })
+    ]);
+
+    expect(first).toEqual({ bestMove: null, ponder: null, lines: [] });
+    expect(second.bestMove?.notation).toBe('e4');
+    expect(fake.commands.filter(command => command.startsWith('go'))).toEqual(['go depth 2']);
+  });
+
+  it('switches the engine to Chess960 castling when it supports it', async () => {
+    const fake = createScriptedUciEngine(command => command.startsWith('go') ? ['bestmove (none)'] : undefined, ['UCI_Chess960']);
+    const engine = createUciEngine(fake.openTransport);
+
+    await engine.analyse(createChess960GameState(0), { depth: 1 });
+    expect(fake.commands).toContain('setoption name UCI_Chess960 value true');
+  });
+
+  it('fails pending work and refuses more once it has quit', async () => {
+    const fake = createScriptedUciEngine(command => command.startsWith('go') ? [] : undefined);
+    const engine = createUciEngine(fake.openTransport);
+
+    const analysis = engine.analyse(createInitialGameState(), { infinite: true });
+    await engine.init();
+    await new Promise(resolve => setTimeout(resolve, 0));
+    engine.quit();
+
+    await expect(analysis).rejects.toBeInstanceOf(UciEngineError);
+    await expect(engine.setOption('MultiPV', 2)).rejects.toThrow('shut down');
+    expect(fake.commands[fake.commands.length - 1]).toBe('quit');
+  });
+});
@@ -0,0 +1,260 @@
+import { GameState, Move } from '../types/chess';
+import {
+  formatGoCommand,
+  formatPositionCommand,
+  formatSetOptionCommand,
+  parseBestMoveLine,
+  parseInfoLine,
+  UciInfo,
+  UciScore,
+  UciSearchLimits,
+  uciLineToMoves,
+  uciToMove
+} from './uci';
+
+// The engine end of the conversation, one line of text at a time. Transports
+// exist for engines in a Web Worker and a local binary behind the Node bridge;
+// see uciTransports.ts. The tests drive a scripted fake.
+export interface UciTransportHandlers {
+  onLine: (line: string) => void;
+  onError: (message: string) => void;
+}
+
+export interface UciTransport {
+  send: (line: string) => void;
+  close: () => void;
+}
+
+export type OpenUciTransport = (handlers: UciTransportHandlers) => UciTransport;
+
+export interface UciEngineInfo {
+  name: string | null;
+  author: string | null;
+  options: string[]; // Names of the options the engine accepts
+}
+
+// One line of analysis; with MultiPV there is one per `multipv` index
+export interface UciAnalysisLine {
+  multipv: number;
+  depth: number;
+  score: UciScore | null; // From the point of view of the side to move
+  moves: Move[];
+  nodes?: number;
+  nps?: number;
+  time?: number;
+}
+
+export interface UciAnalysis {
+  bestMove: Move | null; // null when the side to move has no legal move
+  ponder: Move | null;
+  lines: UciAnalysisLine[]; // Ordered by multipv
+}
+
+export interface UciEngine {
+  init: () => Promise<UciEngineInfo>;
+  setOption: (name: string, value: string | number | boolean) => Promise<void>;
+  analyse: (
+    gameState: GameState,
+    limits: UciSearchLimits,
+    onUpdate?: (lines: UciAnalysisLine[]) => void
+  ) => Promise<UciAnalysis>;
+  stop: () => void;
+  quit: () => void;
+}
+
+export class UciEngineError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'UciEngineError';
+  }
+}
+
+interface Waiter {
+  isDone: (line: string) => boolean;
+  resolve: () => void;
+  reject: (error: Error) => void;
+}
+
+interface Search {
+  gameState: GameState;
+  lines: Map<number, UciAnalysisLine>;
+  onUpdate?: (lines: UciAnalysisLine[]) => void;
+  resolve: (analysis: UciAnalysis) => void;
+  reject: (error: Error) => void;
+}
+
+const INIT_TIMEOUT_MS = 10000;
+
+const sortLines = (lines: Map<number, UciAnalysisLine>): UciAnalysisLine[] => {
+  return [...lines.values()].sort((a, b) => a.multipv - b.multipv);
+};
+
+// Drives an engine over any UCI transport. Searches run one at a time: starting
+// a new one stops the current search, which then resolves with what it found.
+export const createUciEngine = (openTransport: OpenUciTransport): UciEngine => {
+  const info: UciEngineInfo = { name: null, author: null, options: [] };
+  const waiters: Waiter[] = [];
+  let search: Search | null = null;
+  let queue: Promise<unknown> = Promise.resolve();
+  let initialized: Promise<UciEngineInfo> | null = null;
+  let closed = false;
+  let chess960 = false;
+  let latestSearchId = 0; // Searches queued behind a newer one are skipped
+
+  const failAll = (error: Error) => {
+    waiters.splice(0).forEach(waiter => waiter.reject(error));
+    search?.reject(error);
+    search = null;
+  };
+
+  const handleInfo = (parsed: UciInfo) => {
+    if (!search || !parsed.pv || parsed.pv.length === 0 || parsed.depth === undefined) return;
+
+    const multipv = parsed.multipv ?? 1;
+    search.lines.set(multipv, {
+      multipv,
+      depth: parsed.depth,
+      score: parsed.score ?? search.lines.get(multipv)?.score ?? null,
+      moves: uciLineToMoves(search.gameState, parsed.pv),
+      nodes: parsed.nodes,
+      nps: parsed.nps,
+      time: parsed.time
+    });
+    search.onUpdate?.(sortLines(search.lines));
+  };
+
+  const handleLine = (line: string) => {
+    const trimmed = line.trim();
+    if (!trimmed) return;
+
+    if (trimmed.startsWith('id name ')) info.name = trimmed.slice('id name '.length);
+    if (trimmed.startsWith('id author ')) info.author = trimmed.slice('id author '.length);
+    const option = /^option name (.+?) type /.exec(trimmed);
+    if (option) info.options.push(option[1]);
+
+    const parsedInfo = parseInfoLine(trimmed);
+    if (parsedInfo) handleInfo(parsedInfo);
+
+    const bestMove = parseBestMoveLine(trimmed);
+    if (bestMove && search) {
+      const { gameState, lines, resolve } = search;
+      search = null;
+      resolve({
+        bestMove: bestMove.bestMove ? uciToMove(gameState, bestMove.bestMove) : null,
+        ponder: bestMove.bestMove && bestMove.ponder
+          ? uciLineToMoves(gameState, [bestMove.bestMove, bestMove.ponder])[1] ?? null
+          : null,
+        lines: sortLines(lines)
+      });
+    }
+
+    const index = waiters.findIndex(waiter => waiter.isDone(trimmed));
+    if (index !== -1) {
+      waiters.splice(index, 1)[0].resolve();
+    }
+  };
+
+  const transport = openTransport({
+    onLine: handleLine,
+    onError: message => failAll(new UciEngineError(message))
+  });
+
+  const send = (line: string) => {
+    if (closed) throw new UciEngineError('The engine has been shut down');
+    transport.send(line);
+  };
+
+  // Send a command and wait for the reply line that ends it
+  const request = (command: string, reply: string, timeoutMs?: number): Promise<void> => {
+    return new Promise((resolve, reject) => {
+      let timer: ReturnType<typeof setTimeout> | undefined;
+      const waiter: Waiter = {
+        isDone: line => line === reply,
+        resolve: () => {
+          clearTimeout(timer);
+          resolve();
+        },
+        reject: error => {
+          clearTimeout(timer);
+          reject(error);
+        }
+      };
+      if (timeoutMs) {
+        timer = setTimeout(() => {
+          waiters.splice(waiters.indexOf(waiter), 1);
+          reject(new UciEngineError(`The engine did not answer "${command}"`));
+        }, timeoutMs);
+      }
+      waiters.push(waiter);
+      try {
+        send(command);
+      } catch (error) {
+        waiter.reject(error as Error);
+      }
+    });
+  };
+
+  const init = () => {
+    initialized = initialized ?? request('uci', 'uciok', INIT_TIMEOUT_MS)
+      .then(() => request('isready', 'readyok', INIT_TIMEOUT_MS))
+      .then(() => info);
+    return initialized;
+  };
+
+  // Commands go out one after another, each once the previous one has finished
+  const enqueue = <T>(task: () => Promise<T>): Promise<T> => {
+    const result = queue.then(task);
+    queue = result.catch(() => undefined);
+    return result;
+  };
+
+  const stop = () => {
+    if (search && !closed) send('stop');
+  };
+
+  return {
+    init,
+    setOption: (name, value) => enqueue(async () => {
+      await init();
+      send(formatSetOptionCommand(name, value));
+      await request('isready', 'readyok');
+    }),
+    analyse: (gameState, limits, onUpdate) => {
+      // Let the running search finish early; its caller still gets a result
+      stop();
+      const searchId = ++latestSearchId;
+
+      return enqueue(async () => {
+        await init();
+        if (searchId !== latestSearchId) {
+          return { bestMove: null, ponder: null, lines: [] };
+        }
+
+        // Chess960 castling is written as the king taking its own rook
+        const isChess960 = !!gameState.castlingRookFiles;
+        if (isChess960 !== chess960 && info.options.includes('UCI_Chess960')) {
+          send(formatSetOptionCommand('UCI_Chess960', isChess960));
+          chess960 = isChess960;
+        }
+        await request('isready', 'readyok');
+
+        return new Promise<UciAnalysis>((resolve, reject) => {
+          search = { gameState, lines: new Map(), onUpdate, resolve, reject };
+          send(formatPositionCommand(gameState));
+          send(formatGoCommand(limits));
+        });
+      });
+    },
+    stop,
+    quit: () => {
+      if (closed) return;
+      try {
+        transport.send('quit');
+      } finally {
+        closed = true;
+        transport.close();
+        failAll(new UciEngineError('The engine has been shut down'));
+      }
+    }
+  };
+};
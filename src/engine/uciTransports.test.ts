@@ -0,0 +1,29 @@
+import { describe, expect, it } from 'vitest';
+import { openWorkerUciTransport } from './uciTransports';
+
+describe('Web Worker transport', () => {
+  it('passes lines to and from the worker', () => {
+    const posted: string[] = [];
+    const worker = {
+      onmessage: null as ((event: MessageEvent) => void) | null,
+      onerror: null as ((event: ErrorEvent) => void) | null,
+      postMessage: (line: string) => posted.push(line),
+      terminate: () => posted.push('<terminated>')
+    };
+    const lines: string[] = [];
+    const errors: string[] = [];
+
+    const transport = openWorkerUciTransport(() => worker as unknown as Worker)({
+      onLine: line => lines.push(line),
+      onError: message => errors.push(message)
+    });
+    transport.send('uci');
+    worker.onmessage!({ data: 'id name Worker Engine\nuciok\n' } as MessageEvent);
+    worker.onerror!({ message: 'out of memory' } as ErrorEvent);
+    transport.close();
+
+    expect(posted).toEqual(['uci', '<terminated>']);
+    expect(lines).toEqual(['id name Worker Engine', 'uciok']);
+    expect(errors).toEqual(['out of memory']);
+  });
+});
@@ -0,0 +1,61 @@
+import { OpenUciTransport } from './uciEngine';
+
+const splitLines = (text: string): string[] => text.split(/\r?\n/).filter(line => line.trim() !== '');
+
+// An engine compiled to WASM or JavaScript (Stockfish.js and the like) running in
+// a Web Worker, exchanging UCI lines as plain string messages
+export const openWorkerUciTransport = (createWorker: () => Worker): OpenUciTransport => handlers => {
+  const worker = createWorker();
+  worker.onmessage = (event: MessageEvent) => {
+    if (typeof event.data === 'string') {
+      splitLines(event.data).forEach(handlers.onLine);
+    }
+  };
+  worker.onerror = (event: ErrorEvent) => handlers.onError(event.message || 'Engine worker failed');
+
+  return {
+    send: line => worker.postMessage(line),
+    close: () => worker.terminate()
+  };
+};
+
+// A local engine binary behind the Node helper (npm run uci-bridge), at the
+// address it prints, token included. Engine output arrives as server-sent
+// events; commands are posted one at a time, in order.
+export const openHttpUciTransport = (bridgeAddress: string): OpenUciTransport => handlers => {
+  let address: URL;
+  try {
+    address = new URL(bridgeAddress);
+  } catch {
+    queueMicrotask(() => handlers.onError(`"${bridgeAddress}" is not an engine bridge address`));
+    return { send: () => {}, close: () => {} };
+  }
+
+  const url = `${address.origin}${address.pathname.replace(/\/$/, '')}`;
+  const query = `?token=${encodeURIComponent(address.searchParams.get('token') ?? '')}`;
+  const events = new EventSource(`${url}/events${query}`);
+  let queue: Promise<void> = Promise.resolve();
+  let closed = false;
+
+  events.onmessage = event => splitLines(event.data).forEach(handlers.onLine);
+  events.onerror = () => {
+    if (!closed) handlers.onError(`Lost the connection to the engine bridge at ${url}; check the address and token it printed`);
+  };
+
+  return {
+    send: line => {
+      queue = queue
+        .then(async () => {
+          const response = await fetch(`${url}/command${query}`, { method: 'POST', body: line });
+          if (!response.ok) throw new Error(`The engine bridge refused "${line}": ${response.status}`);
+        })
+        .catch(error => {
+          if (!closed) handlers.onError(error instanceof Error ? error.message : String(error));
+        });
+    },
+    close: () => {
+      closed = true;
+      events.close();
+    }
+  };
+};
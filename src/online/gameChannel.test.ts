@@ -0,0 +1,29 @@
+import { describe, expect, it } from 'vitest';
+import { isGameMessage } from './gameChannel';
+
+const move = { type: 'move', ply: 0, from: { row: 6, col: 4 }, to: { row: 4, col: 4 } };
+
+describe('isGameMessage', () => {
+  it('accepts moves and sync requests', () => {
+    expect(isGameMessage(move)).toBe(true);
+    expect(isGameMessage({ ...move, promotionPiece: 'knight' })).toBe(true);
+    expect(isGameMessage({ type: 'sync' })).toBe(true);
+  });
+
+  it('rejects squares off the board', () => {
+    expect(isGameMessage({ ...move, from: { row: 9, col: 4 } })).toBe(false);
+    expect(isGameMessage({ ...move, to: { row: 4, col: -1 } })).toBe(false);
+    expect(isGameMessage({ ...move, to: { row: 4.5, col: 4 } })).toBe(false);
+  });
+
+  it('rejects pieces a pawn cannot promote to', () => {
+    expect(isGameMessage({ ...move, promotionPiece: 'king' })).toBe(false);
+    expect(isGameMessage({ ...move, promotionPiece: null })).toBe(false);
+  });
+
+  it('rejects anything else', () => {
+    expect(isGameMessage(null)).toBe(false);
+    expect(isGameMessage({ ...move, ply: -1 })).toBe(false);
+    expect(isGameMessage({ type: 'resign' })).toBe(false);
+  });
+});
@@ -0,0 +1,104 @@
+import { Position, PromotionPieceType } from '../types/chess';
+import { isValidPosition, PROMOTION_PIECES } from '../utils/chessLogic';
+
+// Messages exchanged between the two players of an online game
+export type GameMessage =
+  | {
+      type: 'move';
+      ply: number; // Number of moves played before this one
+      from: Position;
+      to: Position;
+      promotionPiece?: PromotionPieceType;
+    }
+  | {
+      type: 'sync'; // The server record changed; fetch it again
+    };
+
+export interface ChannelHandlers {
+  onMessage: (message: GameMessage) => void;
+  onStatusChange: (connected: boolean) => void;
+  onError: (message: string) => void;
+}
+
+export interface GameChannel {
+  send: (message: GameMessage) => Promise<void>;
+  close: () => void;
+}
+
+export type OpenChannel = (gameId: string, handlers: ChannelHandlers) => GameChannel;
+
+const isPosition = (value: unknown): value is Position => {
+  const position = value as Position;
+  return typeof value === 'object' && value !== null &&
+    Number.isInteger(position.row) && Number.isInteger(position.col) && isValidPosition(position);
+};
+
+const isPromotionPiece = (value: unknown): value is PromotionPieceType | undefined => {
+  return value === undefined || PROMOTION_PIECES.includes(value as PromotionPieceType);
+};
+
+// Anything can arrive over the network, so check the shape before trusting it
+export const isGameMessage = (value: unknown): value is GameMessage => {
+  const message = value as GameMessage;
+  if (typeof value !== 'object' || value === null) return false;
+
+  switch (message.type) {
+    case 'move':
+      return Number.isInteger(message.ply) && message.ply >= 0 &&
+        isPosition(message.from) && isPosition(message.to) && isPromotionPiece(message.promotionPiece);
+    case 'sync':
+      return true;
+    default:
+      return false;
+  }
+};
+
+const BROADCAST_EVENT = 'game-message';
+
+// Broadcast over a Supabase Realtime channel named after the game
+export const openSupabaseChannel: OpenChannel = (gameId, handlers) => {
+  let closed = false;
+
+  const ready = import('../lib/supabaseClient').then(({ supabase }) => {
+    const channel = supabase.channel(`game:${gameId}`, {
+      config: { broadcast: { self: false, ack: true } }
+    });
+
+    channel
+      .on('broadcast', { event: BROADCAST_EVENT }, ({ payload }) => {
+        if (isGameMessage(payload)) {
+          handlers.onMessage(payload);
+        } else {
+          handlers.onError('Ignored a malformed message from the opponent');
+        }
+      })
+      .subscribe((status, error) => {
+        if (closed) return;
+        handlers.onStatusChange(status === 'SUBSCRIBED');
+        if (error) handlers.onError(error.message);
+      });
+
+    return { supabase, channel };
+  });
+
+  ready.catch(error => {
+    handlers.onStatusChange(false);
+    handlers.onError(error instanceof Error ? error.message : String(error));
+  });
+
+  return {
+    send: async message => {
+      const { channel } = await ready;
+      const result = await channel.send({ type: 'broadcast', event: BROADCAST_EVENT, payload: message });
+      if (result !== 'ok') {
+        throw new Error(`Failed to send move: ${result}`);
+      }
+    },
+    close: () => {
+      closed = true;
+      ready.then(({ supabase, channel }) => supabase.removeChannel(channel)).catch(() => {
+        // Nothing to clean up if the channel never opened
+      });
+    }
+  };
+};
@@ -0,0 +1,193 @@
+import { describe, expect, it } from 'vitest';
+import { GameState } from '../types/chess';
+import { algebraicToPosition, createInitialGameState, makeMove } from '../utils/chessLogic';
+import { fromFEN } from '../utils/fen';
+import { createLocalStorageGameRepository } from '../api/localStorageGameRepository';
+import { ChannelHandlers, GameMessage, OpenChannel } from './gameChannel';
+import { createOnlineSession, OnlineSession } from './onlineSession';
+
+const createMemoryStorage = (): Storage => {
+  const items = new Map<string, string>();
+  return {
+    getItem: key => items.get(key) ?? null,
+    setItem: (key, value) => void items.set(key, value),
+    removeItem: key => void items.delete(key),
+    clear: () => items.clear(),
+    key: index => [...items.keys()][index] ?? null,
+    get length() {
+      return items.size;
+    }
+  };
+};
+
+// Connects channels opened on the same hub, as if they shared a Realtime
+// channel. Delivery is asynchronous, like the real thing.
+const createMemoryChannelHub = (): OpenChannel => {
+  const subscribers = new Map<string, Set<ChannelHandlers>>();
+
+  return (gameId, handlers) => {
+    const members = subscribers.get(gameId) ?? new Set<ChannelHandlers>();
+    subscribers.set(gameId, members);
+    members.add(handlers);
+    queueMicrotask(() => handlers.onStatusChange(true));
+
+    return {
+      send: async message => {
+        // Round-trip through JSON so nothing is shared between the two sides
+        const payload = JSON.parse(JSON.stringify(message));
+        members.forEach(member => {
+          if (member !== handlers) queueMicrotask(() => member.onMessage(payload));
+        });
+      },
+      close: () => {
+        members.delete(handlers);
+      }
+    };
+  };
+};
+
+// Channel deliveries and repository calls all settle within a few macrotasks
+const settle = () => new Promise(resolve => setTimeout(resolve, 10));
+
+const play = (gameState: GameState, from: string, to: string) => {
+  return makeMove(gameState, algebraicToPosition(from), algebraicToPosition(to))!;
+};
+
+const setUp = async () => {
+  const repository = createLocalStorageGameRepository(createMemoryStorage());
+  const openChannel = createMemoryChannelHub();
+  const { id: gameId } = await repository.create(createInitialGameState());
+
+  const open = (color: 'white' | 'black', channel: OpenChannel = openChannel) => {
+    const seen = { state: createInitialGameState(), errors: [] as string[] };
+    const session: OnlineSession = createOnlineSession({
+      gameId,
+      color,
+      openChannel: channel,
+      repository,
+      onStateChange: gameState => { seen.state = gameState; },
+      onConnectionChange: () => {},
+      onError: message => { seen.errors.push(message); }
+    });
+    return { session, seen };
+  };
+
+  // A raw channel on the same game, for sending what a misbehaving peer might
+  const sendAsPeer = (message: GameMessage) => openChannel(gameId, {
+    onMessage: () => {},
+    onStatusChange: () => {},
+    onError: () => {}
+  }).send(message);
+
+  return { repository, gameId, open, sendAsPeer };
+};
+
+describe('online session', () => {
+  it('passes moves between the two players in order', async () => {
+    const { repository, gameId, open } = await setUp();
+    const white = open('white');
+    const black = open('black');
+    await settle();
+
+    white.session.playMove(algebraicToPosition('e2'), algebraicToPosition('e4'));
+    await settle();
+    black.session.playMove(algebraicToPosition('e7'), algebraicToPosition('e5'));
+    await settle();
+
+    expect(white.seen.state.moveHistory.map(move => move.notation)).toEqual(['e4', 'e5']);
+    expect(black.seen.state.moveHistory.map(move => move.notation)).toEqual(['e4', 'e5']);
+    expect((await repository.load(gameId)).moveHistory).toHaveLength(2);
+  });
+
+  it('only lets each player move on their own turn', async () => {
+    const { open } = await setUp();
+    const black = open('black');
+    await settle();
+
+    expect(black.session.playMove(algebraicToPosition('e7'), algebraicToPosition('e5'))).toBeNull();
+  });
+
+  it('ignores a move it has already applied', async () => {
+    const { open, sendAsPeer } = await setUp();
+    const white = open('white');
+    const black = open('black');
+    await settle();
+
+    white.session.playMove(algebraicToPosition('e2'), algebraicToPosition('e4'));
+    await settle();
+    const before = black.seen.state;
+    await sendAsPeer({ type: 'move', ply: 0, from: algebraicToPosition('d2'), to: algebraicToPosition('d4') });
+    await settle();
+
+    expect(black.seen.state).toBe(before);
+    expect(black.seen.errors).toEqual([]);
+  });
+
+  it('resyncs from the server when a move arrives out of order', async () => {
+    const { repository, gameId, open, sendAsPeer } = await setUp();
+    const black = open('black');
+    await settle();
+
+    // Two moves reached the server, but only the second one's message reaches black
+    await repository.save(gameId, play(play(createInitialGameState(), 'e2', 'e4'), 'e7', 'e5'));
+    await sendAsPeer({ type: 'move', ply: 1, from: algebraicToPosition('e7'), to: algebraicToPosition('e5') });
+    await settle();
+
+    expect(black.seen.state.moveHistory.map(move => move.notation)).toEqual(['e4', 'e5']);
+  });
+
+  it('rejects an illegal move and falls back on the server record', async () => {
+    const { open, sendAsPeer } = await setUp();
+    const black = open('black');
+    await settle();
+
+    await sendAsPeer({ type: 'move', ply: 0, from: algebraicToPosition('e2'), to: algebraicToPosition('e5') });
+    await settle();
+
+    expect(black.seen.errors).toContain('The opponent sent an illegal move');
+    expect(black.seen.state.moveHistory).toHaveLength(0);
+  });
+
+  it('catches up from the server on resync after missing a move', async () => {
+    const { open } = await setUp();
+    const offline = createMemoryChannelHub(); // White's message reaches nobody
+    const white = open('white', offline);
+    const black = open('black');
+    await settle();
+
+    white.session.playMove(algebraicToPosition('e2'), algebraicToPosition('e4'));
+    await settle();
+    expect(black.seen.state.moveHistory).toHaveLength(0);
+
+    await black.session.resync();
+    expect(black.seen.state.moveHistory.map(move => move.notation)).toEqual(['e4']);
+  });
+
+  it('rejects a server record whose moves do not lead to its position', async () => {
+    const { repository, gameId, open } = await setUp();
+    const black = open('black');
+    await settle();
+
+    // A position saved without the moves that reach it
+    await repository.save(gameId, { ...fromFEN('4k3/8/8/8/8/8/8/3QK3 b - - 0 1'), startFen: undefined });
+    await black.session.resync();
+
+    expect(black.seen.errors).toEqual([`Game ${gameId} is corrupt: its moves do not lead to its position`]);
+    expect(black.seen.state.moveHistory).toHaveLength(0);
+  });
+
+  it('rejects a server record that rewrites the moves already played', async () => {
+    const { repository, gameId, open } = await setUp();
+    const white = open('white');
+    const black = open('black');
+    await settle();
+
+    white.session.playMove(algebraicToPosition('e2'), algebraicToPosition('e4'));
+    await settle();
+    await repository.save(gameId, play(play(createInitialGameState(), 'd2', 'd4'), 'd7', 'd5'));
+    await black.session.resync();
+
+    expect(black.seen.errors).toEqual(['The stored game does not continue this one']);
+    expect(black.seen.state.moveHistory.map(move => move.notation)).toEqual(['e4']);
+  });
+});
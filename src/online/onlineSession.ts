@@ -0,0 +1,176 @@
+import { GameState, Move, PieceColor, Position, PromotionPieceType } from '../types/chess';
+import { claimDraw, createInitialGameState, isGameOver, makeMove } from '../utils/chessLogic';
+import { GameMessage, GameChannel, OpenChannel } from './gameChannel';
+import { GameRepository, restoreGameState, toRepositoryError } from '../api/gameRepository';
+
+export interface OnlineGameInfo {
+  gameId: string;
+  color: PieceColor;
+}
+
+export interface OnlineSessionOptions extends OnlineGameInfo {
+  openChannel: OpenChannel;
+  repository: GameRepository;
+  onStateChange: (gameState: GameState) => void;
+  onConnectionChange: (connected: boolean) => void;
+  onError: (message: string) => void;
+}
+
+export interface OnlineSession {
+  playMove: (from: Position, to: Position, promotionPiece?: PromotionPieceType) => GameState | null;
+  claimDraw: () => GameState | null;
+  resync: () => Promise<void>;
+  close: () => void;
+}
+
+const isSameMove = (a: Move, b: Move) => {
+  return a.from.row === b.from.row && a.from.col === b.from.col &&
+    a.to.row === b.to.row && a.to.col === b.to.col &&
+    a.promotionPiece === b.promotionPiece;
+};
+
+// Whether `next` starts where `gameState` did and replays all of its moves first
+const continuesGame = (gameState: GameState, next: GameState) => {
+  return next.startFen === gameState.startFen &&
+    gameState.moveHistory.every((move, index) => isSameMove(move, next.moveHistory[index]));
+};
+
+// Keeps one side of an online game in step with the opponent. Moves are checked
+// with makeMove on both ends; whenever the two sides may have drifted apart
+// (reconnect, missed or rejected move) the server record fills in the moves
+// missed here, as long as it replays legally on top of them.
+export const createOnlineSession = (options: OnlineSessionOptions): OnlineSession => {
+  const { gameId, color, repository } = options;
+  let gameState = createInitialGameState();
+  let closed = false;
+  let channel: GameChannel | null = null;
+
+  const setGameState = (newGameState: GameState) => {
+    gameState = newGameState;
+    options.onStateChange(newGameState);
+  };
+
+  const send = (message: GameMessage) => {
+    channel?.send(message).catch(error => options.onError(error.message));
+  };
+
+  const reportError = (error: unknown) => {
+    if (!closed) options.onError(toRepositoryError(error).message);
+  };
+
+  const save = () => repository.save(gameId, gameState).then(() => undefined, reportError);
+
+  const resync = async () => {
+    let restored;
+    try {
+      restored = restoreGameState(await repository.load(gameId));
+    } catch (error) {
+      reportError(error);
+      return;
+    }
+    if (closed) return;
+
+    const local = gameState.moveHistory;
+    const unsavedResult = restored.moveHistory.length === local.length && isGameOver(gameState) && !isGameOver(restored);
+    if (restored.moveHistory.length < local.length || unsavedResult) {
+      // Moves (or a draw claim) made while we were offline never reached the server or the opponent
+      await save();
+      send({ type: 'sync' });
+      return;
+    }
+    // The server may only add moves to the ones already played here
+    if (local.length > 0 && !continuesGame(gameState, restored)) {
+      options.onError('The stored game does not continue this one');
+      return;
+    }
+    if (restored.moveHistory.length > local.length || restored.status !== gameState.status) {
+      setGameState(restored);
+    }
+  };
+
+  const handleMessage = (message: GameMessage) => {
+    if (closed) return;
+
+    if (message.type === 'sync') {
+      resync();
+      return;
+    }
+
+    const played = gameState.moveHistory.length;
+    if (message.ply < played) return; // Already applied
+    if (message.ply > played || gameState.currentPlayer === color) {
+      resync();
+      return;
+    }
+
+    const newGameState = makeMove(gameState, message.from, message.to, message.promotionPiece);
+    if (!newGameState) {
+      options.onError('The opponent sent an illegal move');
+      resync();
+      return;
+    }
+    setGameState(newGameState);
+  };
+
+  channel = options.openChannel(gameId, {
+    onMessage: handleMessage,
+    onStatusChange: connected => {
+      if (closed) return;
+      options.onConnectionChange(connected);
+      // Covers both the first join and coming back after a dropped connection
+      if (connected) resync();
+    },
+    onError: message => {
+      if (!closed) options.onError(message);
+    }
+  });
+
+  return {
+    playMove: (from, to, promotionPiece) => {
+      if (closed || gameState.currentPlayer !== color || isGameOver(gameState)) {
+        return null;
+      }
+
+      const ply = gameState.moveHistory.length;
+      const newGameState = makeMove(gameState, from, to, promotionPiece);
+      if (!newGameState) return null;
+
+      setGameState(newGameState);
+      send({ type: 'move', ply, from, to, promotionPiece });
+      save();
+      return newGameState;
+    },
+    claimDraw: () => {
+      const newGameState = closed ? null : claimDraw(gameState);
+      if (!newGameState) return null;
+
+      setGameState(newGameState);
+      save().then(() => send({ type: 'sync' }));
+      return newGameState;
+    },
+    resync,
+    close: () => {
+      closed = true;
+      channel?.close();
+    }
+  };
+};
+
+// Invite links carry the game id and the colour the invited player takes
+export const getInviteLink = (baseUrl: string, gameId: string, color: PieceColor): string => {
+  const url = new URL(baseUrl);
+  url.search = new URLSearchParams({ game: gameId, play: color }).toString();
+  url.hash = '';
+  return url.toString();
+};
+
+export const parseInviteLink = (search: string): OnlineGameInfo | null => {
+  const params = new URLSearchParams(search);
+  const gameId = params.get('game');
+  const color = params.get('play');
+
+  if (!gameId || (color !== 'white' && color !== 'black')) {
+    return null;
+  }
+  return { gameId, color };
+};
@@ -0,0 +1,93 @@
+import { describe, expect, it } from 'vitest';
+import { GameState } from '../types/chess';
+import { createInitialGameState, makeMove, parseSAN } from '../utils/chessLogic';
+import { moveToUci } from '../engine/uci';
+import {
+  createOpeningBook,
+  getDefaultOpeningBook,
+  OpeningImportError,
+  parseOpeningsTSV,
+  pickBookMove
+} from './openingBook';
+
+const playSAN = (...moves: string[]): GameState => moves.reduce((state, san) => {
+  const move = parseSAN(state, san)!;
+  return makeMove(state, move.from, move.to, move.promotionPiece)!;
+}, createInitialGameState());
+
+const BOOK_TSV = [
+  'eco\tname\tpgn',
+  'A40\tQueen\'s Pawn Game\t1. d4',
+  'D02\tQueen\'s Pawn Game: London System\t1. d4 d5 2. Nf3 Nf6 3. Bf4',
+  'D00\tQueen\'s Pawn Game: Accelerated London System\t1. d4 d5 2. Bf4',
+  'D04\tQueen\'s Pawn Game: Colle System\t1. d4 d5 2. Nf3 Nf6 3. e3',
+  'B00\tKing\'s Pawn Game\t1. e4'
+].join('\n');
+
+describe('opening book', () => {
+  it('reads the TSV, with or without its header, skipping move numbers and results', () => {
+    const openings = parseOpeningsTSV(BOOK_TSV);
+    expect(openings).toHaveLength(5);
+    expect(openings[1]).toEqual({
+      eco: 'D02',
+      name: 'Queen\'s Pawn Game: London System',
+      moves: ['d4', 'd5', 'Nf3', 'Nf6', 'Bf4']
+    });
+
+    expect(parseOpeningsTSV('C20\tKing\'s Pawn Game\t1.e4 e5 *\n\n')).toEqual([
+      { eco: 'C20', name: 'King\'s Pawn Game', moves: ['e4', 'e5'] }
+    ]);
+  });
+
+  it('reports the line of a bad record', () => {
+    const badCode = () => parseOpeningsTSV('eco\tname\tpgn\nZ99\tNowhere\t1. e4');
+    expect(badCode).toThrow(OpeningImportError);
+    expect(badCode).toThrow(expect.objectContaining({ message: '"Z99" is not an ECO code', line: 2 }));
+    expect(() => parseOpeningsTSV('A00\t\t1. a3')).toThrow('has no name');
+    expect(() => parseOpeningsTSV('A00\tEmpty\t')).toThrow('has no moves');
+  });
+
+  it('refuses a line with an illegal move', () => {
+    expect(() => createOpeningBook([{ eco: 'A00', name: 'Broken', moves: ['e4', 'e4'] }]))
+      .toThrow('Broken: e4 is not a legal move');
+  });
+
+  it('names the opening of a position however it was reached', () => {
+    const book = createOpeningBook(parseOpeningsTSV(BOOK_TSV));
+
+    expect(book.findOpening(playSAN('d4', 'd5', 'Nf3', 'Nf6', 'Bf4'))?.eco).toBe('D02');
+    // The London reached by a different move order
+    expect(book.findOpening(playSAN('Nf3', 'd5', 'd4', 'Nf6', 'Bf4'))?.eco).toBe('D02');
+    expect(book.findOpening(playSAN('d4', 'Nf6', 'Bf4', 'd5', 'Nf3'))?.eco).toBe('D02');
+  });
+
+  it('keeps the last named opening once the game leaves the book', () => {
+    const book = createOpeningBook(parseOpeningsTSV(BOOK_TSV));
+    expect(book.findOpening(playSAN('d4', 'd5', 'Bf4', 'c5', 'e3'))?.eco).toBe('D00');
+    expect(book.findOpening(playSAN('d4', 'e5'))?.eco).toBe('A40');
+    expect(book.findOpening(playSAN('c4'))).toBeNull();
+  });
+
+  it('weights book moves by how many lines continue with them', () => {
+    const book = createOpeningBook(parseOpeningsTSV(BOOK_TSV));
+    const position = playSAN('d4', 'd5');
+    expect(book.getBookMoves(position).map(({ move, weight }) => [moveToUci(move), weight])).toEqual([
+      ['g1f3', 2],
+      ['c1f4', 1]
+    ]);
+    expect(book.getBookMoves(playSAN('a3'))).toEqual([]);
+
+    // Nf3 takes the first two thirds of the range, Bf4 the rest
+    expect(moveToUci(pickBookMove(book, position, () => 0)!)).toBe('g1f3');
+    expect(moveToUci(pickBookMove(book, position, () => 0.66)!)).toBe('g1f3');
+    expect(moveToUci(pickBookMove(book, position, () => 0.67)!)).toBe('c1f4');
+    expect(moveToUci(pickBookMove(book, position, () => 0.999)!)).toBe('c1f4');
+    expect(pickBookMove(book, playSAN('a3'), () => 0.5)).toBeNull();
+  });
+
+  it('builds the bundled book', () => {
+    const book = getDefaultOpeningBook();
+    expect(book.getBookMoves(createInitialGameState()).length).toBeGreaterThan(1);
+    expect(book.findOpening(playSAN('e4', 'e5', 'Nf3', 'Nc6', 'Bb5'))?.name).toMatch(/Ruy Lopez/);
+  });
+});
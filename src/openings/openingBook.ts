@@ -0,0 +1,139 @@
+import { GameState, Move } from '../types/chess';
+import { createInitialGameState, getPositionKey, makeMove, parseSAN, parseUCI } from '../utils/chessLogic';
+import { moveToUci } from '../engine/uci';
+import { ECO_TSV } from './ecoData';
+
+export interface Opening {
+  eco: string; // Encyclopaedia of Chess Openings code, such as "C50"
+  name: string;
+  moves: string[]; // SAN from the initial position
+}
+
+export class OpeningImportError extends Error {
+  line: number | null; // 1-based line of the dataset
+
+  constructor(message: string, line: number | null = null) {
+    super(message);
+    this.name = 'OpeningImportError';
+    this.line = line;
+  }
+}
+
+// A move the book knows, weighted by how many of its lines continue with it
+export interface BookMove {
+  move: Move;
+  weight: number;
+}
+
+export interface OpeningBook {
+  // The opening of the position, or of the last named position the game passed through
+  findOpening: (gameState: GameState) => Opening | null;
+  getBookMoves: (gameState: GameState) => BookMove[];
+}
+
+// The Lichess chess-openings TSV columns, used when the header row is missing
+const TSV_COLUMNS = ['eco', 'name', 'pgn'];
+
+// Move numbers and a result may sit between the moves; only the SAN is kept
+const parseMoveText = (pgn: string): string[] => {
+  return pgn
+    .split(/\s+/)
+    .map(token => token.replace(/^\d+\.+/, ''))
+    .filter(token => token !== '' && !['*', '1-0', '0-1', '1/2-1/2'].includes(token));
+};
+
+export const parseOpeningsTSV = (text: string): Opening[] => {
+  const lines = text.split(/\r?\n/);
+  const firstLine = lines.findIndex(line => line.trim() !== '');
+  if (firstLine === -1) return [];
+
+  const hasHeader = lines[firstLine].startsWith('eco\t');
+  const columns = hasHeader ? lines[firstLine].split('\t').map(column => column.trim()) : TSV_COLUMNS;
+  const openings: Opening[] = [];
+
+  lines.forEach((line, index) => {
+    if (line.trim() === '' || (hasHeader && index === firstLine)) return;
+    const values = line.split('\t');
+    const fields = Object.fromEntries(columns.map((column, columnIndex) => [column, (values[columnIndex] ?? '').trim()]));
+
+    if (!/^[A-E]\d\d$/.test(fields.eco)) throw new OpeningImportError(`"${fields.eco}" is not an ECO code`, index + 1);
+    if (!fields.name) throw new OpeningImportError(`Opening ${fields.eco} has no name`, index + 1);
+    const moves = parseMoveText(fields.pgn ?? '');
+    if (moves.length === 0) throw new OpeningImportError(`${fields.name} has no moves`, index + 1);
+
+    openings.push({ eco: fields.eco, name: fields.name, moves });
+  });
+
+  return openings;
+};
+
+// Openings and book moves are both indexed by position key, so a line reached
+// by a different move order is still recognised. Where several openings end
+// on the same position, the first one listed names it.
+export const createOpeningBook = (openings: Opening[]): OpeningBook => {
+  const namedPositions = new Map<string, Opening>();
+  const continuations = new Map<string, Map<string, number>>();
+
+  for (const opening of openings) {
+    let gameState = createInitialGameState();
+    for (const san of opening.moves) {
+      const move = parseSAN(gameState, san);
+      const next = move && makeMove(gameState, move.from, move.to, move.promotionPiece);
+      if (!move || !next) {
+        throw new OpeningImportError(`${opening.name}: ${san} is not a legal move`);
+      }
+
+      const key = getPositionKey(gameState);
+      const moves = continuations.get(key) ?? new Map<string, number>();
+      const uci = moveToUci(move);
+      moves.set(uci, (moves.get(uci) ?? 0) + 1);
+      continuations.set(key, moves);
+      gameState = next;
+    }
+
+    const key = getPositionKey(gameState);
+    if (!namedPositions.has(key)) namedPositions.set(key, opening);
+  }
+
+  const findOpening = (gameState: GameState): Opening | null => {
+    const { positionHistory } = gameState;
+    for (let index = positionHistory.length - 1; index >= 0; index--) {
+      const opening = namedPositions.get(positionHistory[index]);
+      if (opening) return opening;
+    }
+    return null;
+  };
+
+  const getBookMoves = (gameState: GameState): BookMove[] => {
+    const moves = continuations.get(getPositionKey(gameState));
+    if (!moves) return [];
+
+    const bookMoves: BookMove[] = [];
+    moves.forEach((weight, uci) => {
+      const move = parseUCI(gameState, uci);
+      if (move) bookMoves.push({ move, weight });
+    });
+    return bookMoves.sort((a, b) => b.weight - a.weight);
+  };
+
+  return { findOpening, getBookMoves };
+};
+
+// A book move at random, the popular ones more often; null once out of book
+export const pickBookMove = (book: OpeningBook, gameState: GameState, random: () => number = Math.random): Move | null => {
+  const bookMoves = book.getBookMoves(gameState);
+  let remaining = random() * bookMoves.reduce((total, bookMove) => total + bookMove.weight, 0);
+  for (const bookMove of bookMoves) {
+    remaining -= bookMove.weight;
+    if (remaining < 0) return bookMove.move;
+  }
+  return bookMoves.length > 0 ? bookMoves[bookMoves.length - 1].move : null;
+};
+
+let defaultBook: OpeningBook | null = null;
+
+// The book built from the bundled dataset, on first use
+export const getDefaultOpeningBook = (): OpeningBook => {
+  if (!defaultBook) defaultBook = createOpeningBook(parseOpeningsTSV(ECO_TSV));
+  return defaultBook;
+};
@@ -0,0 +1,26 @@
+import { describe, expect, it } from 'vitest';
+import { updateGlicko2Rating } from './glicko2';
+
+describe('Glicko-2', () => {
+  it('matches the worked example in Glickman\'s paper', () => {
+    const updated = updateGlicko2Rating({ rating: 1500, deviation: 200, volatility: 0.06 }, [
+      { rating: 1400, deviation: 30, score: 1 },
+      { rating: 1550, deviation: 100, score: 0 },
+      { rating: 1700, deviation: 300, score: 0 }
+    ]);
+
+    expect(updated.rating).toBeCloseTo(1464.06, 1);
+    expect(updated.deviation).toBeCloseTo(151.52, 1);
+    expect(updated.volatility).toBeCloseTo(0.05999, 4);
+  });
+
+  it('only grows the deviation in a period without games', () => {
+    const updated = updateGlicko2Rating({ rating: 1500, deviation: 200, volatility: 0.06 }, []);
+    expect(updated.rating).toBe(1500);
+    expect(updated.deviation).toBeCloseTo(Math.sqrt((200 / 173.7178) ** 2 + 0.06 ** 2) * 173.7178, 6);
+  });
+
+  it('never lets the deviation pass that of a new player', () => {
+    expect(updateGlicko2Rating({ rating: 1500, deviation: 350, volatility: 0.06 }, []).deviation).toBe(350);
+  });
+});
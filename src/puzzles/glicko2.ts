@@ -0,0 +1,102 @@
+// Glicko-2 ratings (Glickman, "Example of the Glicko-2 system"), used for the
+// player's puzzle rating with each puzzle treated as an opponent
+
+export interface Glicko2Rating {
+  rating: number;
+  deviation: number; // How unsure the rating is; shrinks as results come in
+  volatility: number; // How erratic the player's results are
+}
+
+export interface Glicko2Result {
+  rating: number;
+  deviation: number;
+  score: number; // 1 for a win, 0.5 for a draw, 0 for a loss
+}
+
+export const DEFAULT_GLICKO2_RATING: Glicko2Rating = { rating: 1500, deviation: 350, volatility: 0.06 };
+
+// Constrains how fast volatility changes; the paper suggests 0.3 to 1.2
+const TAU = 0.5;
+const SCALE = 173.7178;
+const CONVERGENCE_TOLERANCE = 0.000001;
+const MAX_DEVIATION = 350;
+
+const g = (phi: number): number => 1 / Math.sqrt(1 + 3 * phi * phi / (Math.PI * Math.PI));
+
+const expectedScore = (mu: number, opponentMu: number, opponentPhi: number): number => {
+  return 1 / (1 + Math.exp(-g(opponentPhi) * (mu - opponentMu)));
+};
+
+// Step 5 of the paper: the new volatility, found with the Illinois algorithm
+const updateVolatility = (phi: number, sigma: number, variance: number, delta: number): number => {
+  const a = Math.log(sigma * sigma);
+  const f = (x: number) => {
+    const ex = Math.exp(x);
+    const denominator = phi * phi + variance + ex;
+    return ex * (delta * delta - denominator) / (2 * denominator * denominator) - (x - a) / (TAU * TAU);
+  };
+
+  let lower = a;
+  let upper: number;
+  if (delta * delta > phi * phi + variance) {
+    upper = Math.log(delta * delta - phi * phi - variance);
+  } else {
+    let k = 1;
+    while (f(a - k * TAU) < 0) k++;
+    upper = a - k * TAU;
+  }
+
+  let fLower = f(lower);
+  let fUpper = f(upper);
+  while (Math.abs(upper - lower) > CONVERGENCE_TOLERANCE) {
+    const next = lower + (lower - upper) * fLower / (fUpper - fLower);
+    const fNext = f(next);
+    if (fNext * fUpper <= 0) {
+      lower = upper;
+      fLower = fUpper;
+    } else {
+      fLower /= 2;
+    }
+    upper = next;
+    fUpper = fNext;
+  }
+
+  return Math.exp(lower / 2);
+};
+
+// The player's rating after one rating period with these results. With no
+// results only the deviation grows, as the rating becomes less certain.
+export const updateGlicko2Rating = (player: Glicko2Rating, results: Glicko2Result[]): Glicko2Rating => {
+  const mu = (player.rating - 1500) / SCALE;
+  const phi = player.deviation / SCALE;
+
+  if (results.length === 0) {
+    const grown = Math.sqrt(phi * phi + player.volatility * player.volatility) * SCALE;
+    return { ...player, deviation: Math.min(MAX_DEVIATION, grown) };
+  }
+
+  const opponents = results.map(result => ({
+    mu: (result.rating - 1500) / SCALE,
+    phi: result.deviation / SCALE,
+    score: result.score
+  }));
+
+  const variance = 1 / opponents.reduce((sum, opponent) => {
+    const expected = expectedScore(mu, opponent.mu, opponent.phi);
+    return sum + g(opponent.phi) ** 2 * expected * (1 - expected);
+  }, 0);
+  const improvement = opponents.reduce((sum, opponent) => {
+    return sum + g(opponent.phi) * (opponent.score - expectedScore(mu, opponent.mu, opponent.phi));
+  }, 0);
+
+  const volatility = updateVolatility(phi, player.volatility, variance, variance * improvement);
+  const phiStar = Math.sqrt(phi * phi + volatility * volatility);
+  const newPhi = 1 / Math.sqrt(1 / (phiStar * phiStar) + 1 / variance);
+  const newMu = mu + newPhi * newPhi * improvement;
+
+  return {
+    rating: newMu * SCALE + 1500,
+    deviation: Math.min(MAX_DEVIATION, newPhi * SCALE),
+    volatility
+  };
+};
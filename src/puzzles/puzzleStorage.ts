@@ -0,0 +1,69 @@
+import { DEFAULT_GLICKO2_RATING, Glicko2Rating } from './glicko2';
+
+// What the puzzle trainer remembers between visits
+export interface PuzzleProgress {
+  rating: Glicko2Rating;
+  solved: number;
+  failed: number;
+  playedIds: string[]; // Puzzles already rated, so they are not served again
+}
+
+export const DEFAULT_PUZZLE_PROGRESS: PuzzleProgress = {
+  rating: DEFAULT_GLICKO2_RATING,
+  solved: 0,
+  failed: 0,
+  playedIds: []
+};
+
+const STORAGE_KEY = 'chess.puzzles';
+
+// Bump when a field changes meaning, and convert the old shape in loadPuzzleProgress
+export const PUZZLE_PROGRESS_VERSION = 1;
+
+interface StoredPuzzleProgress {
+  version: number;
+  progress: Partial<PuzzleProgress>;
+}
+
+const isFiniteNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+const sanitizeRating = (value: unknown): Glicko2Rating => {
+  const rating = (typeof value === 'object' && value !== null ? value : {}) as Partial<Glicko2Rating>;
+  return isFiniteNumber(rating.rating) && isFiniteNumber(rating.deviation) && isFiniteNumber(rating.volatility)
+    ? { rating: rating.rating, deviation: rating.deviation, volatility: rating.volatility }
+    : DEFAULT_GLICKO2_RATING;
+};
+
+const sanitizeProgress = (value: Partial<PuzzleProgress>): PuzzleProgress => ({
+  rating: sanitizeRating(value.rating),
+  solved: isFiniteNumber(value.solved) ? value.solved : 0,
+  failed: isFiniteNumber(value.failed) ? value.failed : 0,
+  playedIds: Array.isArray(value.playedIds) ? value.playedIds.filter(id => typeof id === 'string') : []
+});
+
+export const loadPuzzleProgress = (storage: Storage = window.localStorage): PuzzleProgress => {
+  try {
+    const raw = storage.getItem(STORAGE_KEY);
+    if (!raw) return DEFAULT_PUZZLE_PROGRESS;
+
+    const stored = JSON.parse(raw);
+    // A newer, unknown version starts over rather than misreading it
+    if (typeof stored !== 'object' || stored === null || !Number.isInteger(stored.version) ||
+        stored.version > PUZZLE_PROGRESS_VERSION || typeof stored.progress !== 'object' || stored.progress === null) {
+      return DEFAULT_PUZZLE_PROGRESS;
+    }
+    return sanitizeProgress(stored.progress);
+  } catch {
+    return DEFAULT_PUZZLE_PROGRESS;
+  }
+};
+
+export const savePuzzleProgress = (progress: PuzzleProgress, storage: Storage = window.localStorage): boolean => {
+  const stored: StoredPuzzleProgress = { version: PUZZLE_PROGRESS_VERSION, progress };
+  try {
+    storage.setItem(STORAGE_KEY, JSON.stringify(stored));
+    return true;
+  } catch {
+    return false;
+  }
+};
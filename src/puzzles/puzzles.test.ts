@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest';
+import { algebraicToPosition } from '../utils/chessLogic';
+import { DEFAULT_PUZZLE_PROGRESS } from './puzzleStorage';
+import {
+  parsePuzzleCSV,
+  playOpponentMove,
+  playSolverMove,
+  Puzzle,
+  PuzzleImportError,
+  recordPuzzleResult,
+  startPuzzle,
+  takeHint
+} from './puzzles';
+import { SAMPLE_PUZZLES_CSV } from './samplePuzzles';
+
+const samples = parsePuzzleCSV(SAMPLE_PUZZLES_CSV);
+const fork = samples.find(puzzle => puzzle.id === 'sample3')!;
+
+// The puzzle after the opponent's opening move, with the solver to play
+const begin = (puzzle: Puzzle) => playOpponentMove(startPuzzle(puzzle));
+
+const play = (attempt: ReturnType<typeof begin>, uci: string) => {
+  return playSolverMove(attempt, algebraicToPosition(uci.slice(0, 2)), algebraicToPosition(uci.slice(2, 4)));
+};
+
+describe('puzzles', () => {
+  it('bundles sample puzzles whose solutions are all legal', () => {
+    expect(samples.length).toBeGreaterThan(0);
+    for (const puzzle of samples) {
+      expect(() => startPuzzle(puzzle), puzzle.id).not.toThrow();
+    }
+  });
+
+  it('rejects a puzzle whose solution has an illegal move', () => {
+    expect(() => startPuzzle({ ...fork, moves: ['d7c6', 'd5e8'] })).toThrow(PuzzleImportError);
+  });
+
+  it('plays the opponent\'s replies until the solution is complete', () => {
+    let { attempt, result } = play(begin(fork), 'd5e7');
+    expect(result).toBe('correct');
+
+    attempt = playOpponentMove(attempt);
+    ({ attempt, result } = play(attempt, 'e7c6'));
+    expect(result).toBe('solved');
+    expect(attempt).toMatchObject({ status: 'solved', hasFailed: false });
+  });
+
+  it('keeps the position after a wrong move but marks the attempt failed', () => {
+    const attempt = begin(fork);
+    const { attempt: next, result } = play(attempt, 'd5f6');
+    expect(result).toBe('incorrect');
+    expect(next.gameState).toBe(attempt.gameState);
+    expect(next.hasFailed).toBe(true);
+  });
+
+  it('counts a hint against the solve', () => {
+    const { attempt, hintSquare } = takeHint(begin(fork));
+    expect(hintSquare).toEqual(algebraicToPosition('d5'));
+    expect(attempt.hasFailed).toBe(true);
+
+    // No hint while waiting for the opponent, and so no cost
+    const waiting = startPuzzle(fork);
+    expect(takeHint(waiting)).toEqual({ attempt: waiting, hintSquare: null });
+  });
+
+  it('rates each puzzle once, as a win only when solved cleanly', () => {
+    const failed = recordPuzzleResult(DEFAULT_PUZZLE_PROGRESS, fork, false);
+    expect(failed).toMatchObject({ solved: 0, failed: 1, playedIds: ['sample3'] });
+    expect(failed.rating.rating).toBeLessThan(DEFAULT_PUZZLE_PROGRESS.rating.rating);
+    expect(recordPuzzleResult(failed, fork, true)).toBe(failed);
+
+    const solved = recordPuzzleResult(DEFAULT_PUZZLE_PROGRESS, fork, true);
+    expect(solved.rating.rating).toBeGreaterThan(DEFAULT_PUZZLE_PROGRESS.rating.rating);
+  });
+});
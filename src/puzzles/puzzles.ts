@@ -0,0 +1,245 @@
+import { GameState, PieceColor, Position, PromotionPieceType } from '../types/chess';
+import { makeMove, parseUCI } from '../utils/chessLogic';
+import { fromFEN } from '../utils/fen';
+import { moveToUci } from '../engine/uci';
+import { updateGlicko2Rating } from './glicko2';
+import { PuzzleProgress } from './puzzleStorage';
+
+// A puzzle in the Lichess puzzle database format: the position before the
+// opponent's last move, then that move and the solution, all in UCI
+export interface Puzzle {
+  id: string;
+  fen: string;
+  moves: string[]; // The opponent's move first, then the solver's and the opponent's in turn
+  rating: number;
+  ratingDeviation: number;
+  themes: string[]; // Lichess theme tags, such as "fork" or "mateIn2"
+}
+
+export class PuzzleImportError extends Error {
+  line: number | null; // 1-based line, or record number for JSON
+
+  constructor(message: string, line: number | null = null) {
+    super(message);
+    this.name = 'PuzzleImportError';
+    this.line = line;
+  }
+}
+
+// The Lichess database ships with this header
+const CSV_COLUMNS = ['PuzzleId', 'FEN', 'Moves', 'Rating', 'RatingDeviation', 'Popularity', 'NbPlays', 'Themes', 'GameUrl', 'OpeningTags'];
+const DEFAULT_RATING_DEVIATION = 75;
+
+const toPuzzle = (fields: Record<string, unknown>, line: number): Puzzle => {
+  const text = (value: unknown) => typeof value === 'string' ? value.trim() : '';
+  const list = (value: unknown) => Array.isArray(value)
+    ? value.map(String)
+    : text(value).split(/\s+/).filter(Boolean);
+
+  const id = text(fields.PuzzleId ?? fields.id);
+  const fen = text(fields.FEN ?? fields.fen);
+  const moves = list(fields.Moves ?? fields.moves);
+  const rating = Number(fields.Rating ?? fields.rating);
+  const ratingDeviation = Number(fields.RatingDeviation ?? fields.ratingDeviation ?? DEFAULT_RATING_DEVIATION);
+
+  if (!id) throw new PuzzleImportError('Puzzle without an id', line);
+  if (!fen) throw new PuzzleImportError(`Puzzle ${id} has no FEN`, line);
+  if (moves.length < 2) throw new PuzzleImportError(`Puzzle ${id} needs the opponent's move and a solution`, line);
+  if (!Number.isFinite(rating)) throw new PuzzleImportError(`Puzzle ${id} has no rating`, line);
+
+  return {
+    id,
+    fen,
+    moves,
+    rating,
+    ratingDeviation: Number.isFinite(ratingDeviation) ? ratingDeviation : DEFAULT_RATING_DEVIATION,
+    themes: list(fields.Themes ?? fields.themes)
+  };
+};
+
+// CSV as in the Lichess database, with or without its header row. No field in
+// the format contains a comma, so there is no quoting to deal with.
+export const parsePuzzleCSV = (text: string): Puzzle[] => {
+  const lines = text.split(/\r?\n/);
+  const firstLine = lines.findIndex(line => line.trim() !== '');
+  if (firstLine === -1) return [];
+
+  const hasHeader = lines[firstLine].startsWith('PuzzleId,');
+  const columns = hasHeader ? lines[firstLine].split(',').map(column => column.trim()) : CSV_COLUMNS;
+  const puzzles: Puzzle[] = [];
+
+  lines.forEach((line, index) => {
+    if (line.trim() === '' || (hasHeader && index === firstLine)) return;
+    const values = line.split(',');
+    const fields = Object.fromEntries(columns.map((column, columnIndex) => [column, values[columnIndex] ?? '']));
+    puzzles.push(toPuzzle(fields, index + 1));
+  });
+
+  return puzzles;
+};
+
+// An array of records with the CSV's column names, or camelCase ones
+// (id, fen, moves, rating, themes); moves and themes may be arrays
+export const parsePuzzleJSON = (text: string): Puzzle[] => {
+  let records: unknown;
+  try {
+    records = JSON.parse(text);
+  } catch {
+    throw new PuzzleImportError('Not valid JSON');
+  }
+  if (!Array.isArray(records)) records = [records];
+
+  return (records as unknown[]).map((record, index) => {
+    if (typeof record !== 'object' || record === null) {
+      throw new PuzzleImportError('Each puzzle must be an object', index + 1);
+    }
+    return toPuzzle(record as Record<string, unknown>, index + 1);
+  });
+};
+
+export const parsePuzzles = (text: string): Puzzle[] => {
+  return /^\s*[[{]/.test(text) ? parsePuzzleJSON(text) : parsePuzzleCSV(text);
+};
+
+// N for a "mateInN" puzzle, or the solver's move count for a plain "mate" one
+export const getMateInMoves = (puzzle: Puzzle): number | null => {
+  for (const theme of puzzle.themes) {
+    const match = /^mateIn(\d+)$/.exec(theme);
+    if (match) return Number(match[1]);
+  }
+  return puzzle.themes.includes('mate') ? Math.ceil((puzzle.moves.length - 1) / 2) : null;
+};
+
+export type PuzzleStatus = 'playing' | 'solved' | 'revealed';
+
+export interface PuzzleAttempt {
+  puzzle: Puzzle;
+  gameState: GameState;
+  ply: number; // Index in puzzle.moves of the next move to be played
+  solverColor: PieceColor;
+  status: PuzzleStatus;
+  hasFailed: boolean; // A wrong move was tried or a hint taken; the solver may still finish the puzzle
+}
+
+export type PuzzleMoveResult = 'correct' | 'incorrect' | 'solved';
+
+const applyUci = (gameState: GameState, uci: string): GameState | null => {
+  const move = parseUCI(gameState, uci);
+  return move && makeMove(gameState, move.from, move.to, move.promotionPiece);
+};
+
+// Set up a puzzle before the opponent's first move. Every move of the solution
+// is checked up front, so a broken puzzle fails here and not halfway through.
+export const startPuzzle = (puzzle: Puzzle): PuzzleAttempt => {
+  let gameState: GameState;
+  try {
+    gameState = fromFEN(puzzle.fen);
+  } catch (error) {
+    throw new PuzzleImportError(`Puzzle ${puzzle.id}: ${(error as Error).message}`);
+  }
+
+  let state: GameState | null = gameState;
+  for (const uci of puzzle.moves) {
+    state = applyUci(state, uci);
+    if (!state) throw new PuzzleImportError(`Puzzle ${puzzle.id}: ${uci} is not a legal move`);
+  }
+
+  return {
+    puzzle,
+    gameState,
+    ply: 0,
+    solverColor: gameState.currentPlayer === 'white' ? 'black' : 'white',
+    status: 'playing',
+    hasFailed: false
+  };
+};
+
+export const isOpponentTurn = (attempt: PuzzleAttempt): boolean => {
+  return attempt.status === 'playing' && attempt.gameState.currentPlayer !== attempt.solverColor;
+};
+
+export const playOpponentMove = (attempt: PuzzleAttempt): PuzzleAttempt => {
+  if (!isOpponentTurn(attempt)) return attempt;
+  const gameState = applyUci(attempt.gameState, attempt.puzzle.moves[attempt.ply])!;
+  return { ...attempt, gameState, ply: attempt.ply + 1 };
+};
+
+// Only the solution's move counts, except that in a mating puzzle any mate does.
+// A wrong move leaves the position as it was.
+export const playSolverMove = (
+  attempt: PuzzleAttempt,
+  from: Position,
+  to: Position,
+  promotionPiece?: PromotionPieceType
+): { attempt: PuzzleAttempt; result: PuzzleMoveResult } => {
+  const gameState = makeMove(attempt.gameState, from, to, promotionPiece);
+  if (attempt.status !== 'playing' || isOpponentTurn(attempt) || !gameState) {
+    return { attempt, result: 'incorrect' };
+  }
+
+  const played = moveToUci(gameState.moveHistory[gameState.moveHistory.length - 1]);
+  const isMate = gameState.status === 'checkmate' && getMateInMoves(attempt.puzzle) !== null;
+  if (played !== attempt.puzzle.moves[attempt.ply] && !isMate) {
+    return { attempt: { ...attempt, hasFailed: true }, result: 'incorrect' };
+  }
+
+  const ply = attempt.ply + 1;
+  const isSolved = isMate || ply >= attempt.puzzle.moves.length;
+  return {
+    attempt: { ...attempt, gameState, ply, status: isSolved ? 'solved' : 'playing' },
+    result: isSolved ? 'solved' : 'correct'
+  };
+};
+
+// The square of the piece the solution moves next
+export const getHintSquare = (attempt: PuzzleAttempt): Position | null => {
+  if (attempt.status !== 'playing' || isOpponentTurn(attempt)) return null;
+  const move = parseUCI(attempt.gameState, attempt.puzzle.moves[attempt.ply]);
+  return move ? move.from : null;
+};
+
+// Show the hint; the puzzle is then no longer solved cleanly, as with a wrong move
+export const takeHint = (attempt: PuzzleAttempt): { attempt: PuzzleAttempt; hintSquare: Position | null } => {
+  const hintSquare = getHintSquare(attempt);
+  return { attempt: hintSquare ? { ...attempt, hasFailed: true } : attempt, hintSquare };
+};
+
+// Play out the rest of the solution; the puzzle counts as failed
+export const revealSolution = (attempt: PuzzleAttempt): PuzzleAttempt => {
+  let gameState = attempt.gameState;
+  for (const uci of attempt.puzzle.moves.slice(attempt.ply)) {
+    gameState = applyUci(gameState, uci)!;
+  }
+  return { ...attempt, gameState, ply: attempt.puzzle.moves.length, status: 'revealed', hasFailed: true };
+};
+
+// Rate the player against the puzzle, once per puzzle: solving it cleanly is a
+// win, anything else a loss
+export const recordPuzzleResult = (progress: PuzzleProgress, puzzle: Puzzle, isSolved: boolean): PuzzleProgress => {
+  if (progress.playedIds.includes(puzzle.id)) return progress;
+
+  return {
+    rating: updateGlicko2Rating(progress.rating, [
+      { rating: puzzle.rating, deviation: puzzle.ratingDeviation, score: isSolved ? 1 : 0 }
+    ]),
+    solved: progress.solved + (isSolved ? 1 : 0),
+    failed: progress.failed + (isSolved ? 0 : 1),
+    playedIds: [...progress.playedIds, puzzle.id]
+  };
+};
+
+// The unplayed puzzle closest to the player's rating; once all have been played,
+// the closest other than the current one
+export const pickNextPuzzle = (puzzles: Puzzle[], progress: PuzzleProgress, currentId?: string): Puzzle | null => {
+  const unplayed = puzzles.filter(puzzle => !progress.playedIds.includes(puzzle.id));
+  const others = puzzles.filter(puzzle => puzzle.id !== currentId);
+  const candidates = unplayed.length > 0 ? unplayed : others.length > 0 ? others : puzzles;
+
+  let best: Puzzle | null = null;
+  for (const puzzle of candidates) {
+    if (!best || Math.abs(puzzle.rating - progress.rating.rating) < Math.abs(best.rating - progress.rating.rating)) {
+      best = puzzle;
+    }
+  }
+  return best;
+};
@@ -0,0 +1,8 @@
+// A few puzzles to start with, in the Lichess database's CSV format. Larger
+// sets can be imported from the puzzle trainer.
+export const SAMPLE_PUZZLES_CSV = `PuzzleId,FEN,Moves,Rating,RatingDeviation,Popularity,NbPlays,Themes,GameUrl,OpeningTags
+sample1,r1bqkbnr/pppp1ppp/2n5/4p2Q/2B1P3/8/PPPP1PPP/RNB1K1NR b KQkq - 3 3,g8f6 h5f7,600,80,90,100,mateIn1 opening short,,
+sample2,3q2k1/5ppp/8/8/8/8/2Q2PPP/4R1K1 b - - 0 1,d8d4 e1e8,900,80,90,100,mateIn1 backRankMate endgame short,,
+sample3,5rk1/pp1q1ppp/8/3N4/8/8/PPP2PPP/R1B3K1 b - - 0 1,d7c6 d5e7 g8h8 e7c6,1200,80,90,100,fork advantage middlegame short,,
+sample4,3q1r1k/pp4pp/7N/3Q4/8/8/PP4PP/6K1 b - - 0 1,d8d6 d5g8 f8g8 h6f7,1600,80,90,100,mateIn2 smotheredMate middlegame short,,
+`;
@@ -0,0 +1,44 @@
+import React, { createContext, useCallback, useContext, useEffect, useState } from 'react';
+import { DEFAULT_SETTINGS, loadSettings, saveSettings, Settings } from './settings';
+
+interface SettingsContextValue {
+  settings: Settings;
+  updateSettings: (changes: Partial<Settings>) => void;
+  resetSettings: () => void;
+}
+
+// Components outside a provider, like server renders, get the defaults
+const SettingsContext = createContext<SettingsContextValue>({
+  settings: DEFAULT_SETTINGS,
+  updateSettings: () => {},
+  resetSettings: () => {}
+});
+
+interface SettingsProviderProps {
+  children: React.ReactNode;
+  storage?: Storage;
+}
+
+export const SettingsProvider: React.FC<SettingsProviderProps> = ({ children, storage }) => {
+  const [settings, setSettings] = useState(() => loadSettings(storage));
+
+  useEffect(() => {
+    saveSettings(settings, storage);
+  }, [settings, storage]);
+
+  const updateSettings = useCallback((changes: Partial<Settings>) => {
+    setSettings(current => ({ ...current, ...changes }));
+  }, []);
+
+  const resetSettings = useCallback(() => {
+    setSettings(DEFAULT_SETTINGS);
+  }, []);
+
+  return (
+    <SettingsContext.Provider value={{ settings, updateSettings, resetSettings }}>
+      {children}
+    </SettingsContext.Provider>
+  );
+};
+
+export const useSettings = (): SettingsContextValue => useContext(SettingsContext);
@@ -0,0 +1,112 @@
+export type BoardThemeId = 'brown' | 'green' | 'blue' | 'gray';
+export type PieceSetId = 'unicode' | 'minimal';
+export type AnimationSpeed = 'off' | 'fast' | 'normal' | 'slow';
+
+export interface Settings {
+  boardTheme: BoardThemeId;
+  pieceSet: PieceSetId;
+  showLegalMoves: boolean;
+  showCoordinates: boolean;
+  autoQueen: boolean; // Promote to a queen without asking
+  soundEnabled: boolean;
+  animationSpeed: AnimationSpeed;
+}
+
+export const BOARD_THEMES: { id: BoardThemeId; name: string }[] = [
+  { id: 'brown', name: 'Brown' },
+  { id: 'green', name: 'Green' },
+  { id: 'blue', name: 'Blue' },
+  { id: 'gray', name: 'Gray' }
+];
+
+export const PIECE_SETS: { id: PieceSetId; name: string }[] = [
+  { id: 'unicode', name: 'Classic (Unicode)' },
+  { id: 'minimal', name: 'Minimal (SVG)' }
+];
+
+export const ANIMATION_SPEEDS: { id: AnimationSpeed; name: string; duration: number }[] = [
+  { id: 'off', name: 'Off', duration: 0 },
+  { id: 'fast', name: 'Fast', duration: 100 },
+  { id: 'normal', name: 'Normal', duration: 200 },
+  { id: 'slow', name: 'Slow', duration: 400 }
+];
+
+export const DEFAULT_SETTINGS: Settings = {
+  boardTheme: 'brown',
+  pieceSet: 'unicode',
+  showLegalMoves: true,
+  showCoordinates: true,
+  autoQueen: false,
+  soundEnabled: false,
+  animationSpeed: 'normal'
+};
+
+export const getAnimationDuration = (speed: AnimationSpeed): number => {
+  return ANIMATION_SPEEDS.find(option => option.id === speed)?.duration ?? 0;
+};
+
+const STORAGE_KEY = 'chess.settings';
+
+// Bump when a field changes meaning, and teach migrateSettings the old shape
+export const SETTINGS_VERSION = 1;
+
+interface StoredSettings {
+  version: number;
+  settings: Partial<Settings>;
+}
+
+const isOneOf = <T extends string>(value: unknown, options: { id: T }[]): value is T => {
+  return options.some(option => option.id === value);
+};
+
+// Keep the valid fields of whatever was stored and fill in the rest with defaults,
+// so a hand-edited or half-written entry never breaks the app
+const sanitizeSettings = (value: Partial<Settings>): Settings => {
+  const pickBoolean = (key: 'showLegalMoves' | 'showCoordinates' | 'autoQueen' | 'soundEnabled') =>
+    typeof value[key] === 'boolean' ? value[key] as boolean : DEFAULT_SETTINGS[key];
+
+  return {
+    boardTheme: isOneOf(value.boardTheme, BOARD_THEMES) ? value.boardTheme : DEFAULT_SETTINGS.boardTheme,
+    pieceSet: isOneOf(value.pieceSet, PIECE_SETS) ? value.pieceSet : DEFAULT_SETTINGS.pieceSet,
+    showLegalMoves: pickBoolean('showLegalMoves'),
+    showCoordinates: pickBoolean('showCoordinates'),
+    autoQueen: pickBoolean('autoQueen'),
+    soundEnabled: pickBoolean('soundEnabled'),
+    animationSpeed: isOneOf(value.animationSpeed, ANIMATION_SPEEDS)
+      ? value.animationSpeed
+      : DEFAULT_SETTINGS.animationSpeed
+  };
+};
+
+// Upgrade settings saved by an older version. Version 1 is the first, so there
+// is nothing to convert yet; a newer, unknown version falls back to the defaults.
+const migrateSettings = (stored: StoredSettings): Partial<Settings> => {
+  return stored.version <= SETTINGS_VERSION ? stored.settings : {};
+};
+
+export const loadSettings = (storage: Storage = window.localStorage): Settings => {
+  try {
+    const raw = storage.getItem(STORAGE_KEY);
+    if (!raw) return DEFAULT_SETTINGS;
+
+    const stored = JSON.parse(raw);
+    if (typeof stored !== 'object' || stored === null || !Number.isInteger(stored.version) ||
+        typeof stored.settings !== 'object' || stored.settings === null) {
+      return DEFAULT_SETTINGS;
+    }
+    return sanitizeSettings(migrateSettings(stored));
+  } catch {
+    // Unreadable or unavailable storage: play with the defaults
+    return DEFAULT_SETTINGS;
+  }
+};
+
+export const saveSettings = (settings: Settings, storage: Storage = window.localStorage): boolean => {
+  const stored: StoredSettings = { version: SETTINGS_VERSION, settings };
+  try {
+    storage.setItem(STORAGE_KEY, JSON.stringify(stored));
+    return true;
+  } catch {
+    return false;
+  }
+};
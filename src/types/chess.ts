@@ -1,6 +1,16 @@
 export type PieceType = 'pawn' | 'rook' | 'knight' | 'bishop' | 'queen' | 'king';
 export type PieceColor = 'white' | 'black';
-export type GameStatus = 'active' | 'check' | 'checkmate' | 'stalemate' | 'draw';
+export type PromotionPieceType = 'queen' | 'rook' | 'bishop' | 'knight';
+// Which side is at the bottom of the board; 'auto' follows the side to move
+export type BoardOrientation = PieceColor | 'auto';
+export type GameStatus = 'active' | 'check' | 'checkmate' | 'stalemate' | 'draw' | 'timeout';
+export type DrawReason =
+  | 'threefoldRepetition'
+  | 'fivefoldRepetition'
+  | 'fiftyMoveRule'
+  | 'seventyFiveMoveRule'
+  | 'insufficientMaterial'
+  | 'timeoutVsInsufficientMaterial';
 
 export interface ChessPiece {
   type: PieceType;
@@ -23,7 +33,15 @@ export interface Move {
   isCheckmate?: boolean;
   isCastling?: boolean;
   isEnPassant?: boolean;
-  promotionPiece?: PieceType;
+  promotionPiece?: PromotionPieceType;
+}
+
+// Files (0 = a … 7 = h) of the rooks each castling right belongs to
+export interface CastlingRookFiles {
+  whiteKingSide: number;
+  whiteQueenSide: number;
+  blackKingSide: number;
+  blackQueenSide: number;
 }
 
 export interface GameState {
@@ -44,6 +62,11 @@ export interface GameState {
   enPassantTarget: Position | null;
   halfMoveClock: number;
   fullMoveNumber: number;
+  startFen?: string; // Set when the game did not begin from the standard position
+  // Set for Chess960 games, where castling moves the king onto the castling rook's square
+  castlingRookFiles?: CastlingRookFiles;
+  positionHistory: string[]; // Position keys of every position reached, current one last
+  drawReason?: DrawReason;
 }
 
 export interface ApiResponse<T> {
@@ -58,6 +81,8 @@ export interface GameApiState {
   currentPlayer: PieceColor;
   status: GameStatus;
   moveHistory: Move[];
+  startFen?: string; // Position the move history starts from, when not the standard one
+  drawReason?: DrawReason;
   createdAt: string;
   updatedAt: string;
 }
\ No newline at end of file
@@ -0,0 +1,71 @@
+import { ChessPiece, DrawReason, GameState, Move, PieceColor, Position } from '../types/chess';
+import { positionToAlgebraic } from './chessLogic';
+
+// Spoken descriptions of the board and the game, for screen readers
+
+export const DRAW_REASON_LABELS: Record<DrawReason, string> = {
+  threefoldRepetition: 'threefold repetition',
+  fivefoldRepetition: 'fivefold repetition',
+  fiftyMoveRule: 'the 50-move rule',
+  seventyFiveMoveRule: 'the 75-move rule',
+  insufficientMaterial: 'insufficient material',
+  timeoutVsInsufficientMaterial: 'timeout against insufficient material'
+};
+
+const colorName = (color: PieceColor): string => color === 'white' ? 'White' : 'Black';
+
+export const describePiece = (piece: ChessPiece): string => `${piece.color} ${piece.type}`;
+
+// "f3, white knight" or "f3, empty"
+export const describeSquare = (position: Position, piece: ChessPiece | null): string => {
+  return `${positionToAlgebraic(position)}, ${piece ? describePiece(piece) : 'empty'}`;
+};
+
+export const describeMove = (move: Move): string => {
+  const player = colorName(move.piece.color);
+  if (move.isCastling) {
+    return `${player} castles ${move.to.col > move.from.col ? 'kingside' : 'queenside'}`;
+  }
+
+  let description = `${player} ${move.piece.type} ${positionToAlgebraic(move.from)} to ${positionToAlgebraic(move.to)}`;
+  if (move.capturedPiece) {
+    description += `, takes ${move.capturedPiece.type}${move.isEnPassant ? ' en passant' : ''}`;
+  }
+  if (move.promotionPiece) {
+    description += `, promotes to ${move.promotionPiece}`;
+  }
+  return description;
+};
+
+// The result of a finished game, or null while it is still going on
+export const describeResult = (gameState: GameState): string | null => {
+  const { status, currentPlayer, drawReason } = gameState;
+  const opponent = currentPlayer === 'white' ? 'black' : 'white';
+
+  switch (status) {
+    case 'checkmate':
+      return `Checkmate. ${colorName(opponent)} wins.`;
+    case 'timeout':
+      return `${colorName(currentPlayer)} ran out of time. ${colorName(opponent)} wins.`;
+    case 'stalemate':
+      return 'Stalemate. The game is a draw.';
+    case 'draw':
+      return drawReason ? `Draw by ${DRAW_REASON_LABELS[drawReason]}.` : 'The game is a draw.';
+    default:
+      return null;
+  }
+};
+
+// What to announce after the last move: the move, then check or the result
+export const getMoveAnnouncement = (gameState: GameState): string => {
+  const lastMove = gameState.moveHistory[gameState.moveHistory.length - 1];
+  const parts = lastMove ? [`${describeMove(lastMove)}.`] : [];
+
+  const result = describeResult(gameState);
+  if (result) {
+    parts.push(result);
+  } else if (gameState.status === 'check') {
+    parts.push('Check.');
+  }
+  return parts.join(' ');
+};
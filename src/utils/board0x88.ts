@@ -0,0 +1,467 @@
+import { CastlingRookFiles, ChessPiece, GameState, PieceColor, PieceType, Position, PromotionPieceType } from '../types/chess';
+
+// Internal 0x88 board used for move generation and attack detection.
+// Squares are numbered row * 16 + col (row 0 = rank 8, matching Position),
+// so `square & 0x88` is non-zero exactly when a step leaves the board.
+
+export const PAWN = 1;
+export const KNIGHT = 2;
+export const BISHOP = 3;
+export const ROOK = 4;
+export const QUEEN = 5;
+export const KING = 6;
+export const BLACK = 8; // Colour bit; white pieces have it clear
+
+const TYPE_MASK = 7;
+
+const WHITE_KING_SIDE = 1;
+const WHITE_QUEEN_SIDE = 2;
+const BLACK_KING_SIDE = 4;
+const BLACK_QUEEN_SIDE = 8;
+
+export const FLAG_EN_PASSANT = 1;
+export const FLAG_CASTLING = 2;
+export const FLAG_DOUBLE_PUSH = 4;
+
+const PIECE_TYPES: PieceType[] = ['pawn', 'pawn', 'knight', 'bishop', 'rook', 'queen', 'king'];
+const PROMOTION_CODES = [QUEEN, ROOK, BISHOP, KNIGHT];
+
+const KNIGHT_OFFSETS = [-33, -31, -18, -14, 14, 18, 31, 33];
+const BISHOP_OFFSETS = [-17, -15, 15, 17];
+const ROOK_OFFSETS = [-16, -1, 1, 16];
+const KING_OFFSETS = [-17, -16, -15, -1, 1, 15, 16, 17];
+
+const E1 = 0x74;
+const E8 = 0x04;
+
+// Castling rights in the order of the rook squares in Board0x88.castlingRooks
+const CASTLING_RIGHTS = [WHITE_KING_SIDE, WHITE_QUEEN_SIDE, BLACK_KING_SIDE, BLACK_QUEEN_SIDE];
+const STANDARD_CASTLING_ROOKS = [0x77, 0x70, 0x07, 0x00];
+
+// Castling rights that survive a move touching each square
+const createCastlingMasks = (kingSquares: number[], rookSquares: number[]): number[] => {
+  const masks = new Array<number>(128).fill(15);
+  masks[kingSquares[0]] &= ~(WHITE_KING_SIDE | WHITE_QUEEN_SIDE);
+  masks[kingSquares[1]] &= ~(BLACK_KING_SIDE | BLACK_QUEEN_SIDE);
+  rookSquares.forEach((square, index) => {
+    masks[square] &= ~CASTLING_RIGHTS[index];
+  });
+  return masks;
+};
+
+const STANDARD_CASTLING_MASKS = createCastlingMasks([E1, E8], STANDARD_CASTLING_ROOKS);
+
+export interface Board0x88 {
+  squares: Int8Array;
+  side: number; // 0 for white, BLACK for black
+  castling: number;
+  epSquare: number; // -1 when there is no en passant target
+  kings: [number, number]; // White and black king squares, -1 if absent
+  chess960: boolean; // Castling moves are then encoded as the king moving onto its rook
+  castlingRooks: number[]; // Rook squares of the castling rights, in CASTLING_RIGHTS order
+  castlingMasks: number[];
+}
+
+export interface InternalMove {
+  from: number;
+  to: number;
+  piece: number;
+  captured: number;
+  promotion: number;
+  flags: number;
+}
+
+export interface UndoInfo {
+  castling: number;
+  epSquare: number;
+}
+
+export const toSquare = (position: Position): number => position.row * 16 + position.col;
+
+export const toPosition = (square: number): Position => ({ row: square >> 4, col: square & 7 });
+
+export const toPieceCode = (piece: ChessPiece): number => {
+  return PIECE_TYPES.indexOf(piece.type, 1) | (piece.color === 'black' ? BLACK : 0);
+};
+
+export const toChessPiece = (code: number): ChessPiece => ({
+  type: PIECE_TYPES[code & TYPE_MASK],
+  color: code & BLACK ? 'black' : 'white'
+});
+
+export const toPromotionPiece = (code: number): PromotionPieceType | undefined => {
+  return code ? PIECE_TYPES[code & TYPE_MASK] as PromotionPieceType : undefined;
+};
+
+const colorBit = (color: PieceColor): number => color === 'white' ? 0 : BLACK;
+
+// Build the internal board; `board` may differ from gameState.board when probing positions
+export const createBoard0x88 = (
+  board: (ChessPiece | null)[][],
+  gameState: Pick<GameState, 'currentPlayer' | 'castlingRights' | 'enPassantTarget' | 'castlingRookFiles'>
+): Board0x88 => {
+  const squares = new Int8Array(128);
+  const kings: [number, number] = [-1, -1];
+
+  for (let row = 0; row < 8; row++) {
+    for (let col = 0; col < 8; col++) {
+      const piece = board[row][col];
+      if (!piece) continue;
+
+      const square = row * 16 + col;
+      const code = toPieceCode(piece);
+      squares[square] = code;
+      if ((code & TYPE_MASK) === KING) {
+        kings[code & BLACK ? 1 : 0] = square;
+      }
+    }
+  }
+
+  const { castlingRights } = gameState;
+  const castling =
+    (castlingRights.whiteKingSide ? WHITE_KING_SIDE : 0) |
+    (castlingRights.whiteQueenSide ? WHITE_QUEEN_SIDE : 0) |
+    (castlingRights.blackKingSide ? BLACK_KING_SIDE : 0) |
+    (castlingRights.blackQueenSide ? BLACK_QUEEN_SIDE : 0);
+
+  return {
+    squares,
+    side: colorBit(gameState.currentPlayer),
+    castling,
+    epSquare: gameState.enPassantTarget ? toSquare(gameState.enPassantTarget) : -1,
+    kings,
+    ...getCastlingSetup(gameState.castlingRookFiles, kings)
+  };
+};
+
+// In Chess960 the rooks can start on any file, and the king with them
+const getCastlingSetup = (rookFiles: CastlingRookFiles | undefined, kings: [number, number]) => {
+  if (!rookFiles) {
+    return { chess960: false, castlingRooks: STANDARD_CASTLING_ROOKS, castlingMasks: STANDARD_CASTLING_MASKS };
+  }
+
+  const castlingRooks = [
+    0x70 + rookFiles.whiteKingSide,
+    0x70 + rookFiles.whiteQueenSide,
+    rookFiles.blackKingSide,
+    rookFiles.blackQueenSide
+  ];
+  // While a side can still castle its king has not moved, so it stands on its starting square
+  return { chess960: true, castlingRooks, castlingMasks: createCastlingMasks(kings, castlingRooks) };
+};
+
+const isAttackedBySlider = (
+  squares: Int8Array,
+  square: number,
+  offsets: number[],
+  attacker: number,
+  queen: number
+): boolean => {
+  for (const offset of offsets) {
+    let target = square + offset;
+    while (!(target & 0x88)) {
+      const piece = squares[target];
+      if (piece) {
+        if (piece === attacker || piece === queen) return true;
+        break;
+      }
+      target += offset;
+    }
+  }
+  return false;
+};
+
+// Looks outward from the square for each attacker type instead of generating moves
+export const isAttacked = (b: Board0x88, square: number, byColor: number): boolean => {
+  const { squares } = b;
+
+  // Pawns attack diagonally forward, so look diagonally backward from the square
+  const pawn = PAWN | byColor;
+  const pawnSources = byColor === 0 ? [square + 15, square + 17] : [square - 15, square - 17];
+  for (const source of pawnSources) {
+    if (!(source & 0x88) && squares[source] === pawn) return true;
+  }
+
+  const knight = KNIGHT | byColor;
+  for (const offset of KNIGHT_OFFSETS) {
+    const source = square + offset;
+    if (!(source & 0x88) && squares[source] === knight) return true;
+  }
+
+  const king = KING | byColor;
+  for (const offset of KING_OFFSETS) {
+    const source = square + offset;
+    if (!(source & 0x88) && squares[source] === king) return true;
+  }
+
+  const queen = QUEEN | byColor;
+  return isAttackedBySlider(squares, square, BISHOP_OFFSETS, BISHOP | byColor, queen) ||
+    isAttackedBySlider(squares, square, ROOK_OFFSETS, ROOK | byColor, queen);
+};
+
+export const isKingAttacked = (b: Board0x88, side: number): boolean => {
+  const kingSquare = b.kings[side ? 1 : 0];
+  return kingSquare !== -1 && isAttacked(b, kingSquare, side ^ BLACK);
+};
+
+const addMove = (
+  moves: InternalMove[],
+  from: number,
+  to: number,
+  piece: number,
+  captured: number,
+  flags = 0
+) => {
+  moves.push({ from, to, piece, captured, promotion: 0, flags });
+};
+
+const addPawnMove = (moves: InternalMove[], from: number, to: number, piece: number, captured: number) => {
+  const row = to >> 4;
+  if (row === 0 || row === 7) {
+    for (const promotion of PROMOTION_CODES) {
+      moves.push({ from, to, piece, captured, promotion: promotion | (piece & BLACK), flags: 0 });
+    }
+  } else {
+    addMove(moves, from, to, piece, captured);
+  }
+};
+
+const generatePawnMoves = (b: Board0x88, from: number, piece: number, moves: InternalMove[]) => {
+  const { squares, side } = b;
+  const direction = side === 0 ? -16 : 16;
+  const startRow = side === 0 ? 6 : 1;
+
+  const oneForward = from + direction;
+  if (!(oneForward & 0x88) && !squares[oneForward]) {
+    addPawnMove(moves, from, oneForward, piece, 0);
+
+    const twoForward = oneForward + direction;
+    if (from >> 4 === startRow && !squares[twoForward]) {
+      addMove(moves, from, twoForward, piece, 0, FLAG_DOUBLE_PUSH);
+    }
+  }
+
+  for (const to of [oneForward - 1, oneForward + 1]) {
+    if (to & 0x88) continue;
+
+    const target = squares[to];
+    if (target && (target & BLACK) !== side) {
+      addPawnMove(moves, from, to, piece, target);
+    } else if (to === b.epSquare) {
+      addMove(moves, from, to, piece, PAWN | (side ^ BLACK), FLAG_EN_PASSANT);
+    }
+  }
+};
+
+const generateStepMoves = (b: Board0x88, from: number, piece: number, offsets: number[], moves: InternalMove[]) => {
+  for (const offset of offsets) {
+    const to = from + offset;
+    if (to & 0x88) continue;
+
+    const target = b.squares[to];
+    if (!target || (target & BLACK) !== b.side) {
+      addMove(moves, from, to, piece, target);
+    }
+  }
+};
+
+const generateSlidingMoves = (b: Board0x88, from: number, piece: number, offsets: number[], moves: InternalMove[]) => {
+  for (const offset of offsets) {
+    let to = from + offset;
+    while (!(to & 0x88)) {
+      const target = b.squares[to];
+      if (target) {
+        if ((target & BLACK) !== b.side) {
+          addMove(moves, from, to, piece, target);
+        }
+        break;
+      }
+      addMove(moves, from, to, piece, 0);
+      to += offset;
+    }
+  }
+};
+
+interface CastlingSquares {
+  rookFrom: number;
+  kingTo: number;
+  rookTo: number;
+}
+
+// Wherever they start, the king ends on the g- or c-file and the rook next to it
+// on the f- or d-file
+const getCastlingSquares = (b: Board0x88, color: number, kingFrom: number, kingSide: boolean): CastlingSquares => {
+  const backRow = kingFrom & 0x70;
+  return {
+    rookFrom: b.castlingRooks[(color ? 2 : 0) + (kingSide ? 0 : 1)],
+    kingTo: backRow + (kingSide ? 6 : 2),
+    rookTo: backRow + (kingSide ? 5 : 3)
+  };
+};
+
+const getMoveCastlingSquares = (b: Board0x88, move: InternalMove): CastlingSquares => {
+  // Both encodings, king to its target or king onto the rook, point towards the rook
+  return getCastlingSquares(b, move.piece & BLACK, move.from, move.to > move.from);
+};
+
+// Every square from `a` to `b` is empty, apart from the king and rook that are castling
+const isRangeEmpty = (squares: Int8Array, a: number, b: number, kingFrom: number, rookFrom: number): boolean => {
+  for (let square = Math.min(a, b); square <= Math.max(a, b); square++) {
+    if (squares[square] && square !== kingFrom && square !== rookFrom) return false;
+  }
+  return true;
+};
+
+const generateCastlingMoves = (b: Board0x88, from: number, piece: number, moves: InternalMove[]) => {
+  const { squares, side } = b;
+  const homeSquare = side === 0 ? E1 : E8;
+  if (b.chess960 ? (from & 0x70) !== (homeSquare & 0x70) : from !== homeSquare) return;
+
+  const opponent = side ^ BLACK;
+  if (isAttacked(b, from, opponent)) return;
+
+  for (const kingSide of [true, false]) {
+    const right = side === 0
+      ? (kingSide ? WHITE_KING_SIDE : WHITE_QUEEN_SIDE)
+      : (kingSide ? BLACK_KING_SIDE : BLACK_QUEEN_SIDE);
+    if (!(b.castling & right)) continue;
+
+    const { rookFrom, kingTo, rookTo } = getCastlingSquares(b, side, from, kingSide);
+    if (squares[rookFrom] !== (ROOK | side) ||
+        !isRangeEmpty(squares, from, kingTo, from, rookFrom) ||
+        !isRangeEmpty(squares, rookFrom, rookTo, from, rookFrom)) {
+      continue;
+    }
+
+    // The king may not pass through check. Lift both pieces so that neither
+    // hides an attack on a square the king crosses.
+    squares[from] = 0;
+    squares[rookFrom] = 0;
+    let isSafe = true;
+    for (let square = Math.min(from, kingTo); square <= Math.max(from, kingTo) && isSafe; square++) {
+      isSafe = !isAttacked(b, square, opponent);
+    }
+    squares[from] = piece;
+    squares[rookFrom] = ROOK | side;
+
+    if (isSafe) {
+      addMove(moves, from, b.chess960 ? rookFrom : kingTo, piece, 0, FLAG_CASTLING);
+    }
+  }
+};
+
+const generatePieceMoves = (b: Board0x88, from: number, moves: InternalMove[]) => {
+  const piece = b.squares[from];
+
+  switch (piece & TYPE_MASK) {
+    case PAWN:
+      generatePawnMoves(b, from, piece, moves);
+      break;
+    case KNIGHT:
+      generateStepMoves(b, from, piece, KNIGHT_OFFSETS, moves);
+      break;
+    case BISHOP:
+      generateSlidingMoves(b, from, piece, BISHOP_OFFSETS, moves);
+      break;
+    case ROOK:
+      generateSlidingMoves(b, from, piece, ROOK_OFFSETS, moves);
+      break;
+    case QUEEN:
+      generateSlidingMoves(b, from, piece, KING_OFFSETS, moves);
+      break;
+    case KING:
+      generateStepMoves(b, from, piece, KING_OFFSETS, moves);
+      generateCastlingMoves(b, from, piece, moves);
+      break;
+  }
+};
+
+export const makeInternalMove = (b: Board0x88, move: InternalMove): UndoInfo => {
+  const { squares } = b;
+  const undo: UndoInfo = { castling: b.castling, epSquare: b.epSquare };
+
+  if (move.flags & FLAG_CASTLING) {
+    // The king and rook may land on each other's squares, so lift both first
+    const { rookFrom, kingTo, rookTo } = getMoveCastlingSquares(b, move);
+    const rook = squares[rookFrom];
+    squares[move.from] = 0;
+    squares[rookFrom] = 0;
+    squares[kingTo] = move.piece;
+    squares[rookTo] = rook;
+    b.kings[b.side ? 1 : 0] = kingTo;
+  } else {
+    squares[move.to] = move.promotion || move.piece;
+    squares[move.from] = 0;
+
+    if (move.flags & FLAG_EN_PASSANT) {
+      squares[move.to + (b.side === 0 ? 16 : -16)] = 0;
+    }
+    if ((move.piece & TYPE_MASK) === KING) {
+      b.kings[b.side ? 1 : 0] = move.to;
+    }
+  }
+
+  b.castling &= b.castlingMasks[move.from] & b.castlingMasks[move.to];
+  b.epSquare = move.flags & FLAG_DOUBLE_PUSH ? (move.from + move.to) >> 1 : -1;
+  b.side ^= BLACK;
+
+  return undo;
+};
+
+export const unmakeInternalMove = (b: Board0x88, move: InternalMove, undo: UndoInfo) => {
+  const { squares } = b;
+  b.side ^= BLACK;
+  b.castling = undo.castling;
+  b.epSquare = undo.epSquare;
+
+  if (move.flags & FLAG_CASTLING) {
+    const { rookFrom, kingTo, rookTo } = getMoveCastlingSquares(b, move);
+    const rook = squares[rookTo];
+    squares[kingTo] = 0;
+    squares[rookTo] = 0;
+    squares[move.from] = move.piece;
+    squares[rookFrom] = rook;
+  } else if (move.flags & FLAG_EN_PASSANT) {
+    squares[move.from] = move.piece;
+    squares[move.to] = 0;
+    squares[move.to + (b.side === 0 ? 16 : -16)] = move.captured;
+  } else {
+    squares[move.from] = move.piece;
+    squares[move.to] = move.captured;
+  }
+
+  if ((move.piece & TYPE_MASK) === KING) {
+    b.kings[b.side ? 1 : 0] = move.from;
+  }
+};
+
+// Legal moves for the side to move, optionally only those of the piece on `fromSquare`
+export const generateLegalMoves = (b: Board0x88, fromSquare?: number): InternalMove[] => {
+  const pseudoLegal: InternalMove[] = [];
+
+  if (fromSquare !== undefined) {
+    const piece = b.squares[fromSquare];
+    if (piece && (piece & BLACK) === b.side) {
+      generatePieceMoves(b, fromSquare, pseudoLegal);
+    }
+  } else {
+    for (let square = 0; square < 128; square++) {
+      if (square & 0x88) {
+        square += 7;
+        continue;
+      }
+      const piece = b.squares[square];
+      if (piece && (piece & BLACK) === b.side) {
+        generatePieceMoves(b, square, pseudoLegal);
+      }
+    }
+  }
+
+  const side = b.side;
+  return pseudoLegal.filter(move => {
+    const undo = makeInternalMove(b, move);
+    const legal = !isKingAttacked(b, side);
+    unmakeInternalMove(b, move, undo);
+    return legal;
+  });
+};
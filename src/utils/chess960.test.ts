@@ -0,0 +1,87 @@
+import { describe, expect, it } from 'vitest';
+import { PieceType } from '../types/chess';
+import { createInitialBoard, STANDARD_BACK_RANK } from './chessLogic';
+import {
+  CHESS960_POSITION_COUNT,
+  createChess960GameState,
+  findChess960Index,
+  getChess960BackRank,
+  STANDARD_CHESS960_INDEX
+} from './chess960';
+import { fromFEN, toFEN } from './fen';
+
+const LETTERS: Record<PieceType, string> = { pawn: 'P', knight: 'N', bishop: 'B', rook: 'R', queen: 'Q', king: 'K' };
+const spell = (backRank: PieceType[]) => backRank.map(type => LETTERS[type]).join('');
+
+describe('Chess960 start positions', () => {
+  it('numbers the positions as Scharnagl does', () => {
+    expect(STANDARD_CHESS960_INDEX).toBe(518);
+    expect(spell(getChess960BackRank(518))).toBe(spell(STANDARD_BACK_RANK));
+    expect(spell(getChess960BackRank(0))).toBe('BBQNNRKR');
+    expect(spell(getChess960BackRank(1))).toBe('BQNBNRKR');
+    expect(spell(getChess960BackRank(959))).toBe('RKRNNQBB');
+  });
+
+  it('gives 960 different legal set-ups', () => {
+    const seen = new Set<string>();
+    for (let index = 0; index < CHESS960_POSITION_COUNT; index++) {
+      const backRank = getChess960BackRank(index);
+      const bishops = backRank.flatMap((type, file) => type === 'bishop' ? [file] : []);
+      const rooks = backRank.flatMap((type, file) => type === 'rook' ? [file] : []);
+      const king = backRank.indexOf('king');
+
+      expect(bishops[0] % 2).not.toBe(bishops[1] % 2);
+      expect(rooks[0] < king && king < rooks[1]).toBe(true);
+      seen.add(spell(backRank));
+    }
+    expect(seen.size).toBe(CHESS960_POSITION_COUNT);
+  });
+
+  it('rejects numbers outside 0 to 959', () => {
+    expect(() => getChess960BackRank(960)).toThrow('0 to 959');
+    expect(() => getChess960BackRank(-1)).toThrow('0 to 959');
+    expect(() => getChess960BackRank(1.5)).toThrow('0 to 959');
+  });
+
+  it('sets up the board and finds its number again', () => {
+    const standard = createChess960GameState(STANDARD_CHESS960_INDEX);
+    expect(standard.board).toEqual(createInitialBoard());
+    expect(findChess960Index(standard)).toBe(518);
+    expect(findChess960Index(createChess960GameState(42))).toBe(42);
+  });
+});
+
+describe('Chess960 castling fields', () => {
+  it('writes X-FEN with KQkq and Shredder-FEN with the rook files', () => {
+    const gameState = createChess960GameState(0);
+    expect(toFEN(gameState)).toBe('bbqnnrkr/pppppppp/8/8/8/8/PPPPPPPP/BBQNNRKR w KQkq - 0 1');
+    expect(toFEN(gameState, 'shredder')).toBe('bbqnnrkr/pppppppp/8/8/8/8/PPPPPPPP/BBQNNRKR w HFhf - 0 1');
+    expect(gameState.startFen).toBe(toFEN(gameState, 'shredder'));
+  });
+
+  it('reads both notations back to the same rights and rooks', () => {
+    const gameState = createChess960GameState(959);
+    for (const notation of ['xfen', 'shredder'] as const) {
+      const fen = toFEN(gameState, notation);
+      const readBack = fromFEN(fen);
+      expect(readBack.castlingRights).toEqual(gameState.castlingRights);
+      expect(readBack.castlingRookFiles).toEqual(gameState.castlingRookFiles);
+      expect(toFEN(readBack, notation)).toBe(fen);
+    }
+  });
+
+  it('keeps the standard position as Chess960 when written with rook files', () => {
+    const gameState = createChess960GameState(STANDARD_CHESS960_INDEX);
+    expect(gameState.startFen).toBe('rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w HAha - 0 1');
+    expect(fromFEN(gameState.startFen!).castlingRookFiles).toEqual(gameState.castlingRookFiles);
+    expect(fromFEN(toFEN(gameState)).castlingRookFiles).toBeUndefined();
+  });
+
+  it('names the file in X-FEN when the castling rook is not the outermost one', () => {
+    const fen = 'rrk5/8/8/8/8/8/8/RRK5 w Bb - 0 1';
+    const gameState = fromFEN(fen);
+    expect(gameState.castlingRookFiles).toMatchObject({ whiteQueenSide: 1, blackQueenSide: 1 });
+    expect(toFEN(gameState)).toBe(fen);
+    expect(toFEN(gameState, 'shredder')).toBe(fen);
+  });
+});
@@ -0,0 +1,80 @@
+import { GameState, PieceType } from '../types/chess';
+import { createInitialBoard, createInitialGameState, getPositionKey } from './chessLogic';
+import { toFEN } from './fen';
+
+export const CHESS960_POSITION_COUNT = 960;
+// Number 518 is the standard starting position
+export const STANDARD_CHESS960_INDEX = 518;
+
+// Where the two knights go among the five squares left after the bishops and queen
+const KNIGHT_PLACEMENTS = [
+  [0, 1], [0, 2], [0, 3], [0, 4], [1, 2],
+  [1, 3], [1, 4], [2, 3], [2, 4], [3, 4]
+];
+
+// Back rank of Chess960 position `index` (0-959), using the standard Scharnagl numbering
+export const getChess960BackRank = (index: number): PieceType[] => {
+  if (!Number.isInteger(index) || index < 0 || index >= CHESS960_POSITION_COUNT) {
+    throw new Error(`Chess960 positions are numbered 0 to 959, got ${index}`);
+  }
+
+  const rank: (PieceType | null)[] = Array(8).fill(null);
+  let rest = index;
+
+  // Bishops on opposite colours: first the light-squared one (b, d, f, h), then the dark one (a, c, e, g)
+  rank[(rest % 4) * 2 + 1] = 'bishop';
+  rest = Math.floor(rest / 4);
+  rank[(rest % 4) * 2] = 'bishop';
+  rest = Math.floor(rest / 4);
+
+  const emptyFiles = () => rank.flatMap((piece, file) => piece ? [] : [file]);
+
+  rank[emptyFiles()[rest % 6]] = 'queen';
+  rest = Math.floor(rest / 6);
+
+  const files = emptyFiles();
+  for (const slot of KNIGHT_PLACEMENTS[rest]) {
+    rank[files[slot]] = 'knight';
+  }
+
+  // The king always ends up between the rooks
+  const [queenSideRook, king, kingSideRook] = emptyFiles();
+  rank[queenSideRook] = 'rook';
+  rank[king] = 'king';
+  rank[kingSideRook] = 'rook';
+
+  return rank as PieceType[];
+};
+
+export const getRandomChess960Index = (): number => Math.floor(Math.random() * CHESS960_POSITION_COUNT);
+
+export const createChess960GameState = (index = getRandomChess960Index()): GameState => {
+  const backRank = getChess960BackRank(index);
+  const rookFiles = backRank.flatMap((piece, file) => piece === 'rook' ? [file] : []);
+
+  const gameState: GameState = {
+    ...createInitialGameState(),
+    board: createInitialBoard(backRank),
+    castlingRookFiles: {
+      whiteKingSide: rookFiles[1],
+      whiteQueenSide: rookFiles[0],
+      blackKingSide: rookFiles[1],
+      blackQueenSide: rookFiles[0]
+    }
+  };
+
+  gameState.positionHistory = [getPositionKey(gameState)];
+  // Shredder-FEN names the rook files, so the start position reads back as Chess960 even for number 518
+  gameState.startFen = toFEN(gameState, 'shredder');
+  return gameState;
+};
+
+// The number of a Chess960 starting position, or null if the board is not one
+export const findChess960Index = (gameState: GameState): number | null => {
+  const backRank = gameState.board[7].map(piece => piece?.type);
+  for (let index = 0; index < CHESS960_POSITION_COUNT; index++) {
+    const candidate = getChess960BackRank(index);
+    if (candidate.every((type, file) => backRank[file] === type)) return index;
+  }
+  return null;
+};
@@ -0,0 +1,187 @@
+import { describe, expect, it } from 'vitest';
+import { GameState, PromotionPieceType } from '../types/chess';
+import {
+  algebraicToPosition,
+  claimDraw,
+  createInitialGameState,
+  getAllPossibleMoves,
+  getClaimableDrawReason,
+  makeMove,
+  parseSAN
+} from './chessLogic';
+import { fromFEN } from './fen';
+import { describeMove } from './announcements';
+
+describe('en passant', () => {
+  const gameState = fromFEN('4k3/8/8/3pP3/8/8/8/4K3 w - d6 0 2');
+  const from = algebraicToPosition('e5');
+  const to = algebraicToPosition('d6');
+
+  it('records the pawn taken beside the mover as captured', () => {
+    const next = makeMove(gameState, from, to)!;
+    const move = next.moveHistory[next.moveHistory.length - 1];
+    expect(move.isEnPassant).toBe(true);
+    expect(move.notation).toBe('exd6');
+    expect(move.capturedPiece).toEqual({ type: 'pawn', color: 'black' });
+    expect(next.capturedPieces.black).toEqual([{ type: 'pawn', color: 'black' }]);
+    expect(next.board[3][3]).toBeNull();
+    expect(describeMove(move)).toContain('en passant');
+  });
+
+  it('is generated as a capture', () => {
+    const move = getAllPossibleMoves(gameState.board, 'white', gameState)
+      .find(candidate => candidate.to.row === to.row && candidate.to.col === to.col);
+    expect(move?.capturedPiece).toEqual({ type: 'pawn', color: 'black' });
+  });
+});
+
+// The SAN makeMove writes for a move given by its squares
+const sanOf = (gameState: GameState, from: string, to: string, promotionPiece?: PromotionPieceType) => {
+  const next = makeMove(gameState, algebraicToPosition(from), algebraicToPosition(to), promotionPiece)!;
+  return next.moveHistory[next.moveHistory.length - 1].notation;
+};
+
+const parsedSquares = (gameState: GameState, san: string) => {
+  const move = parseSAN(gameState, san);
+  return move && { from: move.from, to: move.to, promotionPiece: move.promotionPiece };
+};
+
+const squares = (from: string, to: string, promotionPiece?: PromotionPieceType) => ({
+  from: algebraicToPosition(from),
+  to: algebraicToPosition(to),
+  promotionPiece
+});
+
+describe('SAN', () => {
+  it('names the file when it tells the pieces apart', () => {
+    const gameState = fromFEN('4k3/8/8/8/8/8/8/1N2KN2 w - - 0 1');
+    expect(sanOf(gameState, 'b1', 'd2')).toBe('Nbd2');
+    expect(sanOf(gameState, 'f1', 'd2')).toBe('Nfd2');
+    expect(parsedSquares(gameState, 'Nfd2')).toEqual(squares('f1', 'd2'));
+  });
+
+  it('names the rank when the pieces share a file', () => {
+    const gameState = fromFEN('4k3/8/8/R7/8/8/8/R3K3 w - - 0 1');
+    expect(sanOf(gameState, 'a1', 'a3')).toBe('R1a3');
+    expect(sanOf(gameState, 'a5', 'a3')).toBe('R5a3');
+    expect(parsedSquares(gameState, 'R5a3')).toEqual(squares('a5', 'a3'));
+  });
+
+  it('names the whole square when neither file nor rank is enough', () => {
+    const gameState = fromFEN('4k3/8/8/8/8/Q7/8/Q1Q1K3 w - - 0 1');
+    expect(sanOf(gameState, 'a1', 'b2')).toBe('Qa1b2');
+    expect(sanOf(gameState, 'a3', 'b2')).toBe('Q3b2');
+    expect(sanOf(gameState, 'c1', 'b2')).toBe('Qcb2');
+    expect(parsedSquares(gameState, 'Qa1b2')).toEqual(squares('a1', 'b2'));
+  });
+
+  it('leaves out the origin when the other piece is pinned', () => {
+    const gameState = fromFEN('4r1k1/8/8/1N6/4N3/8/8/4K3 w - - 0 1');
+    expect(sanOf(gameState, 'b5', 'd6')).toBe('Nd6');
+    expect(parsedSquares(gameState, 'Nd6')).toEqual(squares('b5', 'd6'));
+  });
+
+  it('writes and reads promotions', () => {
+    const gameState = fromFEN('8/P6k/8/8/8/8/8/K7 w - - 0 1');
+    expect(sanOf(gameState, 'a7', 'a8')).toBe('a8=Q');
+    expect(sanOf(gameState, 'a7', 'a8', 'knight')).toBe('a8=N');
+    expect(parsedSquares(gameState, 'a8=N')).toEqual(squares('a7', 'a8', 'knight'));
+    expect(parsedSquares(gameState, 'a8R')).toEqual(squares('a7', 'a8', 'rook'));
+    // A promotion with no piece given is taken as a queen
+    expect(parsedSquares(gameState, 'a8')).toEqual(squares('a7', 'a8', 'queen'));
+    expect(parseSAN(gameState, 'a8=K')).toBeNull();
+  });
+
+  it('reads castling written with letters or zeros', () => {
+    const gameState = fromFEN('r3k2r/8/8/8/8/8/8/R3K2R w KQkq - 0 1');
+    expect(parseSAN(gameState, 'O-O')?.notation).toBe('O-O');
+    expect(parseSAN(gameState, '0-0')?.notation).toBe('O-O');
+    expect(parseSAN(gameState, '0-0-0')?.notation).toBe('O-O-O');
+    expect(parseSAN(fromFEN('r3k2r/8/8/8/8/8/8/R3K2R w - - 0 1'), 'O-O')).toBeNull();
+  });
+
+  it('marks checks and checkmates', () => {
+    expect(sanOf(fromFEN('4k3/8/8/8/8/8/8/R3K3 w - - 0 1'), 'a1', 'a8')).toBe('Ra8+');
+    expect(sanOf(fromFEN('4k3/8/8/8/8/8/8/4K2R w K - 0 1'), 'e1', 'g1')).toBe('O-O');
+    expect(sanOf(fromFEN('5k2/8/8/8/8/8/8/4K2R w K - 0 1'), 'e1', 'g1')).toBe('O-O+');
+
+    const gameState = ['f3', 'e5', 'g4'].reduce((state, san) => {
+      const move = parseSAN(state, san)!;
+      return makeMove(state, move.from, move.to)!;
+    }, createInitialGameState());
+    expect(sanOf(gameState, 'd8', 'h4')).toBe('Qh4#');
+    // Suffixes and annotations are not needed to read a move
+    expect(parsedSquares(gameState, 'Qh4')).toEqual(squares('d8', 'h4'));
+    expect(parsedSquares(gameState, 'Qh4#!?')).toEqual(squares('d8', 'h4'));
+  });
+
+  it('returns null for ambiguous or illegal moves', () => {
+    expect(parseSAN(fromFEN('4k3/8/8/8/8/8/8/1N2KN2 w - - 0 1'), 'Nd2')).toBeNull();
+    expect(parseSAN(fromFEN('4k3/8/8/R7/8/8/8/R3K3 w - - 0 1'), 'Ra3')).toBeNull();
+    expect(parseSAN(fromFEN('4r1k1/8/8/1N6/4N3/8/8/4K3 w - - 0 1'), 'Ned6')).toBeNull();
+
+    const gameState = createInitialGameState();
+    expect(parseSAN(gameState, 'e5')).toBeNull();
+    expect(parseSAN(gameState, 'Nd4')).toBeNull();
+    expect(parseSAN(gameState, 'Ke2')).toBeNull();
+    expect(parseSAN(gameState, 'O-O')).toBeNull();
+    expect(parseSAN(gameState, 'exd3')).toBeNull();
+    expect(parseSAN(gameState, 'hello')).toBeNull();
+  });
+});
+
+describe('draws', () => {
+  const playSAN = (gameState: GameState, ...moves: string[]) => moves.reduce((state, san) => {
+    const move = parseSAN(state, san)!;
+    return makeMove(state, move.from, move.to, move.promotionPiece)!;
+  }, gameState);
+
+  // Knights out and back: the starting position comes round once more
+  const shuffle = (gameState: GameState) => playSAN(gameState, 'Nf3', 'Nf6', 'Ng1', 'Ng8');
+
+  it('lets a player claim threefold repetition without ending the game', () => {
+    const twice = shuffle(createInitialGameState());
+    expect(getClaimableDrawReason(twice)).toBeNull();
+
+    const threeTimes = shuffle(twice);
+    expect(threeTimes.status).toBe('active');
+    expect(getClaimableDrawReason(threeTimes)).toBe('threefoldRepetition');
+    expect(claimDraw(threeTimes)).toMatchObject({ status: 'draw', drawReason: 'threefoldRepetition' });
+  });
+
+  it('counts a position again only when the same side is to move with the same rights', () => {
+    // The kings walk away and back, so white's castling rights are gone the second time round
+    const start = fromFEN('4k3/8/8/8/8/8/8/4K2R w K - 0 1');
+    const gameState = playSAN(start, 'Kf1', 'Kd8', 'Ke1', 'Ke8', 'Kf1', 'Kd8', 'Ke1', 'Ke8');
+    expect(getClaimableDrawReason(gameState)).toBeNull();
+  });
+
+  it('ends the game at the fifth repetition', () => {
+    const gameState = shuffle(shuffle(shuffle(shuffle(createInitialGameState()))));
+    expect(gameState).toMatchObject({ status: 'draw', drawReason: 'fivefoldRepetition' });
+    expect(claimDraw(gameState)).toBeNull();
+  });
+
+  it('lets a player claim the fifty-move rule and ends the game at seventy-five moves', () => {
+    const fifty = playSAN(fromFEN('4k3/8/8/8/8/8/8/R3K3 w - - 99 60'), 'Kd2');
+    expect(fifty.status).toBe('active');
+    expect(getClaimableDrawReason(fifty)).toBe('fiftyMoveRule');
+
+    const seventyFive = playSAN(fromFEN('4k3/8/8/8/8/8/8/R3K3 w - - 149 80'), 'Kd2');
+    expect(seventyFive).toMatchObject({ status: 'draw', drawReason: 'seventyFiveMoveRule' });
+  });
+
+  it('keeps the check on a checking move that draws the game automatically', () => {
+    const gameState = playSAN(fromFEN('4k3/8/8/8/8/8/8/R3K3 w - - 149 80'), 'Ra8');
+    const move = gameState.moveHistory[gameState.moveHistory.length - 1];
+    expect(gameState).toMatchObject({ status: 'draw', drawReason: 'seventyFiveMoveRule' });
+    expect(move.isCheck).toBe(true);
+    expect(move.notation).toBe('Ra8+');
+  });
+
+  it('lets checkmate on the seventy-fifth move stand', () => {
+    const gameState = playSAN(fromFEN('k7/8/1K6/8/8/8/8/7R w - - 149 80'), 'Rh8');
+    expect(gameState.status).toBe('checkmate');
+    expect(gameState.moveHistory[0].notation).toBe('Rh8#');
+  });
+});
@@ -1,4 +1,22 @@
-import { ChessPiece, PieceColor, PieceType, Position, GameState, Move, GameStatus } from '../types/chess';
+import { CastlingRookFiles, ChessPiece, PieceColor, PieceType, PromotionPieceType, Position, GameState, Move, GameStatus, DrawReason } from '../types/chess';
+import {
+  BLACK,
+  Board0x88,
+  createBoard0x88,
+  FLAG_CASTLING,
+  FLAG_EN_PASSANT,
+  generateLegalMoves,
+  isAttacked,
+  makeInternalMove,
+  PAWN,
+  QUEEN,
+  toChessPiece,
+  toPosition,
+  toPromotionPiece,
+  toSquare,
+  unmakeInternalMove
+} from './board0x88';
+import { hasMatingMaterial, isDeadPosition } from './insufficientMaterial';
 
 // Chess piece Unicode symbols
 export const PIECE_SYMBOLS: Record<PieceColor, Record<PieceType, string>> = {
@@ -20,8 +38,18 @@ export const PIECE_SYMBOLS: Record<PieceColor, Record<PieceType, string>> = {
   }
 };
 
-// Initialize starting chess position
-export const createInitialBoard = (): (ChessPiece | null)[][] => {
+export const STANDARD_BACK_RANK: PieceType[] = ['rook', 'knight', 'bishop', 'queen', 'king', 'bishop', 'knight', 'rook'];
+
+// The rooks standard chess castles with
+export const STANDARD_CASTLING_ROOK_FILES: CastlingRookFiles = {
+  whiteKingSide: 7,
+  whiteQueenSide: 0,
+  blackKingSide: 7,
+  blackQueenSide: 0
+};
+
+// Initialize starting chess position; Chess960 passes its own order of the back rank
+export const createInitialBoard = (pieceOrder: PieceType[] = STANDARD_BACK_RANK): (ChessPiece | null)[][] => {
   const board: (ChessPiece | null)[][] = Array(8).fill(null).map(() => Array(8).fill(null));
   
   // Place pawns
@@ -31,8 +59,6 @@ export const createInitialBoard = (): (ChessPiece | null)[][] => {
   }
   
   // Place other pieces
-  const pieceOrder: PieceType[] = ['rook', 'knight', 'bishop', 'queen', 'king', 'bishop', 'knight', 'rook'];
-  
   for (let col = 0; col < 8; col++) {
     board[0][col] = { type: pieceOrder[col], color: 'black' };
     board[7][col] = { type: pieceOrder[col], color: 'white' };
@@ -41,22 +67,29 @@ export const createInitialBoard = (): (ChessPiece | null)[][] => {
   return board;
 };
 
-export const createInitialGameState = (): GameState => ({
-  board: createInitialBoard(),
-  currentPlayer: 'white',
-  status: 'active',
-  moveHistory: [],
-  capturedPieces: { white: [], black: [] },
-  castlingRights: {
-    whiteKingSide: true,
-    whiteQueenSide: true,
-    blackKingSide: true,
-    blackQueenSide: true
-  },
-  enPassantTarget: null,
-  halfMoveClock: 0,
-  fullMoveNumber: 1
-});
+export const createInitialGameState = (): GameState => {
+  const gameState: GameState = {
+    board: createInitialBoard(),
+    currentPlayer: 'white',
+    status: 'active',
+    moveHistory: [],
+    capturedPieces: { white: [], black: [] },
+    castlingRights: {
+      whiteKingSide: true,
+      whiteQueenSide: true,
+      blackKingSide: true,
+      blackQueenSide: true
+    },
+    enPassantTarget: null,
+    halfMoveClock: 0,
+    fullMoveNumber: 1,
+    positionHistory: []
+  };
+  
+  gameState.positionHistory = [getPositionKey(gameState)];
+  
+  return gameState;
+};
 
 export const isValidPosition = (pos: Position): boolean => {
   return pos.row >= 0 && pos.row < 8 && pos.col >= 0 && pos.col < 8;
@@ -87,6 +120,17 @@ export const isPathClear = (board: (ChessPiece | null)[][], from: Position, to:
   return true;
 };
 
+// Move generation runs on the internal 0x88 board; see board0x88.ts
+const createBoardFor = (board: (ChessPiece | null)[][], color: PieceColor, gameState: GameState): Board0x88 => {
+  return createBoard0x88(board, {
+    currentPlayer: color,
+    castlingRights: gameState.castlingRights,
+    castlingRookFiles: gameState.castlingRookFiles,
+    // The en passant target only ever belongs to the side to move
+    enPassantTarget: color === gameState.currentPlayer ? gameState.enPassantTarget : null
+  });
+};
+
 export const getPossibleMoves = (
   board: (ChessPiece | null)[][],
   from: Position,
@@ -95,340 +139,221 @@ export const getPossibleMoves = (
   const piece = board[from.row][from.col];
   if (!piece) return [];
   
+  const internalBoard = createBoardFor(board, piece.color, gameState);
   const moves: Position[] = [];
   
-  switch (piece.type) {
-    case 'pawn':
-      moves.push(...getPawnMoves(board, from, piece.color, gameState.enPassantTarget));
-      break;
-    case 'rook':
-      moves.push(...getRookMoves(board, from, piece.color));
-      break;
-    case 'knight':
-      moves.push(...getKnightMoves(board, from, piece.color));
-      break;
-    case 'bishop':
-      moves.push(...getBishopMoves(board, from, piece.color));
-      break;
-    case 'queen':
-      moves.push(...getQueenMoves(board, from, piece.color));
-      break;
-    case 'king':
-      moves.push(...getKingMoves(board, from, piece.color, gameState.castlingRights));
-      break;
-  }
-  
-  // Filter out moves that would put own king in check
-  return moves.filter(to => !wouldBeInCheck(board, from, to, piece.color));
-};
-
-const getPawnMoves = (
-  board: (ChessPiece | null)[][],
-  from: Position,
-  color: PieceColor,
-  enPassantTarget: Position | null
-): Position[] => {
-  const moves: Position[] = [];
-  const direction = color === 'white' ? -1 : 1;
-  const startRow = color === 'white' ? 6 : 1;
-  
-  // Forward move
-  const oneForward = { row: from.row + direction, col: from.col };
-  if (isValidPosition(oneForward) && board[oneForward.row][oneForward.col] === null) {
-    moves.push(oneForward);
-    
-    // Two squares forward from starting position
-    if (from.row === startRow) {
-      const twoForward = { row: from.row + 2 * direction, col: from.col };
-      if (isValidPosition(twoForward) && board[twoForward.row][twoForward.col] === null) {
-        moves.push(twoForward);
-      }
-    }
-  }
-  
-  // Diagonal captures
-  const captureLeft = { row: from.row + direction, col: from.col - 1 };
-  const captureRight = { row: from.row + direction, col: from.col + 1 };
-  
-  if (isValidPosition(captureLeft)) {
-    const leftPiece = board[captureLeft.row][captureLeft.col];
-    if (leftPiece && leftPiece.color !== color) {
-      moves.push(captureLeft);
-    }
-  }
-  
-  if (isValidPosition(captureRight)) {
-    const rightPiece = board[captureRight.row][captureRight.col];
-    if (rightPiece && rightPiece.color !== color) {
-      moves.push(captureRight);
-    }
-  }
-  
-  // En passant
-  if (enPassantTarget) {
-    if (positionsEqual(captureLeft, enPassantTarget) || positionsEqual(captureRight, enPassantTarget)) {
-      moves.push(enPassantTarget);
-    }
+  for (const move of generateLegalMoves(internalBoard, toSquare(from))) {
+    // Promotions produce one move per piece but share a target square
+    if (move.promotion && move.promotion !== (QUEEN | (move.piece & BLACK))) continue;
+    moves.push(toPosition(move.to));
   }
   
   return moves;
 };
 
-const getRookMoves = (board: (ChessPiece | null)[][], from: Position, color: PieceColor): Position[] => {
-  const moves: Position[] = [];
-  const directions = [[-1, 0], [1, 0], [0, -1], [0, 1]];
-  
-  for (const [rowDir, colDir] of directions) {
-    for (let i = 1; i < 8; i++) {
-      const to = { row: from.row + i * rowDir, col: from.col + i * colDir };
-      
-      if (!isValidPosition(to)) break;
-      
-      const targetPiece = board[to.row][to.col];
-      if (targetPiece === null) {
-        moves.push(to);
-      } else {
-        if (targetPiece.color !== color) {
-          moves.push(to);
-        }
-        break;
-      }
-    }
-  }
-  
-  return moves;
+export const isSquareAttacked = (
+  board: (ChessPiece | null)[][],
+  square: Position,
+  byColor: PieceColor
+): boolean => {
+  const internalBoard = createBoard0x88(board, {
+    currentPlayer: byColor,
+    castlingRights: { whiteKingSide: false, whiteQueenSide: false, blackKingSide: false, blackQueenSide: false },
+    enPassantTarget: null
+  });
+  return isAttacked(internalBoard, toSquare(square), byColor === 'white' ? 0 : BLACK);
 };
 
-const getKnightMoves = (board: (ChessPiece | null)[][], from: Position, color: PieceColor): Position[] => {
-  const moves: Position[] = [];
-  const knightMoves = [
-    [-2, -1], [-2, 1], [-1, -2], [-1, 2],
-    [1, -2], [1, 2], [2, -1], [2, 1]
-  ];
-  
-  for (const [rowOffset, colOffset] of knightMoves) {
-    const to = { row: from.row + rowOffset, col: from.col + colOffset };
-    
-    if (isValidPosition(to)) {
-      const targetPiece = board[to.row][to.col];
-      if (targetPiece === null || targetPiece.color !== color) {
-        moves.push(to);
+export const findKing = (board: (ChessPiece | null)[][], color: PieceColor): Position | null => {
+  for (let row = 0; row < 8; row++) {
+    for (let col = 0; col < 8; col++) {
+      const piece = board[row][col];
+      if (piece && piece.type === 'king' && piece.color === color) {
+        return { row, col };
       }
     }
   }
-  
-  return moves;
+  return null;
 };
 
-const getBishopMoves = (board: (ChessPiece | null)[][], from: Position, color: PieceColor): Position[] => {
-  const moves: Position[] = [];
-  const directions = [[-1, -1], [-1, 1], [1, -1], [1, 1]];
-  
-  for (const [rowDir, colDir] of directions) {
-    for (let i = 1; i < 8; i++) {
-      const to = { row: from.row + i * rowDir, col: from.col + i * colDir };
-      
-      if (!isValidPosition(to)) break;
-      
-      const targetPiece = board[to.row][to.col];
-      if (targetPiece === null) {
-        moves.push(to);
-      } else {
-        if (targetPiece.color !== color) {
-          moves.push(to);
-        }
-        break;
-      }
-    }
-  }
+export const isInCheck = (board: (ChessPiece | null)[][], color: PieceColor): boolean => {
+  const kingPos = findKing(board, color);
+  if (!kingPos) return false;
   
-  return moves;
+  return isSquareAttacked(board, kingPos, color === 'white' ? 'black' : 'white');
 };
 
-const getQueenMoves = (board: (ChessPiece | null)[][], from: Position, color: PieceColor): Position[] => {
-  return [...getRookMoves(board, from, color), ...getBishopMoves(board, from, color)];
+export const PROMOTION_PIECES: PromotionPieceType[] = ['queen', 'rook', 'bishop', 'knight'];
+
+export const isPromotionMove = (board: (ChessPiece | null)[][], from: Position, to: Position): boolean => {
+  const piece = board[from.row][from.col];
+  return piece?.type === 'pawn' && (to.row === 0 || to.row === 7);
 };
 
-const getKingMoves = (
-  board: (ChessPiece | null)[][],
-  from: Position,
-  color: PieceColor,
-  castlingRights: GameState['castlingRights']
-): Position[] => {
-  const moves: Position[] = [];
-  const directions = [
-    [-1, -1], [-1, 0], [-1, 1],
-    [0, -1],           [0, 1],
-    [1, -1],  [1, 0],  [1, 1]
-  ];
-  
-  // Regular king moves
-  for (const [rowOffset, colOffset] of directions) {
-    const to = { row: from.row + rowOffset, col: from.col + colOffset };
+export const getAllPossibleMoves = (board: (ChessPiece | null)[][], color: PieceColor, gameState: GameState): Move[] => {
+  const internalBoard = createBoardFor(board, color, gameState);
+  const timestamp = Date.now();
+  
+  // Promotions are reported once per piece a pawn can promote to
+  return generateLegalMoves(internalBoard).map(move => ({
+    from: toPosition(move.from),
+    to: toPosition(move.to),
+    piece: board[move.from >> 4][move.from & 7]!,
+    // In Chess960 castling moves the king onto its own rook, which is no capture;
+    // en passant takes the pawn beside the mover rather than one on the target square
+    capturedPiece: move.flags & FLAG_CASTLING
+      ? undefined
+      : board[move.flags & FLAG_EN_PASSANT ? move.from >> 4 : move.to >> 4][move.to & 7] || undefined,
+    notation: '', // Will be filled later
+    timestamp,
+    isCastling: !!(move.flags & FLAG_CASTLING),
+    promotionPiece: toPromotionPiece(move.promotion)
+  }));
+};
+
+// Count the leaf nodes of the legal move tree, for checking the move generator
+// against published node counts
+export const perft = (gameState: GameState, depth: number): number => {
+  const internalBoard = createBoardFor(gameState.board, gameState.currentPlayer, gameState);
+  
+  const countNodes = (remaining: number): number => {
+    const moves = generateLegalMoves(internalBoard);
+    if (remaining === 1) return moves.length;
     
-    if (isValidPosition(to)) {
-      const targetPiece = board[to.row][to.col];
-      if (targetPiece === null || targetPiece.color !== color) {
-        moves.push(to);
-      }
+    let nodes = 0;
+    for (const move of moves) {
+      const undo = makeInternalMove(internalBoard, move);
+      nodes += countNodes(remaining - 1);
+      unmakeInternalMove(internalBoard, move, undo);
     }
-  }
+    return nodes;
+  };
   
-  // Castling
-  if (color === 'white' && from.row === 7 && from.col === 4) {
-    // White king-side castling
-    if (castlingRights.whiteKingSide &&
-        board[7][5] === null && board[7][6] === null &&
-        !isSquareAttacked(board, { row: 7, col: 4 }, 'black') &&
-        !isSquareAttacked(board, { row: 7, col: 5 }, 'black') &&
-        !isSquareAttacked(board, { row: 7, col: 6 }, 'black')) {
-      moves.push({ row: 7, col: 6 });
-    }
-    
-    // White queen-side castling
-    if (castlingRights.whiteQueenSide &&
-        board[7][1] === null && board[7][2] === null && board[7][3] === null &&
-        !isSquareAttacked(board, { row: 7, col: 4 }, 'black') &&
-        !isSquareAttacked(board, { row: 7, col: 3 }, 'black') &&
-        !isSquareAttacked(board, { row: 7, col: 2 }, 'black')) {
-      moves.push({ row: 7, col: 2 });
-    }
-  } else if (color === 'black' && from.row === 0 && from.col === 4) {
-    // Black king-side castling
-    if (castlingRights.blackKingSide &&
-        board[0][5] === null && board[0][6] === null &&
-        !isSquareAttacked(board, { row: 0, col: 4 }, 'white') &&
-        !isSquareAttacked(board, { row: 0, col: 5 }, 'white') &&
-        !isSquareAttacked(board, { row: 0, col: 6 }, 'white')) {
-      moves.push({ row: 0, col: 6 });
-    }
+  return depth <= 0 ? 1 : countNodes(depth);
+};
+
+// Perft split by root move (keyed by UCI-style "e2e4", "e7e8q"), for finding
+// which move a wrong total comes from
+export const perftDivide = (gameState: GameState, depth: number): Record<string, number> => {
+  const result: Record<string, number> = {};
+  
+  for (const move of getAllPossibleMoves(gameState.board, gameState.currentPlayer, gameState)) {
+    const newGameState = makeMove(gameState, move.from, move.to, move.promotionPiece);
+    if (!newGameState) continue;
     
-    // Black queen-side castling
-    if (castlingRights.blackQueenSide &&
-        board[0][1] === null && board[0][2] === null && board[0][3] === null &&
-        !isSquareAttacked(board, { row: 0, col: 4 }, 'white') &&
-        !isSquareAttacked(board, { row: 0, col: 3 }, 'white') &&
-        !isSquareAttacked(board, { row: 0, col: 2 }, 'white')) {
-      moves.push({ row: 0, col: 2 });
-    }
+    const key = positionToAlgebraic(move.from) + positionToAlgebraic(move.to) +
+      (move.promotionPiece ? SAN_PIECE_LETTERS[move.promotionPiece].toLowerCase() : '');
+    result[key] = perft(newGameState, depth - 1);
   }
   
-  return moves;
+  return result;
 };
 
-export const isSquareAttacked = (
-  board: (ChessPiece | null)[][],
-  square: Position,
-  byColor: PieceColor
-): boolean => {
+export const isGameOver = (gameState: GameState): boolean => {
+  return gameState.status === 'checkmate' ||
+    gameState.status === 'stalemate' ||
+    gameState.status === 'draw' ||
+    gameState.status === 'timeout';
+};
+
+// Board symbols by internal piece code, '.' for an empty square
+const KEY_SYMBOLS = Array.from({ length: 16 }, (_, code) => {
+  if (!(code & 7) || (code & 7) === 7) return '.';
+  const piece = toChessPiece(code);
+  return PIECE_SYMBOLS[piece.color][piece.type];
+});
+
+const KEY_CASTLING_BITS = [1, 2, 4, 8]; // White king side, white queen side, black king side, black queen side
+
+// Repetition key of an internal board, so the search can compare the positions
+// it reaches with the game's. See getPositionKey.
+export const getBoardPositionKey = (b: Board0x88): string => {
+  let placement = '';
   for (let row = 0; row < 8; row++) {
     for (let col = 0; col < 8; col++) {
-      const piece = board[row][col];
-      if (piece && piece.color === byColor) {
-        const from = { row, col };
-        const possibleMoves = getPossibleMovesWithoutCheckValidation(board, from);
-        if (possibleMoves.some(move => positionsEqual(move, square))) {
-          return true;
-        }
-      }
+      placement += KEY_SYMBOLS[b.squares[row * 16 + col] & 15];
     }
   }
-  return false;
-};
+  const castling = KEY_CASTLING_BITS.map(bit => b.castling & bit ? '1' : '0').join('');
 
-const getPossibleMovesWithoutCheckValidation = (
-  board: (ChessPiece | null)[][],
-  from: Position
-): Position[] => {
-  const piece = board[from.row][from.col];
-  if (!piece) return [];
-  
-  switch (piece.type) {
-    case 'pawn':
-      return getPawnMoves(board, from, piece.color, null);
-    case 'rook':
-      return getRookMoves(board, from, piece.color);
-    case 'knight':
-      return getKnightMoves(board, from, piece.color);
-    case 'bishop':
-      return getBishopMoves(board, from, piece.color);
-    case 'queen':
-      return getQueenMoves(board, from, piece.color);
-    case 'king':
-      return getKingMoves(board, from, piece.color, {
-        whiteKingSide: false,
-        whiteQueenSide: false,
-        blackKingSide: false,
-        blackQueenSide: false
-      }).filter(move => Math.abs(move.col - from.col) <= 1); // Exclude castling
-    default:
-      return [];
+  let enPassant = '-';
+  if (b.epSquare !== -1) {
+    const pawnSquare = b.epSquare + (b.side === 0 ? 16 : -16);
+    const canCapture = [pawnSquare - 1, pawnSquare + 1].some(from => !(from & 0x88) &&
+      b.squares[from] === (PAWN | b.side) &&
+      generateLegalMoves(b, from).some(move => move.flags & FLAG_EN_PASSANT));
+    if (canCapture) {
+      enPassant = positionToAlgebraic(toPosition(b.epSquare));
+    }
   }
+
+  return `${placement} ${b.side === 0 ? 'w' : 'b'} ${castling} ${enPassant}`;
 };
 
-const wouldBeInCheck = (
-  board: (ChessPiece | null)[][],
-  from: Position,
-  to: Position,
-  color: PieceColor
-): boolean => {
-  // Create a copy of the board with the move applied
-  const newBoard = board.map(row => [...row]);
-  const piece = newBoard[from.row][from.col];
-  newBoard[to.row][to.col] = piece;
-  newBoard[from.row][from.col] = null;
+// Identifies a position for the repetition rules: placement, side to move,
+// castling rights and an en passant target only when a capture is actually possible
+export const getPositionKey = (gameState: GameState): string => {
+  return getBoardPositionKey(createBoardFor(gameState.board, gameState.currentPlayer, gameState));
+};
+
+const countRepetitions = (gameState: GameState): number => {
+  const { positionHistory } = gameState;
+  const currentKey = positionHistory[positionHistory.length - 1];
+  return positionHistory.filter(key => key === currentKey).length;
+};
+
+// Draws that end the game without either player claiming them
+export const getAutomaticDrawReason = (gameState: GameState): DrawReason | null => {
+  if (countRepetitions(gameState) >= 5) {
+    return 'fivefoldRepetition';
+  }
   
-  // Find the king position
-  const kingPos = findKing(newBoard, color);
-  if (!kingPos) return true; // If no king found, consider it check
+  // 75 moves by each side, counted in plies
+  if (gameState.halfMoveClock >= 150) {
+    return 'seventyFiveMoveRule';
+  }
+  
+  if (isDeadPosition(gameState.board)) {
+    return 'insufficientMaterial';
+  }
   
-  return isSquareAttacked(newBoard, kingPos, color === 'white' ? 'black' : 'white');
+  return null;
 };
 
-export const findKing = (board: (ChessPiece | null)[][], color: PieceColor): Position | null => {
-  for (let row = 0; row < 8; row++) {
-    for (let col = 0; col < 8; col++) {
-      const piece = board[row][col];
-      if (piece && piece.type === 'king' && piece.color === color) {
-        return { row, col };
-      }
-    }
+// Draws the player to move may claim but that do not end the game on their own
+export const getClaimableDrawReason = (gameState: GameState): DrawReason | null => {
+  if (isGameOver(gameState)) {
+    return null;
   }
+  
+  if (countRepetitions(gameState) >= 3) {
+    return 'threefoldRepetition';
+  }
+  
+  // 50 moves by each side, counted in plies
+  if (gameState.halfMoveClock >= 100) {
+    return 'fiftyMoveRule';
+  }
+  
   return null;
 };
 
-export const isInCheck = (board: (ChessPiece | null)[][], color: PieceColor): boolean => {
-  const kingPos = findKing(board, color);
-  if (!kingPos) return false;
+export const claimDraw = (gameState: GameState): GameState | null => {
+  const drawReason = getClaimableDrawReason(gameState);
+  if (!drawReason) return null;
   
-  return isSquareAttacked(board, kingPos, color === 'white' ? 'black' : 'white');
+  return { ...gameState, status: 'draw', drawReason };
 };
 
-export const getAllPossibleMoves = (board: (ChessPiece | null)[][], color: PieceColor, gameState: GameState): Move[] => {
-  const moves: Move[] = [];
+// The side to move has run out of time: a loss, unless the opponent could
+// never checkmate, in which case it is a draw
+export const applyFlagFall = (gameState: GameState): GameState => {
+  const opponent = gameState.currentPlayer === 'white' ? 'black' : 'white';
   
-  for (let row = 0; row < 8; row++) {
-    for (let col = 0; col < 8; col++) {
-      const piece = board[row][col];
-      if (piece && piece.color === color) {
-        const from = { row, col };
-        const possibleMoves = getPossibleMoves(board, from, gameState);
-        
-        for (const to of possibleMoves) {
-          moves.push({
-            from,
-            to,
-            piece,
-            capturedPiece: board[to.row][to.col] || undefined,
-            notation: '', // Will be filled later
-            timestamp: Date.now()
-          });
-        }
-      }
-    }
+  if (!hasMatingMaterial(gameState.board, opponent)) {
+    return { ...gameState, status: 'draw', drawReason: 'timeoutVsInsufficientMaterial' };
   }
-  
-  return moves;
+  return { ...gameState, status: 'timeout' };
 };
 
 export const getGameStatus = (gameState: GameState): GameStatus => {
@@ -440,30 +365,23 @@ export const getGameStatus = (gameState: GameState): GameStatus => {
     return inCheck ? 'checkmate' : 'stalemate';
   }
   
-  if (inCheck) {
-    return 'check';
-  }
-  
-  // Check for draw conditions
-  if (gameState.halfMoveClock >= 50) {
+  if (getAutomaticDrawReason(gameState)) {
     return 'draw';
   }
   
-  // Insufficient material check (simplified)
-  const pieces = board.flat().filter(p => p !== null) as ChessPiece[];
-  if (pieces.length <= 3) {
-    const hasOnlyKingsAndMinorPieces = pieces.every(p => 
-      p.type === 'king' || p.type === 'knight' || p.type === 'bishop'
-    );
-    if (hasOnlyKingsAndMinorPieces) {
-      return 'draw';
-    }
+  if (inCheck) {
+    return 'check';
   }
   
   return 'active';
 };
 
-export const makeMove = (gameState: GameState, from: Position, to: Position): GameState | null => {
+export const makeMove = (
+  gameState: GameState,
+  from: Position,
+  to: Position,
+  promotionPiece: PromotionPieceType = 'queen'
+): GameState | null => {
   const { board, currentPlayer } = gameState;
   const piece = board[from.row][from.col];
   
@@ -478,51 +396,61 @@ export const makeMove = (gameState: GameState, from: Position, to: Position): Ga
     return null;
   }
   
+  // Castling is the king moving two squares, or in Chess960 the king moving onto its own rook
+  const targetPiece = board[to.row][to.col];
+  const isCastling = piece.type === 'king' && (gameState.castlingRookFiles
+    ? targetPiece?.type === 'rook' && targetPiece.color === currentPlayer
+    : Math.abs(to.col - from.col) === 2);
+  
   // Create new game state
   const newBoard = board.map(row => [...row]);
-  const capturedPiece = newBoard[to.row][to.col];
+  let capturedPiece = isCastling ? null : newBoard[to.row][to.col];
   
   // Handle special moves
   let isEnPassant = false;
-  let isCastling = false;
   
   // En passant
   if (piece.type === 'pawn' && gameState.enPassantTarget && positionsEqual(to, gameState.enPassantTarget)) {
     isEnPassant = true;
     const captureRow = currentPlayer === 'white' ? to.row + 1 : to.row - 1;
+    capturedPiece = newBoard[captureRow][to.col];
     newBoard[captureRow][to.col] = null;
   }
   
-  // Castling
-  if (piece.type === 'king' && Math.abs(to.col - from.col) === 2) {
-    isCastling = true;
+  // Castling: the king ends on the g- or c-file and the rook next to it, wherever they started
+  if (isCastling) {
     const isKingSide = to.col > from.col;
-    const rookFromCol = isKingSide ? 7 : 0;
-    const rookToCol = isKingSide ? 5 : 3;
-    const rookRow = from.row;
+    const rookFiles = gameState.castlingRookFiles ?? STANDARD_CASTLING_ROOK_FILES;
+    const rookFromCol = rookFiles[`${currentPlayer}${isKingSide ? 'KingSide' : 'QueenSide'}`];
+    const rook = newBoard[from.row][rookFromCol];
     
-    newBoard[rookRow][rookToCol] = newBoard[rookRow][rookFromCol];
-    newBoard[rookRow][rookFromCol] = null;
+    newBoard[from.row][from.col] = null;
+    newBoard[from.row][rookFromCol] = null;
+    newBoard[from.row][isKingSide ? 6 : 2] = piece;
+    newBoard[from.row][isKingSide ? 5 : 3] = rook;
+  } else {
+    // Make the move
+    newBoard[to.row][to.col] = piece;
+    newBoard[from.row][from.col] = null;
   }
   
-  // Make the move
-  newBoard[to.row][to.col] = piece;
-  newBoard[from.row][from.col] = null;
-  
   // Handle pawn promotion
-  if (piece.type === 'pawn' && (to.row === 0 || to.row === 7)) {
-    newBoard[to.row][to.col] = { type: 'queen', color: piece.color };
+  const isPromotion = piece.type === 'pawn' && (to.row === 0 || to.row === 7);
+  if (isPromotion) {
+    if (!PROMOTION_PIECES.includes(promotionPiece)) {
+      return null;
+    }
+    newBoard[to.row][to.col] = { type: promotionPiece, color: piece.color };
   }
   
-  // Update captured pieces
-  const newCapturedPieces = { ...gameState.capturedPieces };
+  // Update captured pieces (copied so earlier states stay intact for undo)
+  const newCapturedPieces = {
+    white: [...gameState.capturedPieces.white],
+    black: [...gameState.capturedPieces.black]
+  };
   if (capturedPiece) {
     newCapturedPieces[capturedPiece.color].push(capturedPiece);
   }
-  if (isEnPassant) {
-    const capturedPawn = { type: 'pawn' as PieceType, color: currentPlayer === 'white' ? 'black' : 'white' };
-    newCapturedPieces[capturedPawn.color].push(capturedPawn);
-  }
   
   // Update castling rights
   const newCastlingRights = { ...gameState.castlingRights };
@@ -535,14 +463,13 @@ export const makeMove = (gameState: GameState, from: Position, to: Position): Ga
       newCastlingRights.blackQueenSide = false;
     }
   }
-  if (piece.type === 'rook') {
-    if (currentPlayer === 'white') {
-      if (from.col === 0) newCastlingRights.whiteQueenSide = false;
-      if (from.col === 7) newCastlingRights.whiteKingSide = false;
-    } else {
-      if (from.col === 0) newCastlingRights.blackQueenSide = false;
-      if (from.col === 7) newCastlingRights.blackKingSide = false;
-    }
+  // A rook leaving or being captured on its starting square loses that side's castling
+  const rookFiles = gameState.castlingRookFiles ?? STANDARD_CASTLING_ROOK_FILES;
+  for (const square of [from, to]) {
+    if (square.row === 7 && square.col === rookFiles.whiteQueenSide) newCastlingRights.whiteQueenSide = false;
+    if (square.row === 7 && square.col === rookFiles.whiteKingSide) newCastlingRights.whiteKingSide = false;
+    if (square.row === 0 && square.col === rookFiles.blackQueenSide) newCastlingRights.blackQueenSide = false;
+    if (square.row === 0 && square.col === rookFiles.blackKingSide) newCastlingRights.blackKingSide = false;
   }
   
   // Update en passant target
@@ -551,19 +478,17 @@ export const makeMove = (gameState: GameState, from: Position, to: Position): Ga
     newEnPassantTarget = { row: (from.row + to.row) / 2, col: from.col };
   }
   
-  // Create move notation
-  const notation = createMoveNotation(piece, from, to, capturedPiece !== null, isCastling, isEnPassant);
-  
   // Create move object
   const move: Move = {
     from,
     to,
     piece,
     capturedPiece: capturedPiece || undefined,
-    notation,
+    notation: '',
     timestamp: Date.now(),
     isCastling,
-    isEnPassant
+    isEnPassant,
+    promotionPiece: isPromotion ? promotionPiece : undefined
   };
   
   const newGameState: GameState = {
@@ -575,50 +500,148 @@ export const makeMove = (gameState: GameState, from: Position, to: Position): Ga
     castlingRights: newCastlingRights,
     enPassantTarget: newEnPassantTarget,
     halfMoveClock: capturedPiece || piece.type === 'pawn' ? 0 : gameState.halfMoveClock + 1,
-    fullMoveNumber: currentPlayer === 'black' ? gameState.fullMoveNumber + 1 : gameState.fullMoveNumber
+    fullMoveNumber: currentPlayer === 'black' ? gameState.fullMoveNumber + 1 : gameState.fullMoveNumber,
+    startFen: gameState.startFen,
+    castlingRookFiles: gameState.castlingRookFiles,
+    positionHistory: gameState.positionHistory
   };
   
-  // Update game status
+  // Update repetition history and game status
+  newGameState.positionHistory = [...gameState.positionHistory, getPositionKey(newGameState)];
   newGameState.status = getGameStatus(newGameState);
+  if (newGameState.status === 'draw') {
+    newGameState.drawReason = getAutomaticDrawReason(newGameState) ?? undefined;
+  }
+  
+  // Create move notation. Check comes from the board: a checking move that also
+  // draws the game automatically still gives check.
+  move.isCheck = isInCheck(newBoard, newGameState.currentPlayer);
+  move.isCheckmate = newGameState.status === 'checkmate';
+  move.notation = createMoveNotation(gameState, move);
   
   return newGameState;
 };
 
-const createMoveNotation = (
-  piece: ChessPiece,
-  from: Position,
-  to: Position,
-  isCapture: boolean,
-  isCastling: boolean,
-  isEnPassant: boolean
-): string => {
-  if (isCastling) {
-    return to.col > from.col ? 'O-O' : 'O-O-O';
-  }
+const SAN_PIECE_LETTERS: Record<PieceType, string> = {
+  pawn: '',
+  knight: 'N',
+  bishop: 'B',
+  rook: 'R',
+  queen: 'Q',
+  king: 'K'
+};
+
+// Standard Algebraic Notation for a move played from the given position
+const createMoveNotation = (gameState: GameState, move: Move): string => {
+  const { from, to, piece } = move;
+  const suffix = move.isCheckmate ? '#' : move.isCheck ? '+' : '';
   
-  const files = 'abcdefgh';
-  const ranks = '87654321';
+  if (move.isCastling) {
+    return (to.col > from.col ? 'O-O' : 'O-O-O') + suffix;
+  }
   
-  let notation = '';
+  const fromSquare = positionToAlgebraic(from);
+  const isCapture = !!move.capturedPiece || !!move.isEnPassant;
+  let notation = SAN_PIECE_LETTERS[piece.type];
   
-  if (piece.type !== 'pawn') {
-    notation += piece.type.charAt(0).toUpperCase();
+  if (piece.type === 'pawn') {
+    if (isCapture) {
+      notation += fromSquare[0];
+    }
+  } else {
+    // Disambiguate between identical pieces that can reach the same square
+    const rivals = getAllPossibleMoves(gameState.board, piece.color, gameState).filter(other =>
+      other.piece.type === piece.type &&
+      positionsEqual(other.to, to) &&
+      !positionsEqual(other.from, from)
+    );
+    
+    if (rivals.length > 0) {
+      const sameFile = rivals.some(other => other.from.col === from.col);
+      const sameRank = rivals.some(other => other.from.row === from.row);
+      
+      if (!sameFile) {
+        notation += fromSquare[0];
+      } else if (!sameRank) {
+        notation += fromSquare[1];
+      } else {
+        notation += fromSquare;
+      }
+    }
   }
   
   if (isCapture) {
-    if (piece.type === 'pawn') {
-      notation += files[from.col];
-    }
     notation += 'x';
   }
   
-  notation += files[to.col] + ranks[to.row];
+  notation += positionToAlgebraic(to);
   
-  if (isEnPassant) {
-    notation += ' e.p.';
+  if (piece.type === 'pawn' && (to.row === 0 || to.row === 7)) {
+    notation += '=' + SAN_PIECE_LETTERS[move.promotionPiece ?? 'queen'];
   }
   
-  return notation;
+  return notation + suffix;
+};
+
+const SAN_PATTERN = /^([KQRBN])?([a-h])?([1-8])?(x)?([a-h][1-8])(?:=?([QRBN]))?$/;
+
+// Resolve a SAN string (e.g. "Nbd2", "exd6", "O-O") to the legal move it describes
+export const parseSAN = (gameState: GameState, san: string): Move | null => {
+  const cleaned = san.trim().replace(/[+#!?]+$/, '').replace(/0/g, 'O');
+  const candidates = getAllPossibleMoves(gameState.board, gameState.currentPlayer, gameState);
+  let matches: Move[];
+  
+  if (cleaned === 'O-O' || cleaned === 'O-O-O') {
+    const direction = cleaned === 'O-O' ? 1 : -1;
+    matches = candidates.filter(move =>
+      move.isCastling && Math.sign(move.to.col - move.from.col) === direction
+    );
+  } else {
+    const match = SAN_PATTERN.exec(cleaned);
+    if (!match) return null;
+    
+    const [, pieceLetter, fromFile, fromRank, , target, promotion] = match;
+    const findPieceType = (letter: string) => (Object.keys(SAN_PIECE_LETTERS) as PieceType[])
+      .find(type => SAN_PIECE_LETTERS[type] === letter)!;
+    const pieceType = findPieceType(pieceLetter ?? '');
+    // A promotion without a piece letter is read as a queen promotion
+    const promotionPiece = findPieceType(promotion ?? 'Q');
+    
+    matches = candidates.filter(move => {
+      const fromSquare = positionToAlgebraic(move.from);
+      return move.piece.type === pieceType &&
+        positionToAlgebraic(move.to) === target &&
+        (!fromFile || fromSquare[0] === fromFile) &&
+        (!fromRank || fromSquare[1] === fromRank) &&
+        (move.promotionPiece ? move.promotionPiece === promotionPiece : !promotion);
+    });
+  }
+  
+  if (matches.length !== 1) return null;
+  
+  const { from, to, promotionPiece } = matches[0];
+  const newGameState = makeMove(gameState, from, to, promotionPiece);
+  return newGameState ? newGameState.moveHistory[newGameState.moveHistory.length - 1] : null;
+};
+
+const UCI_PATTERN = /^([a-h][1-8])([a-h][1-8])([qrbn])?$/;
+
+// Resolve a UCI move string (e.g. "g1f3", "e7e8q") to the legal move it describes
+export const parseUCI = (gameState: GameState, uci: string): Move | null => {
+  const match = UCI_PATTERN.exec(uci.trim().toLowerCase());
+  if (!match) return null;
+  
+  const [, fromSquare, toSquare, promotion] = match;
+  const from = algebraicToPosition(fromSquare);
+  const to = algebraicToPosition(toSquare);
+  const promotionPiece = promotion
+    ? PROMOTION_PIECES.find(type => SAN_PIECE_LETTERS[type].toLowerCase() === promotion)
+    : undefined;
+  // A promotion letter only makes sense on a promotion, and a promotion needs one
+  if (!!promotionPiece !== isPromotionMove(gameState.board, from, to)) return null;
+  
+  const newGameState = makeMove(gameState, from, to, promotionPiece);
+  return newGameState ? newGameState.moveHistory[newGameState.moveHistory.length - 1] : null;
 };
 
 export const positionToAlgebraic = (pos: Position): string => {
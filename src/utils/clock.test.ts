@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest';
+import { createClock, formatClockTime, getFlaggedColor, getRemainingMs, pressClock, startClock, stopClock } from './clock';
+
+const SECOND = 1000;
+
+// Times are given to the clock by the caller, so a test can set them as it likes
+const startedClock = (control: { initialMs: number; incrementMs: number; delayMs: number }, now = 0) => {
+  // White's first move only starts black's clock; black's reply starts white's
+  return pressClock(pressClock(createClock(control), 'white', now), 'black', now);
+};
+
+describe('clock', () => {
+  it('runs only the clock of the side to move, starting after the first move', () => {
+    const clock = pressClock(createClock({ initialMs: 60 * SECOND, incrementMs: 0, delayMs: 0 }), 'white', 1000);
+
+    expect(clock.activeColor).toBe('black');
+    expect(getRemainingMs(clock, 'black', 6000)).toBe(55 * SECOND);
+    expect(getRemainingMs(clock, 'white', 6000)).toBe(60 * SECOND);
+  });
+
+  it('adds the Fischer increment after every move, however long it took', () => {
+    let clock = startedClock({ initialMs: 60 * SECOND, incrementMs: 2 * SECOND, delayMs: 0 });
+
+    clock = pressClock(clock, 'white', 10 * SECOND);
+    expect(clock.remainingMs.white).toBe(52 * SECOND);
+
+    // Black's instant first reply already earned one increment
+    clock = pressClock(clock, 'black', 10.5 * SECOND);
+    expect(clock.remainingMs.black).toBe(63.5 * SECOND);
+  });
+
+  it('gives back Bronstein delay up to the time used, never more', () => {
+    let clock = startedClock({ initialMs: 60 * SECOND, incrementMs: 0, delayMs: 3 * SECOND });
+
+    // A quick move costs nothing
+    clock = pressClock(clock, 'white', 2 * SECOND);
+    expect(clock.remainingMs.white).toBe(60 * SECOND);
+
+    // A slow one costs everything beyond the delay
+    clock = pressClock(clock, 'black', 12 * SECOND);
+    expect(clock.remainingMs.black).toBe(53 * SECOND);
+  });
+
+  it('lets a flag fall once the running side is out of time', () => {
+    const clock = startedClock({ initialMs: 5 * SECOND, incrementMs: 2 * SECOND, delayMs: 0 });
+
+    expect(getFlaggedColor(clock, 4999)).toBeNull();
+    expect(getFlaggedColor(clock, 5 * SECOND)).toBe('white');
+    expect(getRemainingMs(clock, 'white', 7 * SECOND)).toBe(0);
+    // Moving too late does not earn the increment back
+    expect(pressClock(clock, 'white', 8 * SECOND).remainingMs.white).toBe(0);
+  });
+
+  it('stops with the running side charged for its time', () => {
+    const clock = stopClock(startedClock({ initialMs: 60 * SECOND, incrementMs: 0, delayMs: 0 }), 4 * SECOND);
+
+    expect(clock).toMatchObject({ activeColor: null, turnStartedAt: null });
+    expect(clock.remainingMs).toEqual({ white: 56 * SECOND, black: 60 * SECOND });
+    expect(getFlaggedColor(clock, 600 * SECOND)).toBeNull();
+  });
+
+  it('starts either side, charging the one that was running', () => {
+    const clock = startClock(startedClock({ initialMs: 60 * SECOND, incrementMs: 2 * SECOND, delayMs: 0 }), 'black', 4 * SECOND);
+
+    expect(clock).toMatchObject({ activeColor: 'black', turnStartedAt: 4 * SECOND });
+    expect(clock.remainingMs).toEqual({ white: 56 * SECOND, black: 62 * SECOND });
+    expect(getRemainingMs(clock, 'black', 10 * SECOND)).toBe(56 * SECOND);
+  });
+
+  it('formats times, with tenths under ten seconds', () => {
+    expect(formatClockTime(90 * 60 * SECOND)).toBe('1:30:00');
+    expect(formatClockTime(65 * SECOND)).toBe('1:05');
+    expect(formatClockTime(9.45 * SECOND)).toBe('0:09.4');
+  });
+});
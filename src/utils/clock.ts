@@ -0,0 +1,134 @@
+import { PieceColor } from '../types/chess';
+
+export interface TimeControl {
+  initialMs: number;
+  incrementMs: number; // Fischer: added after every move
+  delayMs: number; // Bronstein: time used is given back, up to this amount
+}
+
+export type TimeControlCategory = 'bullet' | 'blitz' | 'rapid' | 'classical';
+
+export interface TimeControlPreset {
+  id: string;
+  label: string;
+  category: TimeControlCategory;
+  control: TimeControl;
+}
+
+export interface ClockState {
+  control: TimeControl;
+  remainingMs: Record<PieceColor, number>;
+  activeColor: PieceColor | null; // null before the first move and after the game ends
+  turnStartedAt: number | null;
+}
+
+const MINUTE = 60 * 1000;
+const SECOND = 1000;
+
+const fischer = (minutes: number, incrementSeconds: number): TimeControl => ({
+  initialMs: minutes * MINUTE,
+  incrementMs: incrementSeconds * SECOND,
+  delayMs: 0
+});
+
+const bronstein = (minutes: number, delaySeconds: number): TimeControl => ({
+  initialMs: minutes * MINUTE,
+  incrementMs: 0,
+  delayMs: delaySeconds * SECOND
+});
+
+export const TIME_CONTROL_PRESETS: TimeControlPreset[] = [
+  { id: 'bullet-1+0', label: '1 + 0', category: 'bullet', control: fischer(1, 0) },
+  { id: 'bullet-2+1', label: '2 + 1', category: 'bullet', control: fischer(2, 1) },
+  { id: 'blitz-3+0', label: '3 + 0', category: 'blitz', control: fischer(3, 0) },
+  { id: 'blitz-3+2', label: '3 + 2', category: 'blitz', control: fischer(3, 2) },
+  { id: 'blitz-5+3d', label: '5 + 3 delay', category: 'blitz', control: bronstein(5, 3) },
+  { id: 'rapid-10+0', label: '10 + 0', category: 'rapid', control: fischer(10, 0) },
+  { id: 'rapid-15+10', label: '15 + 10', category: 'rapid', control: fischer(15, 10) },
+  { id: 'rapid-15+5d', label: '15 + 5 delay', category: 'rapid', control: bronstein(15, 5) },
+  { id: 'classical-30+0', label: '30 + 0', category: 'classical', control: fischer(30, 0) },
+  { id: 'classical-90+30', label: '90 + 30', category: 'classical', control: fischer(90, 30) }
+];
+
+export const createClock = (control: TimeControl): ClockState => ({
+  control,
+  remainingMs: { white: control.initialMs, black: control.initialMs },
+  activeColor: null,
+  turnStartedAt: null
+});
+
+export const getRemainingMs = (clock: ClockState, color: PieceColor, now: number): number => {
+  const remaining = clock.remainingMs[color];
+  if (clock.activeColor !== color || clock.turnStartedAt === null) {
+    return remaining;
+  }
+  return Math.max(0, remaining - (now - clock.turnStartedAt));
+};
+
+// The side that just moved presses its clock: its time is charged and credited,
+// and the opponent's clock starts. The first press only starts the clock.
+export const pressClock = (clock: ClockState, movedColor: PieceColor, now: number): ClockState => {
+  const opponent: PieceColor = movedColor === 'white' ? 'black' : 'white';
+
+  if (clock.activeColor !== movedColor || clock.turnStartedAt === null) {
+    return { ...clock, activeColor: opponent, turnStartedAt: now };
+  }
+
+  const used = now - clock.turnStartedAt;
+  const { incrementMs, delayMs } = clock.control;
+  const remaining = clock.remainingMs[movedColor] - used + incrementMs + Math.min(used, delayMs);
+
+  return {
+    ...clock,
+    remainingMs: { ...clock.remainingMs, [movedColor]: Math.max(0, remaining) },
+    activeColor: opponent,
+    turnStartedAt: now
+  };
+};
+
+// Freeze both clocks, charging the running side for the time it has used
+export const stopClock = (clock: ClockState, now: number): ClockState => {
+  if (!clock.activeColor) return clock;
+
+  return {
+    ...clock,
+    remainingMs: {
+      ...clock.remainingMs,
+      [clock.activeColor]: getRemainingMs(clock, clock.activeColor, now)
+    },
+    activeColor: null,
+    turnStartedAt: null
+  };
+};
+
+// Run `color`'s clock from `now`, charging whichever side was running until then
+export const startClock = (clock: ClockState, color: PieceColor, now: number): ClockState => ({
+  ...stopClock(clock, now),
+  activeColor: color,
+  turnStartedAt: now
+});
+
+// The side whose flag has fallen, if any
+export const getFlaggedColor = (clock: ClockState, now: number): PieceColor | null => {
+  if (clock.activeColor && getRemainingMs(clock, clock.activeColor, now) <= 0) {
+    return clock.activeColor;
+  }
+  return null;
+};
+
+export const formatClockTime = (ms: number): string => {
+  const totalSeconds = Math.floor(ms / SECOND);
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  const pad = (value: number) => String(value).padStart(2, '0');
+
+  if (hours > 0) {
+    return `${hours}:${pad(minutes)}:${pad(seconds)}`;
+  }
+  // Show tenths when time is running low
+  if (ms < 10 * SECOND) {
+    return `${minutes}:${pad(seconds)}.${Math.floor((ms % SECOND) / 100)}`;
+  }
+  return `${minutes}:${pad(seconds)}`;
+};
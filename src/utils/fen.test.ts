@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest';
+import { fromFEN, STARTING_FEN, toFEN } from './fen';
+import { createInitialGameState } from './chessLogic';
+
+describe('FEN', () => {
+  it('writes the initial position as the standard starting FEN', () => {
+    expect(toFEN(createInitialGameState())).toBe(STARTING_FEN);
+  });
+
+  it('reads back what it writes', () => {
+    const fen = 'r3k2r/p1ppqpb1/bn2pnp1/3PN3/1p2P3/2N2Q1p/PPPBBPPP/R3K2R b Kq - 3 17';
+    expect(toFEN(fromFEN(fen))).toBe(fen);
+  });
+
+  it('rejects malformed fields', () => {
+    expect(() => fromFEN('8/8/8/8/8/8/8/8 w - - 0 1')).toThrow('exactly one king');
+    expect(() => fromFEN('4k3/8/8/8/8/8/8/4K3 x - - 0 1')).toThrow('active color');
+    expect(() => fromFEN('4k3/8/8/8/8/8/8/4K3 w - e4 0 1')).toThrow('en passant');
+  });
+
+  it('rejects pawns on the first or eighth rank', () => {
+    expect(() => fromFEN('P3k3/8/8/8/8/8/8/4K3 w - - 0 1')).toThrow('first or eighth rank');
+    expect(() => fromFEN('4k3/8/8/8/8/8/8/p3K3 b - - 0 1')).toThrow('first or eighth rank');
+  });
+
+  it('rejects a position where the side that just moved is in check', () => {
+    expect(() => fromFEN('4k3/4Q3/8/8/8/8/8/4K3 w - - 0 1')).toThrow('black is in check');
+    expect(fromFEN('4k3/4Q3/8/8/8/8/8/4K3 b - - 0 1').status).toBe('check');
+  });
+
+  it('rejects castling rights without the king and rook on the back rank', () => {
+    expect(() => fromFEN('r3k2r/8/8/8/8/8/4K3/R6R w KQkq - 0 1')).toThrow('white castle without a king');
+    expect(() => fromFEN('r3k3/8/8/8/8/8/8/R3K2R b KQkq - 0 1')).toThrow('black castle king side without a rook');
+    expect(() => fromFEN('r3k2r/8/8/8/8/8/8/4K2R w KQkq - 0 1')).toThrow('white castle queen side without a rook');
+    // Shredder-FEN names the rook's file, so a rook must stand on it
+    expect(() => fromFEN('r3k2r/8/8/8/8/8/8/R3K2R w GAha - 0 1')).toThrow('white castle king side without a rook');
+  });
+
+  it('keeps castling rights that have a king and rook to castle with', () => {
+    const gameState = fromFEN('r3k3/8/8/8/8/8/8/4K2R w Kq - 0 1');
+    expect(gameState.castlingRights).toEqual({
+      whiteKingSide: true,
+      whiteQueenSide: false,
+      blackKingSide: false,
+      blackQueenSide: true
+    });
+    expect(gameState.castlingRookFiles).toBeUndefined();
+  });
+});
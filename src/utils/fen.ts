@@ -0,0 +1,283 @@
+import { CastlingRookFiles, ChessPiece, GameState, PieceColor, PieceType } from '../types/chess';
+import {
+  algebraicToPosition,
+  getAutomaticDrawReason,
+  getGameStatus,
+  getPositionKey,
+  isInCheck,
+  isValidPosition,
+  positionToAlgebraic,
+  STANDARD_CASTLING_ROOK_FILES
+} from './chessLogic';
+
+export const STARTING_FEN = 'rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1';
+
+// How castling rights are written. X-FEN uses KQkq unless another rook on the
+// same side makes that ambiguous, then the rook's file; Shredder-FEN always
+// names the files ("HAha"). The two only differ for Chess960 positions.
+export type CastlingNotation = 'xfen' | 'shredder';
+
+const FILES = 'abcdefgh';
+
+type CastlingRight = keyof CastlingRookFiles;
+
+const CASTLING_RIGHTS: { right: CastlingRight; color: PieceColor; kingSide: boolean }[] = [
+  { right: 'whiteKingSide', color: 'white', kingSide: true },
+  { right: 'whiteQueenSide', color: 'white', kingSide: false },
+  { right: 'blackKingSide', color: 'black', kingSide: true },
+  { right: 'blackQueenSide', color: 'black', kingSide: false }
+];
+
+const PIECE_TO_FEN: Record<PieceType, string> = {
+  pawn: 'p',
+  knight: 'n',
+  bishop: 'b',
+  rook: 'r',
+  queen: 'q',
+  king: 'k'
+};
+
+const FEN_TO_PIECE: Record<string, PieceType> = {
+  p: 'pawn',
+  n: 'knight',
+  b: 'bishop',
+  r: 'rook',
+  q: 'queen',
+  k: 'king'
+};
+
+const pieceToFEN = (piece: ChessPiece): string => {
+  const letter = PIECE_TO_FEN[piece.type];
+  return piece.color === 'white' ? letter.toUpperCase() : letter;
+};
+
+const boardToPlacement = (board: (ChessPiece | null)[][]): string => {
+  return board.map(row => {
+    let rank = '';
+    let empty = 0;
+
+    for (const piece of row) {
+      if (piece === null) {
+        empty++;
+        continue;
+      }
+      if (empty > 0) {
+        rank += empty;
+        empty = 0;
+      }
+      rank += pieceToFEN(piece);
+    }
+
+    return empty > 0 ? rank + empty : rank;
+  }).join('/');
+};
+
+const getBackRow = (color: PieceColor): number => color === 'white' ? 7 : 0;
+
+const findBackRankKing = (board: (ChessPiece | null)[][], color: PieceColor): number => {
+  return board[getBackRow(color)].findIndex(piece => piece?.type === 'king' && piece.color === color);
+};
+
+// File of the rook furthest from the king on one side, or -1 if there is none
+const findOutermostRook = (board: (ChessPiece | null)[][], color: PieceColor, kingSide: boolean): number => {
+  const row = board[getBackRow(color)];
+  const king = findBackRankKing(board, color);
+  const files = kingSide ? [7, 6, 5, 4, 3, 2, 1, 0] : [0, 1, 2, 3, 4, 5, 6, 7];
+  return files.find(file => (kingSide ? file > king : file < king) &&
+    row[file]?.type === 'rook' && row[file]?.color === color) ?? -1;
+};
+
+const castlingToFEN = (gameState: GameState, notation: CastlingNotation): string => {
+  const rookFiles = gameState.castlingRookFiles ?? STANDARD_CASTLING_ROOK_FILES;
+  let castling = '';
+
+  for (const { right, color, kingSide } of CASTLING_RIGHTS) {
+    if (!gameState.castlingRights[right]) continue;
+
+    const file = rookFiles[right];
+    const letter = notation === 'xfen' && file === findOutermostRook(gameState.board, color, kingSide)
+      ? (kingSide ? 'k' : 'q')
+      : FILES[file];
+    castling += color === 'white' ? letter.toUpperCase() : letter;
+  }
+  return castling || '-';
+};
+
+export const toFEN = (gameState: GameState, castlingNotation: CastlingNotation = 'xfen'): string => {
+  const placement = boardToPlacement(gameState.board);
+  const activeColor = gameState.currentPlayer === 'white' ? 'w' : 'b';
+  const castling = castlingToFEN(gameState, castlingNotation);
+  const enPassant = gameState.enPassantTarget ? positionToAlgebraic(gameState.enPassantTarget) : '-';
+
+  return `${placement} ${activeColor} ${castling} ${enPassant} ${gameState.halfMoveClock} ${gameState.fullMoveNumber}`;
+};
+
+const parsePlacement = (placement: string): (ChessPiece | null)[][] => {
+  const ranks = placement.split('/');
+  if (ranks.length !== 8) {
+    throw new Error(`Invalid FEN: expected 8 ranks in piece placement, got ${ranks.length}`);
+  }
+
+  return ranks.map((rank, rowIndex) => {
+    const row: (ChessPiece | null)[] = [];
+
+    for (const char of rank) {
+      if (char >= '1' && char <= '8') {
+        for (let i = 0; i < Number(char); i++) {
+          row.push(null);
+        }
+        continue;
+      }
+
+      const type = FEN_TO_PIECE[char.toLowerCase()];
+      if (!type) {
+        throw new Error(`Invalid FEN: unknown piece "${char}" on rank ${8 - rowIndex}`);
+      }
+      row.push({ type, color: char === char.toUpperCase() ? 'white' : 'black' });
+    }
+
+    if (row.length !== 8) {
+      throw new Error(`Invalid FEN: rank ${8 - rowIndex} describes ${row.length} squares instead of 8`);
+    }
+
+    return row;
+  });
+};
+
+// Reads standard, X-FEN and Shredder-FEN castling fields. Each right needs the
+// king and the rook it castles with on their back rank. The rook files are
+// only returned for Chess960: when asked for, or when the field or the
+// position cannot be standard chess.
+const parseCastling = (
+  castling: string,
+  board: (ChessPiece | null)[][],
+  chess960: boolean
+): Pick<GameState, 'castlingRights' | 'castlingRookFiles'> => {
+  if (castling !== '-' && !/^[KQA-H]{0,2}[kqa-h]{0,2}$/.test(castling)) {
+    throw new Error(`Invalid FEN: bad castling field "${castling}"`);
+  }
+
+  const castlingRights = { whiteKingSide: false, whiteQueenSide: false, blackKingSide: false, blackQueenSide: false };
+  const rookFiles = { ...STANDARD_CASTLING_ROOK_FILES };
+  let isChess960 = chess960;
+
+  for (const char of castling === '-' ? '' : castling) {
+    const color: PieceColor = char === char.toUpperCase() ? 'white' : 'black';
+    const letter = char.toLowerCase();
+    const king = findBackRankKing(board, color);
+    if (king === -1) {
+      throw new Error(`Invalid FEN: castling field "${castling}" has ${color} castle without a king on its back rank`);
+    }
+
+    let kingSide: boolean;
+    let file: number;
+    if (letter === 'k' || letter === 'q') {
+      kingSide = letter === 'k';
+      file = findOutermostRook(board, color, kingSide);
+    } else {
+      file = FILES.indexOf(letter);
+      kingSide = file > king;
+      isChess960 = true;
+    }
+    const rook = board[getBackRow(color)][file];
+    if (rook?.type !== 'rook' || rook.color !== color) {
+      const side = kingSide ? 'king' : 'queen';
+      throw new Error(`Invalid FEN: castling field "${castling}" has ${color} castle ${side} side without a rook there`);
+    }
+
+    const right = `${color}${kingSide ? 'KingSide' : 'QueenSide'}` as CastlingRight;
+    if (castlingRights[right]) {
+      throw new Error(`Invalid FEN: castling field "${castling}" repeats a right`);
+    }
+    castlingRights[right] = true;
+    rookFiles[right] = file;
+
+    if (file !== STANDARD_CASTLING_ROOK_FILES[right] || king !== 4) {
+      isChess960 = true;
+    }
+  }
+
+  return isChess960 ? { castlingRights, castlingRookFiles: rookFiles } : { castlingRights };
+};
+
+const parseCounter = (value: string, name: string, min: number): number => {
+  if (!/^\d+$/.test(value) || Number(value) < min) {
+    throw new Error(`Invalid FEN: bad ${name} "${value}"`);
+  }
+  return Number(value);
+};
+
+const countKings = (board: (ChessPiece | null)[][], color: PieceColor): number => {
+  return board.flat().filter(p => p !== null && p.type === 'king' && p.color === color).length;
+};
+
+export interface FenOptions {
+  chess960?: boolean; // Castle by Chess960 rules even if the position could be standard chess
+}
+
+export const fromFEN = (fen: string, options: FenOptions = {}): GameState => {
+  const fields = fen.trim().split(/\s+/);
+  if (fields.length !== 6) {
+    throw new Error(`Invalid FEN: expected 6 fields, got ${fields.length}`);
+  }
+
+  const [placement, activeColor, castling, enPassant, halfMoves, fullMoves] = fields;
+  const board = parsePlacement(placement);
+
+  if (countKings(board, 'white') !== 1 || countKings(board, 'black') !== 1) {
+    throw new Error('Invalid FEN: each side must have exactly one king');
+  }
+
+  if (activeColor !== 'w' && activeColor !== 'b') {
+    throw new Error(`Invalid FEN: active color must be "w" or "b", got "${activeColor}"`);
+  }
+  const currentPlayer: PieceColor = activeColor === 'w' ? 'white' : 'black';
+
+  if ([...board[0], ...board[7]].some(piece => piece?.type === 'pawn')) {
+    throw new Error('Invalid FEN: pawns cannot stand on the first or eighth rank');
+  }
+  // The side that just moved cannot have left its own king in check
+  const opponent: PieceColor = currentPlayer === 'white' ? 'black' : 'white';
+  if (isInCheck(board, opponent)) {
+    throw new Error(`Invalid FEN: ${opponent} is in check but it is ${currentPlayer} to move`);
+  }
+
+  let enPassantTarget = null;
+  if (enPassant !== '-') {
+    const target = algebraicToPosition(enPassant);
+    const expectedRow = currentPlayer === 'white' ? 2 : 5;
+    if (enPassant.length !== 2 || !isValidPosition(target) || target.row !== expectedRow) {
+      throw new Error(`Invalid FEN: bad en passant square "${enPassant}"`);
+    }
+    enPassantTarget = target;
+  }
+
+  const gameState: GameState = {
+    board,
+    currentPlayer,
+    status: 'active',
+    moveHistory: [],
+    capturedPieces: { white: [], black: [] },
+    ...parseCastling(castling, board, !!options.chess960),
+    enPassantTarget,
+    halfMoveClock: parseCounter(halfMoves, 'halfmove clock', 0),
+    fullMoveNumber: parseCounter(fullMoves, 'fullmove number', 1),
+    positionHistory: []
+  };
+
+  const normalizedFen = fields.join(' ');
+  if (gameState.castlingRookFiles) {
+    // Written with the rook files so that it reads back as Chess960
+    gameState.startFen = toFEN(gameState, 'shredder');
+  } else if (normalizedFen !== STARTING_FEN) {
+    gameState.startFen = normalizedFen;
+  }
+
+  gameState.positionHistory = [getPositionKey(gameState)];
+  gameState.status = getGameStatus(gameState);
+  if (gameState.status === 'draw') {
+    gameState.drawReason = getAutomaticDrawReason(gameState) ?? undefined;
+  }
+
+  return gameState;
+};
@@ -0,0 +1,56 @@
+import { GameState } from '../types/chess';
+import { createInitialGameState, makeMove } from './chessLogic';
+import { fromFEN } from './fen';
+
+// Every position reached in the game, plus a cursor for undo/redo
+export interface GameTimeline {
+  states: GameState[];
+  index: number;
+}
+
+export const createTimeline = (initialState: GameState): GameTimeline => ({
+  states: [initialState],
+  index: 0
+});
+
+export const getCurrentState = (timeline: GameTimeline): GameState => {
+  return timeline.states[timeline.index];
+};
+
+// Record a new position; any undone (redo) states are discarded
+export const pushState = (timeline: GameTimeline, state: GameState): GameTimeline => ({
+  states: [...timeline.states.slice(0, timeline.index + 1), state],
+  index: timeline.index + 1
+});
+
+export const canUndo = (timeline: GameTimeline): boolean => timeline.index > 0;
+
+export const canRedo = (timeline: GameTimeline): boolean => timeline.index < timeline.states.length - 1;
+
+export const undo = (timeline: GameTimeline, steps = 1): GameTimeline => ({
+  ...timeline,
+  index: Math.max(0, timeline.index - steps)
+});
+
+export const redo = (timeline: GameTimeline, steps = 1): GameTimeline => ({
+  ...timeline,
+  index: Math.min(timeline.states.length - 1, timeline.index + steps)
+});
+
+// Every position of the game from its start, rebuilt from the move list so
+// positions[n] is the board after n moves
+export const replayPositions = (gameState: GameState): GameState[] => {
+  const positions = [gameState.startFen ? fromFEN(gameState.startFen) : createInitialGameState()];
+
+  for (const move of gameState.moveHistory) {
+    const next = makeMove(positions[positions.length - 1], move.from, move.to, move.promotionPiece);
+    if (!next) break;
+    positions.push(next);
+  }
+
+  // The live state may carry a result the replay cannot know, like a claimed draw or a timeout
+  if (positions.length === gameState.moveHistory.length + 1) {
+    positions[positions.length - 1] = gameState;
+  }
+  return positions;
+};
@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest';
+import { hasMatingMaterial, isDeadPosition } from './insufficientMaterial';
+import { fromFEN } from './fen';
+
+const boardOf = (placement: string) => fromFEN(`${placement} w - - 0 1`).board;
+
+describe('isDeadPosition', () => {
+  it('is dead with bare kings', () => {
+    expect(isDeadPosition(boardOf('4k3/8/8/8/8/8/8/4K3'))).toBe(true);
+  });
+
+  it('is dead with a lone bishop', () => {
+    expect(isDeadPosition(boardOf('4k3/8/8/8/8/8/8/2B1K3'))).toBe(true);
+  });
+
+  it('is dead with a lone knight', () => {
+    expect(isDeadPosition(boardOf('4k3/8/8/8/8/8/8/1N2K3'))).toBe(true);
+  });
+
+  it('is dead with bishops on the same shade', () => {
+    // c1 and f8 are both dark squares
+    expect(isDeadPosition(boardOf('4kb2/8/8/8/8/8/8/2B1K3'))).toBe(true);
+  });
+
+  it('is not dead with bishops on opposite shades', () => {
+    // c1 is dark, c8 light
+    expect(isDeadPosition(boardOf('2b1k3/8/8/8/8/8/8/2B1K3'))).toBe(false);
+  });
+
+  it('is not dead with two knights against a bare king', () => {
+    expect(isDeadPosition(boardOf('4k3/8/8/8/8/8/8/1N2KN2'))).toBe(false);
+  });
+
+  it('is not dead while a pawn is on the board', () => {
+    expect(isDeadPosition(boardOf('4k3/8/8/8/8/8/4P3/4K3'))).toBe(false);
+  });
+
+  it('ends a game loaded in a dead position as a draw', () => {
+    const gameState = fromFEN('4k3/8/8/8/8/8/8/1N2K3 w - - 0 1');
+    expect(gameState.status).toBe('draw');
+    expect(gameState.drawReason).toBe('insufficientMaterial');
+  });
+});
+
+describe('hasMatingMaterial', () => {
+  it('lets two knights mate a bare king', () => {
+    const board = boardOf('4k3/8/8/8/8/8/8/1N2KN2');
+    expect(hasMatingMaterial(board, 'white')).toBe(true);
+    expect(hasMatingMaterial(board, 'black')).toBe(false);
+  });
+
+  it('lets a lone knight mate only when the enemy king has pieces to block it in', () => {
+    expect(hasMatingMaterial(boardOf('4k3/8/8/8/8/8/8/1N2K3'), 'white')).toBe(false);
+    expect(hasMatingMaterial(boardOf('4k3/4p3/8/8/8/8/8/1N2K3'), 'white')).toBe(true);
+  });
+
+  it('lets a rook or queen mate', () => {
+    expect(hasMatingMaterial(boardOf('4k3/8/8/8/8/8/8/R3K3'), 'white')).toBe(true);
+    expect(hasMatingMaterial(boardOf('4k3/8/8/8/8/8/8/3QK3'), 'white')).toBe(true);
+  });
+});
@@ -0,0 +1,67 @@
+import { ChessPiece, PieceColor, Position } from '../types/chess';
+
+interface PlacedPiece {
+  piece: ChessPiece;
+  position: Position;
+}
+
+const getPieces = (board: (ChessPiece | null)[][], color: PieceColor): PlacedPiece[] => {
+  const pieces: PlacedPiece[] = [];
+
+  for (let row = 0; row < 8; row++) {
+    for (let col = 0; col < 8; col++) {
+      const piece = board[row][col];
+      if (piece && piece.color === color && piece.type !== 'king') {
+        pieces.push({ piece, position: { row, col } });
+      }
+    }
+  }
+
+  return pieces;
+};
+
+const squareShade = (position: Position): number => (position.row + position.col) % 2;
+
+// Whether `color` could ever deliver checkmate by some sequence of legal moves,
+// assuming the opponent cooperates. Used for flag-fall: a player whose opponent
+// has no mating material cannot win on time.
+export const hasMatingMaterial = (board: (ChessPiece | null)[][], color: PieceColor): boolean => {
+  const own = getPieces(board, color);
+  const opponent = getPieces(board, color === 'white' ? 'black' : 'white');
+
+  if (own.some(({ piece }) => piece.type === 'pawn' || piece.type === 'rook' || piece.type === 'queen')) {
+    return true;
+  }
+
+  const knights = own.filter(({ piece }) => piece.type === 'knight');
+  const bishops = own.filter(({ piece }) => piece.type === 'bishop');
+
+  if (knights.length === 0 && bishops.length === 0) {
+    return false;
+  }
+
+  // A lone knight mates only when enemy pieces block their own king's escape
+  if (knights.length === 1 && bishops.length === 0) {
+    return opponent.length > 0;
+  }
+
+  // Bishops all on one shade can never attack the other shade, so mate needs an
+  // enemy piece that can stand on the other shade to hem the king in
+  if (knights.length === 0) {
+    const shade = squareShade(bishops[0].position);
+    if (bishops.every(({ position }) => squareShade(position) === shade)) {
+      return opponent.some(({ piece, position }) =>
+        piece.type !== 'bishop' || squareShade(position) !== shade
+      );
+    }
+  }
+
+  return true;
+};
+
+// A dead position: no sequence of legal moves lets either side checkmate,
+// e.g. K v K, K+minor v K, or K+B v K+B with all bishops on the same shade.
+// The game ends immediately as a draw.
+export const isDeadPosition = (board: (ChessPiece | null)[][]): boolean => {
+  return !hasMatingMaterial(board, 'white') && !hasMatingMaterial(board, 'black');
+};
@@ -0,0 +1,185 @@
+import { GameState, Move, Position, PromotionPieceType } from '../types/chess';
+import { makeMove, positionsEqual } from './chessLogic';
+
+// One position in the tree, reached by playing `move` from its parent
+export interface MoveNode {
+  id: number;
+  parentId: number | null;
+  move: Move | null; // null for the root, the starting position
+  gameState: GameState;
+  children: number[]; // Main continuation first, then sidelines
+  comment: string; // On the root: a comment before the first move
+  commentBefore: string; // A comment placed before the move, as PGN allows
+  nags: number[];
+}
+
+// Nodes are kept in a flat map so that updates only copy the nodes they touch
+export interface MoveTree {
+  nodes: Record<number, MoveNode>;
+  rootId: number;
+  nextId: number;
+}
+
+export const createMoveTree = (startState: GameState): MoveTree => ({
+  nodes: {
+    0: { id: 0, parentId: null, move: null, gameState: startState, children: [], comment: '', commentBefore: '', nags: [] }
+  },
+  rootId: 0,
+  nextId: 1
+});
+
+export const getNode = (tree: MoveTree, id: number): MoveNode => tree.nodes[id];
+
+const updateNode = (tree: MoveTree, id: number, changes: Partial<MoveNode>): MoveTree => ({
+  ...tree,
+  nodes: { ...tree.nodes, [id]: { ...tree.nodes[id], ...changes } }
+});
+
+// Nodes from the root down to `id`, both included
+export const getPath = (tree: MoveTree, id: number): MoveNode[] => {
+  const path = [tree.nodes[id]];
+  while (path[0].parentId !== null) {
+    path.unshift(tree.nodes[path[0].parentId]);
+  }
+  return path;
+};
+
+export const isOnPath = (tree: MoveTree, id: number, pathEndId: number): boolean => {
+  return getPath(tree, pathEndId).some(node => node.id === id);
+};
+
+// The main continuation from `id`, not including `id` itself
+export const getMainline = (tree: MoveTree, id = tree.rootId): MoveNode[] => {
+  const line: MoveNode[] = [];
+  for (let node = tree.nodes[id]; node.children.length > 0; node = tree.nodes[node.children[0]]) {
+    line.push(tree.nodes[node.children[0]]);
+  }
+  return line;
+};
+
+const isSameMove = (move: Move, from: Position, to: Position, promotionPiece?: PromotionPieceType): boolean => {
+  // makeMove promotes to a queen unless told otherwise
+  return positionsEqual(move.from, from) && positionsEqual(move.to, to) &&
+    (!move.promotionPiece || move.promotionPiece === (promotionPiece ?? 'queen'));
+};
+
+export const findChild = (
+  tree: MoveTree,
+  parentId: number,
+  from: Position,
+  to: Position,
+  promotionPiece?: PromotionPieceType
+): number | null => {
+  const childId = tree.nodes[parentId].children.find(id => isSameMove(tree.nodes[id].move!, from, to, promotionPiece));
+  return childId ?? null;
+};
+
+// Play a move from `parentId`. An existing child for the same move is reused;
+// otherwise the move becomes a new sideline, or the main continuation if
+// `asMainline` is set or there is none yet. Returns null for illegal moves.
+export const addMove = (
+  tree: MoveTree,
+  parentId: number,
+  from: Position,
+  to: Position,
+  promotionPiece?: PromotionPieceType,
+  asMainline = false
+): { tree: MoveTree; nodeId: number } | null => {
+  const existing = findChild(tree, parentId, from, to, promotionPiece);
+  if (existing !== null) {
+    return { tree, nodeId: existing };
+  }
+
+  const parent = tree.nodes[parentId];
+  const gameState = makeMove(parent.gameState, from, to, promotionPiece);
+  if (!gameState) return null;
+
+  const node: MoveNode = {
+    id: tree.nextId,
+    parentId,
+    move: gameState.moveHistory[gameState.moveHistory.length - 1],
+    gameState,
+    children: [],
+    comment: '',
+    commentBefore: '',
+    nags: []
+  };
+  const children = asMainline ? [node.id, ...parent.children] : [...parent.children, node.id];
+
+  return {
+    tree: {
+      nodes: { ...tree.nodes, [node.id]: node, [parentId]: { ...parent, children } },
+      rootId: tree.rootId,
+      nextId: tree.nextId + 1
+    },
+    nodeId: node.id
+  };
+};
+
+// Make sure every move of a game is in the tree. Moves that are new to the tree
+// become the main continuation, since they are what was actually played.
+// Returns the tree unchanged when nothing had to be added.
+export const addGameMoves = (tree: MoveTree, gameState: GameState): { tree: MoveTree; nodeId: number } => {
+  let current = { tree, nodeId: tree.rootId };
+
+  for (const move of gameState.moveHistory) {
+    const next = addMove(current.tree, current.nodeId, move.from, move.to, move.promotionPiece, true);
+    if (!next) break;
+    current = next;
+  }
+
+  // Keep results the replay cannot know, like a claimed draw or a timeout
+  const node = current.tree.nodes[current.nodeId];
+  if (current.nodeId !== tree.rootId && node.gameState.status !== gameState.status &&
+      node.gameState.moveHistory.length === gameState.moveHistory.length) {
+    current = { ...current, tree: updateNode(current.tree, current.nodeId, { gameState }) };
+  }
+  return current;
+};
+
+const moveSibling = (tree: MoveTree, id: number, offset: number): MoveTree => {
+  const { parentId } = tree.nodes[id];
+  if (parentId === null) return tree;
+
+  const children = [...tree.nodes[parentId].children];
+  const index = children.indexOf(id);
+  const target = index + offset;
+  if (target < 0 || target >= children.length) return tree;
+
+  [children[index], children[target]] = [children[target], children[index]];
+  return updateNode(tree, parentId, { children });
+};
+
+// Move a line one place towards the main continuation
+export const promoteVariation = (tree: MoveTree, id: number): MoveTree => moveSibling(tree, id, -1);
+
+export const demoteVariation = (tree: MoveTree, id: number): MoveTree => moveSibling(tree, id, 1);
+
+// Remove a move and everything played after it
+export const deleteVariation = (tree: MoveTree, id: number): MoveTree => {
+  const { parentId } = tree.nodes[id];
+  if (parentId === null) return tree;
+
+  const nodes = { ...tree.nodes };
+  const remove = (nodeId: number) => {
+    nodes[nodeId].children.forEach(remove);
+    delete nodes[nodeId];
+  };
+  remove(id);
+
+  const parent = nodes[parentId];
+  nodes[parentId] = { ...parent, children: parent.children.filter(childId => childId !== id) };
+  return { ...tree, nodes };
+};
+
+export const setComment = (tree: MoveTree, id: number, comment: string): MoveTree => {
+  return updateNode(tree, id, { comment });
+};
+
+export const setCommentBefore = (tree: MoveTree, id: number, commentBefore: string): MoveTree => {
+  return updateNode(tree, id, { commentBefore });
+};
+
+export const setNags = (tree: MoveTree, id: number, nags: number[]): MoveTree => {
+  return updateNode(tree, id, { nags });
+};
@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest';
+import { createInitialGameState, perft, perftDivide } from './chessLogic';
+import { createChess960GameState } from './chess960';
+import { fromFEN } from './fen';
+
+// Node counts published on the Chess Programming Wiki ("Perft Results") and,
+// for Chess960, in its "Chess960 Perft Results"
+const POSITIONS: { name: string; fen: string; counts: number[] }[] = [
+  {
+    name: 'Kiwipete',
+    fen: 'r3k2r/p1ppqpb1/bn2pnp1/3PN3/1p2P3/2N2Q1p/PPPBBPPP/R3K2R w KQkq - 0 1',
+    counts: [48, 2039, 97862]
+  },
+  {
+    name: 'position 3',
+    fen: '8/2p5/3p4/KP5r/1R3p1k/8/4P1P1/8 w - - 0 1',
+    counts: [14, 191, 2812, 43238]
+  },
+  {
+    name: 'position 4',
+    fen: 'r3k2r/Pppp1ppp/1b3nbN/nP6/BBP1P3/q4N2/Pp1P2PP/R2Q1RK1 w kq - 0 1',
+    counts: [6, 264, 9467]
+  },
+  {
+    name: 'position 5',
+    fen: 'rnbq1k1r/pp1Pbppp/2p5/8/2B5/8/PPP1NnPP/RNBQK2R w KQ - 1 8',
+    counts: [44, 1486, 62379]
+  },
+  {
+    name: 'position 6',
+    fen: 'r4rk1/1pp1qppp/p1np1n2/2b1p1B1/2B1P1b1/P1NP1N2/1PP1QPPP/R4RK1 w - - 0 10',
+    counts: [46, 2079, 89890]
+  },
+  {
+    name: 'Chess960 position 1',
+    fen: 'bqnb1rkr/pp3ppp/3ppn2/2p5/5P2/P2P4/NPP1P1PP/BQ1BNRKR w HFhf - 2 9',
+    counts: [21, 528, 12189]
+  },
+  {
+    name: 'Chess960 position 2',
+    fen: '2nnrbkr/p1qppppp/8/1ppb4/6PP/3PP3/PPP2P2/BQNNRBKR w HEhe - 1 9',
+    counts: [21, 807, 18002]
+  }
+];
+
+describe('perft', () => {
+  it('matches the start position', () => {
+    expect([1, 2, 3, 4].map(depth => perft(createInitialGameState(), depth))).toEqual([20, 400, 8902, 197281]);
+  });
+
+  it.each(POSITIONS)('matches $name', ({ fen, counts }) => {
+    const gameState = fromFEN(fen);
+    expect(counts.map((_, index) => perft(gameState, index + 1))).toEqual(counts);
+  });
+
+  it('counts the first moves of Chess960 start positions', () => {
+    for (const index of [0, 518, 959]) {
+      expect(perft(createChess960GameState(index), 1)).toBe(20);
+    }
+  });
+
+  it('counts the root to depth 0 as one node', () => {
+    expect(perft(createInitialGameState(), 0)).toBe(1);
+  });
+});
+
+describe('perftDivide', () => {
+  it('splits the total by root move', () => {
+    const gameState = fromFEN(POSITIONS[0].fen);
+    const divided = perftDivide(gameState, 2);
+    expect(Object.keys(divided)).toHaveLength(48);
+    expect(Object.values(divided).reduce((total, nodes) => total + nodes, 0)).toBe(2039);
+    expect(divided.e1g1).toBe(43);
+  });
+});
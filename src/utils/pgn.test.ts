@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest';
+import { MoveNode, MoveTree } from './moveTree';
+import { exportMoveTreePGN, exportPGN, importPGN, parsePGN, PgnImportError } from './pgn';
+
+// The node reached by playing `line` from the start, whichever branches it takes
+const findNode = (tree: MoveTree, line: string[]): MoveNode => {
+  return line.reduce((node, san) => {
+    const childId = node.children.find(id => tree.nodes[id].move!.notation === san);
+    if (childId === undefined) throw new Error(`${san} is not in the tree`);
+    return tree.nodes[childId];
+  }, tree.nodes[tree.rootId]);
+};
+
+describe('PGN', () => {
+  it('imports castling written with zeros', () => {
+    const { gameState } = importPGN('1. e4 e5 2. Nf3 Nc6 3. Bc4 Bc5 4. 0-0 Nf6 5. d4 d6 6. Nc3 0-0 *');
+    const castles = gameState.moveHistory.filter(move => move.isCastling).map(move => move.notation);
+    expect(castles).toEqual(['O-O', 'O-O']);
+  });
+
+  it('imports long castling written with zeros', () => {
+    const { gameState } = importPGN('1. d4 d5 2. Nc3 Nc6 3. Bf4 Bf5 4. Qd2 Qd7 5. 0-0-0 0-0-0 *');
+    expect(gameState.moveHistory.slice(-2).map(move => move.notation)).toEqual(['O-O-O', 'O-O-O']);
+  });
+
+  it('skips move numbers glued to moves or standing alone', () => {
+    const game = parsePGN('1.e4 1...e5 2 Nf3 *');
+    expect(game.moves.map(move => move.san)).toEqual(['e4', 'e5', 'Nf3']);
+  });
+
+  it('reads back an exported game', () => {
+    const { gameState } = importPGN('1. f3 e5 2. g4 Qh4# 0-1');
+    expect(gameState.status).toBe('checkmate');
+
+    const { gameState: reimported } = importPGN(exportPGN(gameState));
+    expect(reimported.moveHistory.map(move => move.notation)).toEqual(['f3', 'e5', 'g4', 'Qh4#']);
+  });
+
+  it('rejects illegal moves', () => {
+    expect(() => importPGN('1. e4 e5 2. Ke3 *')).toThrow(PgnImportError);
+  });
+
+  describe('variations', () => {
+    const pgn = '{Game start} 1. e4 {best by test} e5 (1... c5 {Sicilian} 2. Nf3 ({before Nc3} 2. Nc3 Nc6) 2... d6) ' +
+      '{before Nf3} 2. Nf3 $1 Nc6 ({before Nf6} 2... Nf6 3. Nxe5) 3. Bb5 *';
+
+    it('keeps comments on the side of the move they were written on', () => {
+      const { tree } = importPGN(pgn);
+
+      expect(tree.nodes[tree.rootId].comment).toBe('Game start');
+      expect(findNode(tree, ['e4']).comment).toBe('best by test');
+      expect(findNode(tree, ['e4', 'c5']).comment).toBe('Sicilian');
+      expect(findNode(tree, ['e4', 'c5', 'Nc3']).commentBefore).toBe('before Nc3');
+      expect(findNode(tree, ['e4', 'e5', 'Nf3'])).toMatchObject({ commentBefore: 'before Nf3', comment: '', nags: [1] });
+      expect(findNode(tree, ['e4', 'e5', 'Nf3', 'Nf6', 'Nxe5']).gameState.moveHistory).toHaveLength(5);
+    });
+
+    it('round-trips nested variations and comments through PGN', () => {
+      const exported = exportMoveTreePGN(importPGN(pgn).tree);
+      expect(exported).toContain('({before Nc3} 2. Nc3 Nc6) 2... d6) {before Nf3} 2. Nf3 $1 Nc6');
+
+      const { tree } = importPGN(exported);
+      expect(exportMoveTreePGN(tree)).toBe(exported);
+      expect(findNode(tree, ['e4', 'c5', 'Nc3']).commentBefore).toBe('before Nc3');
+      expect(findNode(tree, ['e4', 'e5', 'Nf3', 'Nf6']).commentBefore).toBe('before Nf6');
+      expect(findNode(tree, ['e4', 'e5', 'Nf3']).children.map(id => tree.nodes[id].move!.notation)).toEqual(['Nc6', 'Nf6']);
+    });
+  });
+});
@@ -0,0 +1,472 @@
+import { GameState } from '../types/chess';
+import { createInitialGameState, parseSAN } from './chessLogic';
+import { createChess960GameState, STANDARD_CHESS960_INDEX } from './chess960';
+import { fromFEN } from './fen';
+import { addMove, createMoveTree, getMainline, MoveNode, MoveTree, setComment, setCommentBefore, setNags } from './moveTree';
+
+export interface PgnMove {
+  san: string;
+  nags: number[];
+  commentsBefore: string[];
+  comments: string[];
+  variations: PgnMove[][]; // Alternatives to this move, each starting at the same ply
+}
+
+export interface PgnGame {
+  headers: Record<string, string>;
+  moves: PgnMove[];
+  result: string;
+}
+
+export class PgnImportError extends Error {
+  ply: number | null;
+
+  constructor(message: string, ply: number | null = null) {
+    super(message);
+    this.name = 'PgnImportError';
+    this.ply = ply;
+  }
+}
+
+const SEVEN_TAG_ROSTER = ['Event', 'Site', 'Date', 'Round', 'White', 'Black', 'Result'];
+const RESULTS = ['1-0', '0-1', '1/2-1/2', '*'];
+const MAX_LINE_LENGTH = 80;
+
+// Suffix annotations and their standard NAG equivalents
+const SUFFIX_NAGS: Record<string, number> = {
+  '!': 1,
+  '?': 2,
+  '!!': 3,
+  '??': 4,
+  '!?': 5,
+  '?!': 6
+};
+
+const createPgnMove = (san: string): PgnMove => ({
+  san,
+  nags: [],
+  commentsBefore: [],
+  comments: [],
+  variations: []
+});
+
+const formatPgnDate = (date: Date): string => {
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${date.getFullYear()}.${pad(date.getMonth() + 1)}.${pad(date.getDate())}`;
+};
+
+const escapeTagValue = (value: string): string => value.replace(/\\/g, '\\\\').replace(/"/g, '\\"');
+
+export const getResult = (gameState: GameState): string => {
+  switch (gameState.status) {
+    case 'checkmate':
+    case 'timeout':
+      return gameState.currentPlayer === 'white' ? '0-1' : '1-0';
+    case 'stalemate':
+    case 'draw':
+      return '1/2-1/2';
+    default:
+      return '*';
+  }
+};
+
+// Ply index (0 = white's first move) of the first move after the given FEN
+const getStartingPly = (fen?: string): number => {
+  if (!fen) return 0;
+  const fields = fen.trim().split(/\s+/);
+  const fullMoveNumber = Number(fields[5]) || 1;
+  return (fullMoveNumber - 1) * 2 + (fields[1] === 'b' ? 1 : 0);
+};
+
+const wrapTokens = (tokens: string[]): string => {
+  const lines: string[] = [];
+  let line = '';
+
+  // Parentheses are written flush against the moves they enclose
+  const glued: string[] = [];
+  for (let i = 0; i < tokens.length; i++) {
+    if (tokens[i] === '(' && i + 1 < tokens.length) {
+      glued.push(`(${tokens[++i]}`);
+    } else if (tokens[i] === ')' && glued.length > 0) {
+      glued[glued.length - 1] += ')';
+    } else {
+      glued.push(tokens[i]);
+    }
+  }
+
+  for (const token of glued) {
+    if (line.length > 0 && line.length + 1 + token.length > MAX_LINE_LENGTH) {
+      lines.push(line);
+      line = token;
+    } else {
+      line = line.length > 0 ? `${line} ${token}` : token;
+    }
+  }
+
+  if (line.length > 0) lines.push(line);
+  return lines.join('\n');
+};
+
+const formatComment = (comment: string): string => `{${comment.replace(/}/g, '')}}`;
+
+const writeMoveText = (moves: PgnMove[], startPly: number, tokens: string[]) => {
+  let needsNumber = true;
+
+  moves.forEach((move, index) => {
+    const ply = startPly + index;
+    const moveNumber = Math.floor(ply / 2) + 1;
+    const isWhite = ply % 2 === 0;
+
+    if (move.commentsBefore.length > 0) {
+      tokens.push(...move.commentsBefore.map(formatComment));
+      needsNumber = true;
+    }
+
+    if (isWhite) {
+      tokens.push(`${moveNumber}.`);
+    } else if (needsNumber) {
+      tokens.push(`${moveNumber}...`);
+    }
+
+    tokens.push(move.san);
+    tokens.push(...move.nags.map(nag => `$${nag}`));
+    tokens.push(...move.comments.map(formatComment));
+    needsNumber = move.comments.length > 0;
+
+    for (const variation of move.variations) {
+      tokens.push('(');
+      writeMoveText(variation, ply, tokens);
+      tokens.push(')');
+      needsNumber = true;
+    }
+  });
+};
+
+export const writePGN = (game: PgnGame): string => {
+  const headers: Record<string, string> = { ...game.headers, Result: game.result };
+  const tagNames = [
+    ...SEVEN_TAG_ROSTER,
+    ...Object.keys(headers).filter(name => !SEVEN_TAG_ROSTER.includes(name))
+  ];
+
+  const tagSection = tagNames
+    .map(name => `[${name} "${escapeTagValue(headers[name] ?? '?')}"]`)
+    .join('\n');
+
+  const tokens: string[] = [];
+  writeMoveText(game.moves, getStartingPly(headers.FEN), tokens);
+  tokens.push(game.result);
+
+  return `${tagSection}\n\n${wrapTokens(tokens)}\n`;
+};
+
+const getDefaultHeaders = ({ startFen, castlingRookFiles }: GameState): Record<string, string> => {
+  const headers: Record<string, string> = {
+    Event: 'Casual Game',
+    Site: '?',
+    Date: formatPgnDate(new Date()),
+    Round: '-',
+    White: 'White',
+    Black: 'Black'
+  };
+
+  if (castlingRookFiles) {
+    headers.Variant = 'Chess960';
+  }
+  if (startFen) {
+    headers.SetUp = '1';
+    headers.FEN = startFen;
+  }
+  return headers;
+};
+
+export const exportPGN = (gameState: GameState, headers: Record<string, string> = {}): string => {
+  return writePGN({
+    headers: { ...getDefaultHeaders(gameState), ...headers },
+    moves: gameState.moveHistory.map(move => createPgnMove(move.notation)),
+    result: getResult(gameState)
+  });
+};
+
+const nodeToPgnMove = (node: MoveNode): PgnMove => ({
+  ...createPgnMove(node.move!.notation),
+  nags: [...node.nags],
+  commentsBefore: node.commentBefore ? [node.commentBefore] : [],
+  comments: node.comment ? [node.comment] : []
+});
+
+// The line continuing from `parentId`, with sidelines as RAV variations
+const treeToPgnMoves = (tree: MoveTree, parentId: number): PgnMove[] => {
+  const moves: PgnMove[] = [];
+
+  for (let node = tree.nodes[parentId]; node.children.length > 0; node = tree.nodes[node.children[0]]) {
+    const [mainId, ...sidelineIds] = node.children;
+    const move = nodeToPgnMove(tree.nodes[mainId]);
+    move.variations = sidelineIds.map(id => [nodeToPgnMove(tree.nodes[id]), ...treeToPgnMoves(tree, id)]);
+    moves.push(move);
+  }
+
+  return moves;
+};
+
+// Export a game with all its variations, comments and NAGs
+export const exportMoveTreePGN = (tree: MoveTree, headers: Record<string, string> = {}): string => {
+  const root = tree.nodes[tree.rootId];
+  const mainline = getMainline(tree);
+  const finalState = mainline.length > 0 ? mainline[mainline.length - 1].gameState : root.gameState;
+  const moves = treeToPgnMoves(tree, tree.rootId);
+
+  if (root.comment && moves.length > 0) {
+    moves[0].commentsBefore = [root.comment, ...moves[0].commentsBefore];
+  }
+
+  return writePGN({
+    headers: { ...getDefaultHeaders(root.gameState), ...headers },
+    moves,
+    result: getResult(finalState)
+  });
+};
+
+type PgnToken =
+  | { type: 'tag'; name: string; value: string }
+  | { type: 'comment'; text: string }
+  | { type: 'nag'; nag: number }
+  | { type: 'open' }
+  | { type: 'close' }
+  | { type: 'result'; value: string }
+  | { type: 'san'; san: string };
+
+const tokenizePGN = (text: string): PgnToken[] => {
+  const tokens: PgnToken[] = [];
+  let i = 0;
+
+  while (i < text.length) {
+    const char = text[i];
+
+    // Escape mechanism: lines starting with % are ignored
+    if (char === '%' && (i === 0 || text[i - 1] === '\n')) {
+      while (i < text.length && text[i] !== '\n') i++;
+      continue;
+    }
+
+    if (/\s/.test(char)) {
+      i++;
+      continue;
+    }
+
+    if (char === '[') {
+      const match = /^\[\s*(\w+)\s+"((?:[^"\\]|\\.)*)"\s*\]/.exec(text.slice(i));
+      if (!match) {
+        throw new PgnImportError(`Malformed tag pair near "${text.slice(i, i + 30)}"`);
+      }
+      tokens.push({ type: 'tag', name: match[1], value: match[2].replace(/\\(.)/g, '$1') });
+      i += match[0].length;
+      continue;
+    }
+
+    if (char === '{') {
+      const end = text.indexOf('}', i);
+      if (end === -1) {
+        throw new PgnImportError('Unterminated comment');
+      }
+      tokens.push({ type: 'comment', text: text.slice(i + 1, end).trim() });
+      i = end + 1;
+      continue;
+    }
+
+    if (char === ';') {
+      const end = text.indexOf('\n', i);
+      const stop = end === -1 ? text.length : end;
+      tokens.push({ type: 'comment', text: text.slice(i + 1, stop).trim() });
+      i = stop;
+      continue;
+    }
+
+    if (char === '(') {
+      tokens.push({ type: 'open' });
+      i++;
+      continue;
+    }
+
+    if (char === ')') {
+      tokens.push({ type: 'close' });
+      i++;
+      continue;
+    }
+
+    if (char === '$') {
+      const match = /^\$(\d+)/.exec(text.slice(i));
+      if (!match) {
+        throw new PgnImportError(`Malformed NAG near "${text.slice(i, i + 10)}"`);
+      }
+      tokens.push({ type: 'nag', nag: Number(match[1]) });
+      i += match[0].length;
+      continue;
+    }
+
+    const symbolMatch = /^[^\s{}();[\]$]+/.exec(text.slice(i));
+    if (!symbolMatch) {
+      throw new PgnImportError(`Unexpected character "${char}" in move text`);
+    }
+    const symbol = symbolMatch[0];
+    i += symbol.length;
+
+    if (RESULTS.includes(symbol)) {
+      tokens.push({ type: 'result', value: symbol });
+      continue;
+    }
+
+    // Strip move numbers such as "12." or "12..." (possibly glued to the move),
+    // but not the zeros of "0-0"
+    const san = symbol.replace(/^\d+\.+/, '');
+    if (san.length === 0 || /^\d+$/.test(san)) continue;
+
+    const suffix = /[!?]+$/.exec(san);
+    if (suffix) {
+      tokens.push({ type: 'san', san: san.slice(0, -suffix[0].length) });
+      if (SUFFIX_NAGS[suffix[0]]) {
+        tokens.push({ type: 'nag', nag: SUFFIX_NAGS[suffix[0]] });
+      }
+    } else {
+      tokens.push({ type: 'san', san });
+    }
+  }
+
+  return tokens;
+};
+
+export const parsePGN = (text: string): PgnGame => {
+  const tokens = tokenizePGN(text);
+  const headers: Record<string, string> = {};
+  const root: PgnMove[] = [];
+  // Each frame is a line of moves; nested frames are variations. Comments after
+  // a variation are written before the line's next move, not after its last one.
+  const stack: { line: PgnMove[]; pendingComments: string[]; afterVariation: boolean }[] = [
+    { line: root, pendingComments: [], afterVariation: false }
+  ];
+  let result = '*';
+
+  for (const token of tokens) {
+    const frame = stack[stack.length - 1];
+    const lastMove = frame.line[frame.line.length - 1];
+
+    switch (token.type) {
+      case 'tag':
+        headers[token.name] = token.value;
+        break;
+      case 'comment':
+        if (lastMove && frame.pendingComments.length === 0 && !frame.afterVariation) {
+          lastMove.comments.push(token.text);
+        } else {
+          frame.pendingComments.push(token.text);
+        }
+        break;
+      case 'nag':
+        if (!lastMove) {
+          throw new PgnImportError(`NAG $${token.nag} does not follow a move`);
+        }
+        lastMove.nags.push(token.nag);
+        break;
+      case 'open': {
+        if (!lastMove) {
+          throw new PgnImportError('Variation does not follow a move');
+        }
+        const variation: PgnMove[] = [];
+        lastMove.variations.push(variation);
+        stack.push({ line: variation, pendingComments: [], afterVariation: false });
+        break;
+      }
+      case 'close':
+        if (stack.length === 1) {
+          throw new PgnImportError('Unmatched ")" in move text');
+        }
+        if (lastMove) {
+          lastMove.comments.push(...frame.pendingComments);
+        }
+        stack.pop();
+        stack[stack.length - 1].afterVariation = true;
+        break;
+      case 'result':
+        result = token.value;
+        break;
+      case 'san': {
+        const move = createPgnMove(token.san);
+        move.commentsBefore = frame.pendingComments;
+        frame.pendingComments = [];
+        frame.afterVariation = false;
+        frame.line.push(move);
+        break;
+      }
+    }
+  }
+
+  if (stack.length !== 1) {
+    throw new PgnImportError('Unterminated variation in move text');
+  }
+
+  // A trailing comment with no following move belongs to the last move
+  const trailing = stack[0].pendingComments;
+  if (trailing.length > 0 && root.length > 0) {
+    root[root.length - 1].comments.push(...trailing);
+  }
+
+  return {
+    headers,
+    moves: root,
+    result: headers.Result && RESULTS.includes(headers.Result) && result === '*' ? headers.Result : result
+  };
+};
+
+// Add a line of moves played from `parentId`; its variations branch off the
+// same position as the move they are attached to
+const addPgnLine = (tree: MoveTree, parentId: number, moves: PgnMove[]): MoveTree => {
+  let nodeId = parentId;
+
+  for (const pgnMove of moves) {
+    const ply = tree.nodes[nodeId].gameState.moveHistory.length + 1;
+    const move = parseSAN(tree.nodes[nodeId].gameState, pgnMove.san);
+    const added = move ? addMove(tree, nodeId, move.from, move.to, move.promotionPiece) : null;
+
+    if (!added) {
+      throw new PgnImportError(`Illegal or ambiguous move "${pgnMove.san}" at ply ${ply}`, ply);
+    }
+
+    tree = setCommentBefore(added.tree, added.nodeId, pgnMove.commentsBefore.join(' '));
+    tree = setComment(tree, added.nodeId, pgnMove.comments.join(' '));
+    tree = setNags(tree, added.nodeId, [...pgnMove.nags]);
+    for (const variation of pgnMove.variations) {
+      tree = addPgnLine(tree, nodeId, variation);
+    }
+    nodeId = added.nodeId;
+  }
+
+  return tree;
+};
+
+export const importPGN = (text: string): { gameState: GameState; game: PgnGame; tree: MoveTree } => {
+  const game = parsePGN(text);
+  const chess960 = /960|fischer/i.test(game.headers.Variant ?? '');
+  let initialState = chess960 ? createChess960GameState(STANDARD_CHESS960_INDEX) : createInitialGameState();
+
+  if (game.headers.FEN) {
+    try {
+      initialState = fromFEN(game.headers.FEN, { chess960 });
+    } catch (error) {
+      throw new PgnImportError(`Invalid FEN tag: ${(error as Error).message}`);
+    }
+  }
+
+  // A comment before the first move belongs to the game as a whole
+  const [firstMove, ...otherMoves] = game.moves;
+  let tree = createMoveTree(initialState);
+  if (firstMove) {
+    tree = setComment(tree, tree.rootId, firstMove.commentsBefore.join(' '));
+    tree = addPgnLine(tree, tree.rootId, [{ ...firstMove, commentsBefore: [] }, ...otherMoves]);
+  }
+
+  // The game itself is the mainline; sidelines live on in the tree
+  const mainline = getMainline(tree);
+  const gameState = mainline.length > 0 ? mainline[mainline.length - 1].gameState : initialState;
+
+  return { gameState, game, tree };
+};
@@ -0,0 +1,46 @@
+import { Move } from '../types/chess';
+
+export type MoveSound = 'move' | 'capture' | 'check' | 'gameEnd';
+
+// Frequency in Hz and length in ms of each tone, played one after the other
+const SOUND_TONES: Record<MoveSound, [number, number][]> = {
+  move: [[440, 60]],
+  capture: [[330, 50], [220, 70]],
+  check: [[660, 60], [880, 90]],
+  gameEnd: [[523, 120], [659, 120], [784, 200]]
+};
+
+let audioContext: AudioContext | null = null;
+
+export const getMoveSound = (move: Move, isGameEnd: boolean): MoveSound => {
+  if (isGameEnd) return 'gameEnd';
+  if (move.isCheck) return 'check';
+  return move.capturedPiece ? 'capture' : 'move';
+};
+
+// Short synthesized beeps, so the app needs no audio files. Browsers only allow
+// audio after a user gesture; until then this quietly does nothing.
+export const playSound = (sound: MoveSound): void => {
+  if (typeof window === 'undefined' || !window.AudioContext) return;
+
+  try {
+    audioContext = audioContext ?? new AudioContext();
+    let start = audioContext.currentTime;
+
+    for (const [frequency, length] of SOUND_TONES[sound]) {
+      const oscillator = audioContext.createOscillator();
+      const gain = audioContext.createGain();
+      const end = start + length / 1000;
+
+      oscillator.frequency.value = frequency;
+      gain.gain.setValueAtTime(0.15, start);
+      gain.gain.exponentialRampToValueAtTime(0.001, end);
+      oscillator.connect(gain).connect(audioContext.destination);
+      oscillator.start(start);
+      oscillator.stop(end);
+      start = end;
+    }
+  } catch {
+    // No audio output available
+  }
+};
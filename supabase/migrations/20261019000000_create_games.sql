@@ -0,0 +1,22 @@
+-- Server record of an online game; moves themselves travel over Realtime broadcast
+create table if not exists public.games (
+  id uuid primary key default gen_random_uuid(),
+  board text not null,
+  current_player text not null check (current_player in ('white', 'black')),
+  status text not null,
+  move_history jsonb not null default '[]'::jsonb,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+alter table public.games enable row level security;
+
+-- Anyone holding the invite link (the game id) may read and update the game
+create policy "games are readable" on public.games
+  for select using (true);
+
+create policy "games can be created" on public.games
+  for insert with check (true);
+
+create policy "games can be updated" on public.games
+  for update using (true);
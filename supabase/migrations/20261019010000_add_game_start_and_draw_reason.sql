@@ -0,0 +1,7 @@
+-- Games set up from a FEN replay their history from start_fen; claimed draws keep their reason
+alter table public.games
+  add column if not exists start_fen text,
+  add column if not exists draw_reason text;
+
+create policy "games can be deleted" on public.games
+  for delete using (true);
@@ -0,0 +1,45 @@
+-- The open policies let any client list and overwrite every game. Clients now
+-- go through the functions below instead, which only reach a game by its id:
+-- holding the invite link (the game id) is what lets a player read and update
+-- a game, and the table itself cannot be listed.
+drop policy if exists "games are readable" on public.games;
+drop policy if exists "games can be created" on public.games;
+drop policy if exists "games can be updated" on public.games;
+
+-- An upsert that leaves an existing game alone, so a retry after a lost response is harmless
+create or replace function public.create_game(game jsonb) returns jsonb
+language sql security definer set search_path = public as $$
+  insert into games (id, board, current_player, status, move_history, start_fen, draw_reason)
+  values (
+    (game->>'id')::uuid,
+    game->>'board',
+    game->>'current_player',
+    game->>'status',
+    coalesce(game->'move_history', '[]'::jsonb),
+    game->>'start_fen',
+    game->>'draw_reason'
+  )
+  on conflict (id) do nothing;
+
+  select to_jsonb(g) from games g where g.id = (game->>'id')::uuid;
+$$;
+
+-- Null when there is no such game
+create or replace function public.get_game(game_id uuid) returns jsonb
+language sql stable security definer set search_path = public as $$
+  select to_jsonb(g) from games g where g.id = game_id;
+$$;
+
+create or replace function public.save_game(game jsonb) returns jsonb
+language sql security definer set search_path = public as $$
+  update games set
+    board = game->>'board',
+    current_player = game->>'current_player',
+    status = game->>'status',
+    move_history = coalesce(game->'move_history', '[]'::jsonb),
+    start_fen = game->>'start_fen',
+    draw_reason = game->>'draw_reason',
+    updated_at = now()
+  where id = (game->>'id')::uuid
+  returning to_jsonb(games);
+$$;
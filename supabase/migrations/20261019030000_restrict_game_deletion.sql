@@ -0,0 +1,53 @@
+-- Deleting was open to any client. Now only the game's creator can, with the
+-- secret it chose when creating the game; the secret is never handed out.
+drop policy if exists "games can be deleted" on public.games;
+
+-- Games created before this get a secret nobody knows, so they stay
+alter table public.games
+  add column if not exists owner_secret uuid not null default gen_random_uuid();
+
+create or replace function public.create_game(game jsonb) returns jsonb
+language sql security definer set search_path = public as $$
+  insert into games (id, board, current_player, status, move_history, start_fen, draw_reason, owner_secret)
+  values (
+    (game->>'id')::uuid,
+    game->>'board',
+    game->>'current_player',
+    game->>'status',
+    coalesce(game->'move_history', '[]'::jsonb),
+    game->>'start_fen',
+    game->>'draw_reason',
+    coalesce((game->>'owner_secret')::uuid, gen_random_uuid())
+  )
+  on conflict (id) do nothing;
+
+  select to_jsonb(g) - 'owner_secret' from games g where g.id = (game->>'id')::uuid;
+$$;
+
+create or replace function public.get_game(game_id uuid) returns jsonb
+language sql stable security definer set search_path = public as $$
+  select to_jsonb(g) - 'owner_secret' from games g where g.id = game_id;
+$$;
+
+create or replace function public.save_game(game jsonb) returns jsonb
+language sql security definer set search_path = public as $$
+  update games set
+    board = game->>'board',
+    current_player = game->>'current_player',
+    status = game->>'status',
+    move_history = coalesce(game->'move_history', '[]'::jsonb),
+    start_fen = game->>'start_fen',
+    draw_reason = game->>'draw_reason',
+    updated_at = now()
+  where id = (game->>'id')::uuid
+  returning to_jsonb(games) - 'owner_secret';
+$$;
+
+-- False when there is no such game or the secret is wrong
+create or replace function public.delete_game(game_id uuid, secret uuid) returns boolean
+language sql security definer set search_path = public as $$
+  with deleted as (
+    delete from games where id = game_id and owner_secret = secret returning id
+  )
+  select exists (select 1 from deleted);
+$$;
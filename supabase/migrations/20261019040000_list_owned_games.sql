@@ -0,0 +1,8 @@
+-- Listing lets a browser find the games it created, and only those: it passes
+-- the owner secrets it holds, and a game is listed when its secret is one of them.
+create or replace function public.list_games(secrets uuid[]) returns jsonb
+language sql stable security definer set search_path = public as $$
+  select coalesce(jsonb_agg(to_jsonb(g) - 'owner_secret' order by g.updated_at desc), '[]'::jsonb)
+  from games g
+  where g.owner_secret = any(secrets);
+$$;